@@ -0,0 +1,198 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { redactSecrets } from './utils.js';
+import { createLogger } from './logger.js';
+
+/**
+ * Append-only JSONL audit log of write operations sent to YouTrack.
+ *
+ * YouTrackClient records every non-GET request. The MCP tool that caused the
+ * request is tracked with AsyncLocalStorage, so entries name the tool and its
+ * arguments without threading them through every client method. A request
+ * that is retried is recorded once per attempt, with the attempt's number.
+ */
+
+/**
+ * The tool call a request is made for
+ */
+export interface AuditContext {
+  tool: string;
+  instance: string;
+  arguments: Record<string, any>;
+}
+
+export interface AuditEntry {
+  timestamp: string; // ISO 8601
+  tool?: string; // Absent for requests made outside a tool call
+  instance?: string;
+  arguments?: Record<string, any>; // Secrets redacted
+  request: {
+    method: string;
+    path: string; // Relative to /api, without query string
+    body?: any; // Secrets redacted
+  };
+  issueIds: string[];
+  attempt?: number; // 1 for the first try of a request, 2 and up for its retries
+  result?: {
+    status: number;
+    id?: string;
+    idReadable?: string;
+  };
+  error?: string;
+}
+
+export interface AuditLogFilter {
+  since?: number; // Unix timestamp (ms)
+  until?: number; // Unix timestamp (ms)
+  tool?: string;
+  issueId?: string;
+  limit?: number;
+}
+
+const log = createLogger('audit');
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+const attemptContext = new AsyncLocalStorage<number>();
+
+/**
+ * Run a tool call so that requests it makes are attributed to it
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return auditContext.run(context, fn);
+}
+
+/**
+ * Run one attempt of a request, so that its audit entry has the attempt number
+ */
+export function runAuditedAttempt<T>(attempt: number, fn: () => T): T {
+  return attemptContext.run(attempt, fn);
+}
+
+/**
+ * Issue IDs referenced by a request path (e.g. /issues/PROJ-1/comments) or a command body
+ */
+function extractIssueIds(path: string, body: any, responseData: any): string[] {
+  const issueIds = new Set<string>();
+
+  const pathMatch = path.match(/^\/issues\/([^/?]+)/);
+  if (pathMatch) {
+    issueIds.add(decodeURIComponent(pathMatch[1]));
+  }
+
+  if (Array.isArray(body?.issues)) {
+    for (const issue of body.issues) {
+      if (issue?.idReadable || issue?.id) {
+        issueIds.add(issue.idReadable || issue.id);
+      }
+    }
+  }
+
+  if (path === '/issues' && responseData?.idReadable) {
+    issueIds.add(responseData.idReadable);
+  }
+
+  return Array.from(issueIds);
+}
+
+export class AuditLog {
+  private writeChain: Promise<void> = Promise.resolve();
+  private directoryReady = false;
+
+  constructor(readonly path: string) {}
+
+  /**
+   * Record a write request and its outcome
+   */
+  record(request: { method: string; url: string; data?: any }, outcome: { status?: number; data?: any; error?: string }): Promise<void> {
+    const context = auditContext.getStore();
+    const path = request.url.split('?')[0];
+
+    let body = request.data;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch (error) {
+        // Keep non-JSON bodies as they are
+      }
+    }
+
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      tool: context?.tool,
+      instance: context?.instance,
+      arguments: context ? redactSecrets(context.arguments) : undefined,
+      request: {
+        method: request.method.toUpperCase(),
+        path,
+        body: body === undefined ? undefined : redactSecrets(body)
+      },
+      issueIds: extractIssueIds(path, body, outcome.data),
+      attempt: attemptContext.getStore(),
+      result: outcome.error === undefined && outcome.status !== undefined
+        ? { status: outcome.status, id: outcome.data?.id, idReadable: outcome.data?.idReadable }
+        : undefined,
+      error: outcome.error
+    };
+
+    return this.append(entry);
+  }
+
+  /**
+   * Append an entry. Writes are serialized so lines never interleave.
+   */
+  private append(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+
+    this.writeChain = this.writeChain.then(async () => {
+      if (!this.directoryReady) {
+        await mkdir(dirname(this.path), { recursive: true });
+        this.directoryReady = true;
+      }
+      await appendFile(this.path, line, 'utf-8');
+    }).catch(error => {
+      log.error('Failed to write audit log', { path: this.path, error });
+    });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Read entries matching the filter, newest first
+   */
+  async read(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    await this.writeChain;
+
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        // Skip lines that were cut off or edited by hand
+      }
+    }
+
+    const issueId = filter.issueId?.toUpperCase();
+    const matching = entries.filter(entry => {
+      const time = Date.parse(entry.timestamp);
+      if (filter.since !== undefined && time < filter.since) return false;
+      if (filter.until !== undefined && time > filter.until) return false;
+      if (filter.tool && entry.tool !== filter.tool) return false;
+      if (issueId && !entry.issueIds.some(id => id.toUpperCase() === issueId)) return false;
+      return true;
+    });
+
+    return matching.reverse().slice(0, filter.limit ?? matching.length);
+  }
+}
@@ -0,0 +1,141 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createLogger } from './logger.js';
+
+/**
+ * Cancellation, progress and questions to the user of the MCP request in progress.
+ *
+ * The registry runs every tool call with the request's AbortSignal and a
+ * progress reporter, tracked with AsyncLocalStorage. YouTrackClient passes
+ * the signal to every HTTP request, so a cancelled call stops sending
+ * requests, and long loops report their progress without threading either
+ * through every client method.
+ *
+ * When a name is not an exact ID, short name, name, login or link type name
+ * but partly matches one or more projects, users or link types, the client
+ * asks the user to pick one through MCP elicitation. Without elicitation, or when
+ * the user does not pick, the call fails and the candidates are kept on the
+ * call for the registry to return as structured content.
+ */
+
+export interface ChoiceOption {
+  value: string; // Passed back to YouTrack, e.g. a login
+  label: string; // Shown to the user, e.g. "Alex Smith (alex.smith)"
+}
+
+/**
+ * A name that matched no candidate exactly, with the candidates it partly matched
+ */
+export interface Ambiguity {
+  kind: 'project' | 'user' | 'linkType';
+  field?: string; // Custom field the user name was given for
+  value: string;
+  options: ChoiceOption[];
+}
+
+export interface CallControl {
+  signal?: AbortSignal;
+  /**
+   * Unset when the client did not ask for progress notifications
+   */
+  reportProgress?: (progress: number, total?: number, message?: string) => void | Promise<void>;
+  /**
+   * Ask the user to pick one of the options; resolves to the picked value, or
+   * undefined when the user declined. Unset when the client does not support elicitation.
+   */
+  choose?: (message: string, options: ChoiceOption[]) => Promise<string | undefined>;
+  /**
+   * Picks the user made during the call, by kind and name, so that a name
+   * resolved twice (e.g. by the policy check and the tool) is asked about once
+   */
+  choices?: Map<string, string>;
+  /**
+   * Set when the call failed on an ambiguous name
+   */
+  ambiguity?: Ambiguity;
+}
+
+const log = createLogger('call-control');
+
+const currentCall = new AsyncLocalStorage<CallControl>();
+
+/**
+ * Run a call so that requests it makes can be cancelled and its progress reported
+ */
+export function runWithCallControl<T>(control: CallControl, fn: () => T): T {
+  return currentCall.run(control, fn);
+}
+
+/**
+ * Signal of the call in progress, aborted when the client cancels it
+ */
+export function getCallSignal(): AbortSignal | undefined {
+  return currentCall.getStore()?.signal;
+}
+
+/**
+ * Stop the call in progress if it was cancelled
+ */
+export function throwIfCancelled(): void {
+  if (getCallSignal()?.aborted) {
+    throw new Error('Cancelled by the client');
+  }
+}
+
+/**
+ * Pick one of the candidates for a name that matched none exactly: the one the
+ * user picks, or none, failing the call with the candidates listed. A single
+ * candidate is not taken without asking either.
+ */
+export async function chooseOne(ambiguity: Ambiguity): Promise<string> {
+  const control = currentCall.getStore();
+  const subject = ambiguity.field ? `${ambiguity.field} "${ambiguity.value}"` : `"${ambiguity.value}"`;
+  const kindName = ambiguity.kind === 'linkType' ? 'link type' : ambiguity.kind;
+  const count = ambiguity.options.length;
+  const matches = count === 1 ? `partly matches one ${kindName}` : `partly matches ${count} ${kindName}s`;
+
+  const key = `${ambiguity.kind}:${ambiguity.value}`;
+  const previous = control?.choices?.get(key);
+  if (previous !== undefined) {
+    return previous;
+  }
+
+  if (control?.choose) {
+    const question = count === 1 ? 'Is this the one you meant?' : 'Which one did you mean?';
+    const choice = await control.choose(`${subject} is not an exact ${kindName} name and ${matches}. ${question}`, ambiguity.options)
+      .catch(error => {
+        // E.g. the question timed out; fail as without elicitation
+        log.debug('Failed to ask the user to pick', { kind: ambiguity.kind, value: ambiguity.value, error });
+        return undefined;
+      });
+    throwIfCancelled();
+    if (choice !== undefined && ambiguity.options.some(option => option.value === choice)) {
+      log.debug('Ambiguous name resolved by the user', { kind: ambiguity.kind, value: ambiguity.value, choice });
+      (control.choices ??= new Map()).set(key, choice);
+      return choice;
+    }
+  }
+
+  if (control) {
+    control.ambiguity = ambiguity;
+  }
+  throw new Error(
+    `${subject} is ambiguous; it is not an exact ${kindName} name and ${matches}: ` +
+    `${ambiguity.options.map(option => option.label).join(', ')}. Call again with one of: ` +
+    ambiguity.options.map(option => option.value).join(', ')
+  );
+}
+
+/**
+ * Send a progress notification for the call in progress. Progress must increase
+ * with every report; `total` is left out when it is not known.
+ */
+export function reportProgress(progress: number, total?: number, message?: string): void {
+  const report = currentCall.getStore()?.reportProgress;
+  if (!report) {
+    return;
+  }
+
+  Promise.resolve()
+    .then(() => report(progress, total, message))
+    .catch(error => log.debug('Failed to send progress notification', { progress, total, error }));
+}
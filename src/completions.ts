@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CompleteRequestSchema, CompleteResult, PromptReferenceSchema, ResourceReferenceSchema } from "@modelcontextprotocol/sdk/types.js";
+import { runWithCallControl } from './call-control.js';
+import { YouTrackInstance } from './instances.js';
+import { LogSink, createLogger, runWithLogSink } from './logger.js';
+import { getFieldValues, getProjectOfIssueId } from './project-fields.js';
+import { ToolRuntime } from './tools/registry.js';
+
+/**
+ * Argument completion (`completion/complete`).
+ *
+ * Values are offered by argument name, so prompts, resource templates and tools
+ * share them: project short names, user logins, link type names, work item types
+ * and the values of bundle fields such as State or Priority. Field values come
+ * from the cached custom field metadata and, like work item types, are limited
+ * to the project named by the `project` or issue ID argument, when the client
+ * sends the other arguments as context.
+ *
+ * MCP defines completion for prompt and resource template arguments. Tool
+ * arguments can be completed with a `ref/tool` reference naming the tool.
+ */
+
+const log = createLogger('completions');
+
+/**
+ * Most values returned by one completion, as allowed by MCP
+ */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * How long project, link type and work item type lists are reused between completions (ms)
+ */
+const LIST_CACHE_TTL = 60 * 1000;
+
+/**
+ * Argument names that complete like another argument
+ */
+const ARGUMENT_ALIASES: Record<string, string> = {
+  projectId: 'project',
+  shortName: 'project', // youtrack://project/{shortName}
+  assignee: 'user',
+  userId: 'user',
+  login: 'user',
+  inProgressState: 'state'
+};
+
+/**
+ * Arguments that name the issue whose project limits field values
+ */
+const ISSUE_ID_ARGUMENTS = ['issueId', 'parentIssueId', 'sourceIssueId', 'id'];
+
+/**
+ * Tools whose `type` argument is a work item type rather than the Type field
+ */
+const WORK_ITEM_TOOLS = new Set(['create-work-item', 'update-work-item']);
+
+const ToolReferenceSchema = z.object({
+  type: z.literal('ref/tool'),
+  name: z.string()
+}).passthrough();
+
+const CompleteWithContextRequestSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([PromptReferenceSchema, ResourceReferenceSchema, ToolReferenceSchema]),
+    context: z.object({
+      arguments: z.record(z.string()).optional() // Values of the other arguments, already entered
+    }).passthrough().optional()
+  })
+});
+
+/**
+ * Lists that change rarely, cached per instance for LIST_CACHE_TTL
+ */
+class ListCache {
+  private entries = new Map<string, { expires: number; values: Promise<string[]> }>();
+
+  get(key: string, fetch: () => Promise<string[]>): Promise<string[]> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expires > Date.now()) {
+      return entry.values;
+    }
+
+    const values = fetch();
+    this.entries.set(key, { expires: Date.now() + LIST_CACHE_TTL, values });
+    // Fetch again next time instead of keeping the failure
+    values.catch(() => this.entries.delete(key));
+    return values;
+  }
+}
+
+function toCompletion(values: string[]): CompleteResult {
+  return {
+    completion: {
+      values: values.slice(0, MAX_COMPLETION_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETION_VALUES
+    }
+  };
+}
+
+/**
+ * Values starting with the typed text first, then values containing it, ignoring case
+ */
+function matchValues(values: string[], typed: string): CompleteResult {
+  const text = typed.toLowerCase();
+  const prefixed = values.filter(value => value.toLowerCase().startsWith(text));
+  const containing = values.filter(value => !value.toLowerCase().startsWith(text) && value.toLowerCase().includes(text));
+  return toCompletion([...prefixed, ...containing]);
+}
+
+/**
+ * Lowercase without spaces, dashes or underscores, so `storyPoints` matches `Story Points`
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+/**
+ * The project that limits field values: the project argument, or the project of the issue argument
+ */
+function getContextProject(args: Record<string, string>): string | undefined {
+  if (args.project || args.projectId) {
+    return args.project || args.projectId;
+  }
+  for (const name of ISSUE_ID_ARGUMENTS) {
+    const project = args[name] && getProjectOfIssueId(args[name]);
+    if (project) {
+      return project;
+    }
+  }
+  return undefined;
+}
+
+async function completeArgument(
+  instance: YouTrackInstance,
+  cache: ListCache,
+  argument: string,
+  typed: string,
+  args: Record<string, string>
+): Promise<CompleteResult> {
+  const { client, customFields } = instance;
+  const name = ARGUMENT_ALIASES[argument] ?? argument;
+
+  switch (name) {
+    case 'project':
+      return matchValues(await cache.get(`${instance.name}:projects`, async () =>
+        (await client.getProjects()).filter(project => !project.archived).map(project => project.shortName)
+      ), typed);
+    case 'user': {
+      // YouTrack matches the typed text against logins, names and emails
+      const users = await client.getUsers(typed || undefined, MAX_COMPLETION_VALUES);
+      return toCompletion(users.filter(user => !user.banned).map(user => user.login));
+    }
+    case 'linkType':
+      return matchValues(await cache.get(`${instance.name}:linkTypes`, async () =>
+        (await client.getLinkTypes()).map(linkType => linkType.name)
+      ), typed);
+    case 'workItemType': {
+      const project = getContextProject(args);
+      return matchValues(await cache.get(`${instance.name}:workItemTypes:${project ?? ''}`, async () =>
+        (await client.getWorkItemTypes(project)).map(type => type.name)
+      ), typed);
+    }
+    default: {
+      // A bundle field named like the argument, e.g. state, priority or type, through the field mappings
+      const fieldName = normalizeName(client.getFieldName(name.charAt(0).toUpperCase() + name.slice(1)));
+      const field = customFields.find(candidate => normalizeName(candidate.name) === fieldName);
+      return matchValues(field ? getFieldValues(customFields, field.name, getContextProject(args)) : [], typed);
+    }
+  }
+}
+
+/**
+ * Register completion of prompt, resource template and tool arguments on an MCP
+ * server. Must be called after prompts and resources are registered, as it
+ * replaces the handler McpServer installs for them.
+ */
+export function registerCompletions(server: McpServer, runtime: ToolRuntime, logSink: LogSink): void {
+  const { instances } = runtime;
+  const cache = new ListCache();
+
+  server.server.registerCapabilities({ completions: {} });
+  server.server.setRequestHandler(CompleteWithContextRequestSchema, (request, extra) =>
+    runWithLogSink(logSink, () => runWithCallControl({ signal: extra.signal }, async (): Promise<CompleteResult> => {
+      const { ref, argument } = request.params;
+      const args = request.params.context?.arguments ?? {};
+      const argumentName = ref.type === 'ref/tool' && argument.name === 'type' && WORK_ITEM_TOOLS.has(ref.name)
+        ? 'workItemType'
+        : argument.name;
+
+      try {
+        const instance = instances.get(args.instance);
+        return await completeArgument(instance, cache, argumentName, argument.value, args);
+      } catch (error) {
+        // Completion is a convenience; offer nothing rather than fail the request
+        log.warning('Failed to complete argument', { argument: argument.name, error });
+        return toCompletion([]);
+      }
+    }))
+  );
+}
@@ -0,0 +1,197 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { extname, join, resolve } from 'node:path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { LogLevel, OutputFormat } from './types.js';
+import { LOG_LEVELS } from './logger.js';
+import { OUTPUT_FORMATS } from './output-format.js';
+
+/**
+ * Loading and validation of the optional JSON/YAML configuration file.
+ *
+ * Example (YAML):
+ *
+ *   defaultProfile: work
+ *   profiles:
+ *     work:
+ *       defaultProject: PROJ
+ *       timezone: Europe/Berlin
+ *       instances:
+ *         default:
+ *           url: https://company.youtrack.cloud
+ *           token: perm:...
+ */
+
+/**
+ * File names looked up in the working directory and in ~/.config/youtrack-mcp
+ */
+const CONFIG_FILE_NAMES = [
+  'youtrack-mcp.config.json',
+  'youtrack-mcp.config.yaml',
+  'youtrack-mcp.config.yml'
+];
+
+const positiveInt = z.number().int().positive();
+const nonNegativeInt = z.number().int().nonnegative();
+
+const instanceFileSchema = z.object({
+  url: z.string().url().optional(),
+  token: z.string().min(1).optional(),
+  timeout: positiveInt.optional(),
+  rateLimit: positiveInt.optional(),
+  maxConcurrency: positiveInt.optional(),
+  maxRetries: nonNegativeInt.optional(),
+  fieldMappings: z.record(z.string()).optional(),
+  fixtures: z.object({
+    mode: z.enum(['record', 'replay']),
+    dir: z.string().min(1).optional()
+  }).strict().optional()
+}).strict();
+
+const profileFileSchema = z.object({
+  instances: z.record(instanceFileSchema).optional(),
+  defaultInstance: z.string().optional(),
+  defaultProject: z.string().min(1).optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  fieldMappings: z.record(z.string()).optional(),
+  enabledTools: z.array(z.string()).optional(),
+  policy: z.object({
+    readOnly: z.boolean().optional(),
+    deniedTools: z.array(z.string()).optional(),
+    allowedProjects: z.array(z.string().min(1)).optional()
+  }).strict().optional(),
+  auditLog: z.union([z.string().min(1), z.literal(false)]).optional(),
+  schemaRefreshInterval: nonNegativeInt.optional(),
+  outputFormat: z.enum(OUTPUT_FORMATS as [OutputFormat, ...OutputFormat[]]).optional(),
+  maxOutputTokens: nonNegativeInt.optional(),
+  subscriptionPollInterval: nonNegativeInt.optional(),
+  subscriptionMaxBackoff: positiveInt.optional(),
+  timeout: positiveInt.optional(),
+  rateLimit: positiveInt.optional(),
+  maxConcurrency: positiveInt.optional(),
+  maxRetries: nonNegativeInt.optional(),
+  debug: z.boolean().optional(),
+  logging: z.object({
+    level: z.enum(LOG_LEVELS as [LogLevel, ...LogLevel[]]).optional(),
+    file: z.string().min(1).optional(),
+    includeBodies: z.boolean().optional()
+  }).strict().optional(),
+  transport: z.object({
+    mode: z.enum(['stdio', 'http']).optional(),
+    host: z.string().optional(),
+    port: positiveInt.max(65535).optional()
+  }).strict().optional()
+}).strict();
+
+const configFileSchema = z.object({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(profileFileSchema)
+}).strict();
+
+export type InstanceFileConfig = z.infer<typeof instanceFileSchema>;
+export type ProfileFileConfig = z.infer<typeof profileFileSchema>;
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+export interface LoadedProfile {
+  path: string;
+  name: string;
+  profile: ProfileFileConfig;
+}
+
+/**
+ * Check whether a timezone name is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Format a key path like ["profiles", "work", "enabledTools", 2] as "profiles.work.enabledTools[2]"
+ */
+export function formatKeyPath(path: Array<string | number>): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') {
+      return `${result}[${key}]`;
+    }
+    return result ? `${result}.${key}` : key;
+  }, '');
+}
+
+/**
+ * Find the configuration file: an explicit path wins, then the standard search path
+ */
+export function findConfigFile(explicitPath?: string): string | undefined {
+  if (explicitPath) {
+    const resolvedPath = resolve(explicitPath);
+    if (!existsSync(resolvedPath)) {
+      throw new Error(`Config file not found: ${resolvedPath}`);
+    }
+    return resolvedPath;
+  }
+
+  const searchDirs = [process.cwd(), join(homedir(), '.config', 'youtrack-mcp')];
+  for (const dir of searchDirs) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, fileName);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read, parse and validate a configuration file
+ */
+export function readConfigFile(path: string): ConfigFile {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, 'utf-8');
+    raw = ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Failed to parse config file ${path}: ${error.message}`);
+  }
+
+  const result = configFileSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue =>
+      `  ${formatKeyPath(issue.path) || '(root)'}: ${issue.message}`
+    );
+    throw new Error(`Invalid config file ${path}:\n${problems.join('\n')}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load the requested profile from the configuration file.
+ * Without an explicit profile name, the file's defaultProfile (or its only profile) is used.
+ */
+export function loadProfile(path: string, profileName?: string): LoadedProfile {
+  const configFile = readConfigFile(path);
+  const profileNames = Object.keys(configFile.profiles);
+
+  let name = profileName || configFile.defaultProfile;
+  if (!name) {
+    if (profileNames.length !== 1) {
+      throw new Error(`Config file ${path} defines ${profileNames.length} profiles; set defaultProfile or choose one with --profile`);
+    }
+    name = profileNames[0];
+  }
+
+  const profile = configFile.profiles[name];
+  if (!profile) {
+    const keyPath = profileName ? `profiles.${name}` : 'defaultProfile';
+    throw new Error(`Invalid config file ${path}:\n  ${keyPath}: Unknown profile "${name}". Available profiles: ${profileNames.join(', ')}`);
+  }
+
+  return { path, name, profile };
+}
@@ -1,66 +1,385 @@
-﻿import { config } from 'dotenv';
-import { YouTrackConfig } from './types.js';
+import { config } from 'dotenv';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { YouTrackConfig, YouTrackInstancesConfig, TransportConfig, TransportMode, ServerConfig, ProfileSettings, PolicyConfig, LoggingConfig, FixtureConfig, OutputFormat } from './types.js';
+import { findConfigFile, loadProfile, isValidTimezone, InstanceFileConfig, LoadedProfile } from './config-file.js';
+import { createLogger, isLogLevel, LOG_LEVELS } from './logger.js';
+import { OUTPUT_FORMATS } from './output-format.js';
 
 // Load environment variables
 config();
 
+const log = createLogger('config');
+
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+const DEFAULT_AUDIT_LOG_PATH = join(homedir(), '.config', 'youtrack-mcp', 'audit.jsonl');
+
+/**
+ * Seconds between background custom field refreshes; 0 disables them
+ */
+const DEFAULT_SCHEMA_REFRESH_INTERVAL = 900;
+const DEFAULT_SUBSCRIPTION_POLL_INTERVAL = 60;
+const DEFAULT_SUBSCRIPTION_MAX_BACKOFF = 900;
+
 /**
- * Validates and returns the YouTrack configuration from environment variables
+ * Read the value of a `--name value` or `--name=value` command line flag
  */
-export function getConfig(): YouTrackConfig {
-  const url = process.env.YOUTRACK_URL;
-  const token = process.env.YOUTRACK_TOKEN;
+function getCliFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a non-empty environment variable
+ */
+function getEnv(name: string): string | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' ? undefined : value;
+}
+
+/**
+ * Split a comma-separated environment variable into a list
+ */
+function getEnvList(name: string): string[] | undefined {
+  const value = getEnv(name);
+  return value === undefined ? undefined : value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse an integer of at least `min` from an environment variable, falling back to the file value
+ */
+function resolveInt(envName: string, fileValue: number | undefined, fallback: number, min: number): number {
+  const envValue = getEnv(envName);
+  if (envValue === undefined) {
+    return fileValue ?? fallback;
+  }
+
+  const parsed = /^\d+$/.test(envValue) ? parseInt(envValue, 10) : NaN;
+  if (isNaN(parsed) || parsed < min) {
+    throw new Error(`${envName} must be ${min > 0 ? 'a positive' : 'a non-negative'} number`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a positive integer from an environment variable, falling back to the file value
+ */
+function resolvePositiveInt(envName: string, fileValue: number | undefined, fallback: number): number {
+  return resolveInt(envName, fileValue, fallback, 1);
+}
+
+/**
+ * Validates and returns the configuration of a single YouTrack instance.
+ * Environment variables with the given prefix (e.g. YOUTRACK_ or YOUTRACK_CLIENT_)
+ * override values from the config file.
+ */
+function getInstanceConfig(
+  envPrefix: string,
+  fileInstance: InstanceFileConfig,
+  fileKeyPath: string,
+  profile: LoadedProfile['profile'] | undefined
+): YouTrackConfig {
+  const url = getEnv(`${envPrefix}URL`) ?? fileInstance.url;
+  const token = getEnv(`${envPrefix}TOKEN`) ?? fileInstance.token;
 
   if (!url) {
-    throw new Error('YOUTRACK_URL environment variable is required');
+    throw new Error(`${envPrefix}URL environment variable${profile ? ` or ${fileKeyPath}.url` : ''} is required`);
   }
 
   if (!token) {
-    throw new Error('YOUTRACK_TOKEN environment variable is required');
+    throw new Error(`${envPrefix}TOKEN environment variable${profile ? ` or ${fileKeyPath}.token` : ''} is required`);
   }
 
-  // Validate URL format
+  // Validate URL format (file values are validated when the file is loaded)
   try {
     new URL(url);
   } catch (error) {
-    throw new Error('YOUTRACK_URL must be a valid URL');
+    throw new Error(`${envPrefix}URL must be a valid URL`);
   }
 
   // Parse optional configuration
-  const timeout = process.env.YOUTRACK_TIMEOUT
-    ? parseInt(process.env.YOUTRACK_TIMEOUT, 10)
-    : 30000;
+  const timeout = resolvePositiveInt(`${envPrefix}TIMEOUT`, fileInstance.timeout ?? profile?.timeout, 30000);
+  const rateLimit = resolvePositiveInt(`${envPrefix}RATE_LIMIT`, fileInstance.rateLimit ?? profile?.rateLimit, 60);
+  const maxConcurrency = resolvePositiveInt(`${envPrefix}MAX_CONCURRENCY`, fileInstance.maxConcurrency ?? profile?.maxConcurrency, 4);
+  const maxRetries = resolveInt(`${envPrefix}MAX_RETRIES`, fileInstance.maxRetries ?? profile?.maxRetries, 3, 0);
+
+  return {
+    url: url.replace(/\/$/, ''), // Remove trailing slash
+    token,
+    timeout,
+    rateLimit,
+    maxConcurrency,
+    maxRetries,
+    fieldMappings: { ...profile?.fieldMappings, ...fileInstance.fieldMappings }
+  };
+}
+
+/**
+ * Validates and returns the YouTrack instance configuration.
+ *
+ * Instances come from YOUTRACK_INSTANCES (e.g. "company,client") or from the
+ * profile's `instances` map. Without either, a single instance named "default"
+ * is read from YOUTRACK_URL, YOUTRACK_TOKEN, etc. Other instances use prefixed
+ * variables such as YOUTRACK_COMPANY_URL.
+ */
+function getInstancesConfig(loadedProfile?: LoadedProfile): YouTrackInstancesConfig {
+  const profile = loadedProfile?.profile;
+  const profileKeyPath = loadedProfile ? `profiles.${loadedProfile.name}` : '';
+  const fileInstances = profile?.instances || {};
+
+  const instanceList = getEnvList('YOUTRACK_INSTANCES');
+  let names: string[];
+  if (instanceList) {
+    names = instanceList;
+    if (names.length === 0) {
+      throw new Error('YOUTRACK_INSTANCES must list at least one instance name');
+    }
+  } else {
+    names = Object.keys(fileInstances);
+    if (names.length === 0) {
+      names = [DEFAULT_INSTANCE_NAME];
+    }
+  }
 
-  const rateLimit = process.env.YOUTRACK_RATE_LIMIT
-    ? parseInt(process.env.YOUTRACK_RATE_LIMIT, 10)
-    : 60;
+  const instances: Record<string, YouTrackConfig> = {};
+  for (const name of names) {
+    if (!/^[A-Za-z][A-Za-z0-9_-]*$/.test(name)) {
+      throw new Error(`Invalid instance name "${name}" (use letters, digits, "-" and "_")`);
+    }
+    if (instances[name]) {
+      throw new Error(`Duplicate instance name "${name}" in YOUTRACK_INSTANCES`);
+    }
 
-  const debug = process.env.DEBUG === 'true';
+    const envPrefix = name === DEFAULT_INSTANCE_NAME
+      ? 'YOUTRACK_'
+      : `YOUTRACK_${name.toUpperCase().replace(/-/g, '_')}_`;
 
-  if (isNaN(timeout) || timeout <= 0) {
-    throw new Error('YOUTRACK_TIMEOUT must be a positive number');
+    instances[name] = getInstanceConfig(envPrefix, fileInstances[name] || {}, `${profileKeyPath}.instances.${name}`, profile);
+    const fixtures = getFixtureConfig(envPrefix, fileInstances[name]?.fixtures, name);
+    if (fixtures) {
+      instances[name].fixtures = fixtures;
+    }
   }
 
-  if (isNaN(rateLimit) || rateLimit <= 0) {
-    throw new Error('YOUTRACK_RATE_LIMIT must be a positive number');
+  const defaultInstance = getEnv('YOUTRACK_DEFAULT_INSTANCE') ?? profile?.defaultInstance ?? names[0];
+  if (!instances[defaultInstance]) {
+    const source = getEnv('YOUTRACK_DEFAULT_INSTANCE') ? 'YOUTRACK_DEFAULT_INSTANCE' : `${profileKeyPath}.defaultInstance`;
+    throw new Error(`${source} "${defaultInstance}" is not a configured instance (${names.join(', ')})`);
   }
 
   return {
-    url: url.replace(/\/$/, ''), // Remove trailing slash
-    token,
-    timeout,
-    rateLimit,
-    debug
+    defaultInstance,
+    instances
+  };
+}
+
+/**
+ * Parse a port number: digits only, from 1 to 65535. `source` names where the value came from.
+ */
+function parsePort(value: string, source: string): number {
+  const port = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(port) || port < 1 || port > 65535) {
+    throw new Error(`${source} must be a port number from 1 to 65535, not "${value}"`);
+  }
+  return port;
+}
+
+/**
+ * Validates and returns the transport configuration.
+ * Command line flags (--transport, --host, --port) take precedence over
+ * MCP_TRANSPORT, MCP_HTTP_HOST and MCP_HTTP_PORT, which override the config file.
+ */
+function getTransportConfig(argv: string[], loadedProfile?: LoadedProfile): TransportConfig {
+  const fileTransport = loadedProfile?.profile.transport;
+
+  const mode = (getCliFlag(argv, 'transport') || getEnv('MCP_TRANSPORT') || fileTransport?.mode || 'stdio').toLowerCase();
+
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error('Transport must be either "stdio" or "http"');
+  }
+
+  const host = getCliFlag(argv, 'host') || getEnv('MCP_HTTP_HOST') || fileTransport?.host || '127.0.0.1';
+
+  const cliPort = getCliFlag(argv, 'port');
+  const envPort = getEnv('MCP_HTTP_PORT');
+  const port = cliPort ? parsePort(cliPort, 'The --port flag')
+    : envPort ? parsePort(envPort, 'MCP_HTTP_PORT')
+    : fileTransport?.port !== undefined ? parsePort(String(fileTransport.port), `transport.port in ${loadedProfile!.path}`)
+    : 3000;
+
+  return {
+    mode: mode as TransportMode,
+    host,
+    port
+  };
+}
+
+/**
+ * Returns the tool policy. YOUTRACK_READ_ONLY, YOUTRACK_DENIED_TOOLS and
+ * YOUTRACK_ALLOWED_PROJECTS override the profile's `policy` section.
+ */
+function getPolicyConfig(loadedProfile?: LoadedProfile): PolicyConfig {
+  const filePolicy = loadedProfile?.profile.policy;
+  const readOnlyEnv = getEnv('YOUTRACK_READ_ONLY');
+
+  return {
+    readOnly: readOnlyEnv !== undefined ? readOnlyEnv === 'true' : filePolicy?.readOnly ?? false,
+    deniedTools: getEnvList('YOUTRACK_DENIED_TOOLS') ?? filePolicy?.deniedTools,
+    allowedProjects: getEnvList('YOUTRACK_ALLOWED_PROJECTS') ?? filePolicy?.allowedProjects
+  };
+}
+
+/**
+ * Returns the fixture settings of an instance. <PREFIX>FIXTURES ("record" or
+ * "replay") and <PREFIX>FIXTURES_DIR override the instance's `fixtures`; the
+ * directory defaults to fixtures/<instance name>.
+ */
+function getFixtureConfig(envPrefix: string, fileFixtures: InstanceFileConfig['fixtures'], name: string): FixtureConfig | undefined {
+  const mode = getEnv(`${envPrefix}FIXTURES`) ?? fileFixtures?.mode;
+  if (mode === undefined) {
+    return undefined;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`${envPrefix}FIXTURES must be "record" or "replay"`);
+  }
+
+  const dir = getEnv(`${envPrefix}FIXTURES_DIR`) ?? fileFixtures?.dir ?? join('fixtures', name);
+  return { mode, dir: resolve(dir) };
+}
+
+/**
+ * Returns the audit log path. YOUTRACK_AUDIT_LOG (a path, or "false" to disable)
+ * overrides the profile's `auditLog`.
+ */
+function getAuditLogPath(loadedProfile?: LoadedProfile): string | undefined {
+  const auditLog = getEnv('YOUTRACK_AUDIT_LOG') ?? loadedProfile?.profile.auditLog ?? DEFAULT_AUDIT_LOG_PATH;
+  if (auditLog === false || auditLog === 'false') {
+    return undefined;
+  }
+  return resolve(auditLog);
+}
+
+/**
+ * Returns the logging configuration. YOUTRACK_LOG_LEVEL, YOUTRACK_LOG_FILE and
+ * YOUTRACK_LOG_BODIES override the profile's `logging` section; DEBUG=true (or
+ * the profile's `debug`) is shorthand for the debug level.
+ */
+function getLoggingConfig(loadedProfile?: LoadedProfile): LoggingConfig {
+  const profile = loadedProfile?.profile;
+
+  const debugEnv = getEnv('DEBUG');
+  const debug = debugEnv !== undefined ? debugEnv === 'true' : profile?.debug ?? false;
+
+  const level = getEnv('YOUTRACK_LOG_LEVEL') ?? profile?.logging?.level ?? (debug ? 'debug' : 'info');
+  if (!isLogLevel(level)) {
+    throw new Error(`YOUTRACK_LOG_LEVEL must be one of: ${LOG_LEVELS.join(', ')}`);
+  }
+
+  const file = getEnv('YOUTRACK_LOG_FILE') ?? profile?.logging?.file;
+  const includeBodiesEnv = getEnv('YOUTRACK_LOG_BODIES');
+
+  return {
+    level,
+    file: file ? resolve(file) : undefined,
+    includeBodies: includeBodiesEnv !== undefined ? includeBodiesEnv === 'true' : profile?.logging?.includeBodies ?? false
+  };
+}
+
+/**
+ * Returns profile settings that are not tied to a single YouTrack instance
+ */
+function getProfileSettings(loadedProfile?: LoadedProfile): ProfileSettings {
+  const profile = loadedProfile?.profile;
+
+  const timezone = getEnv('YOUTRACK_TIMEZONE') ?? profile?.timezone;
+  if (timezone && !isValidTimezone(timezone)) {
+    throw new Error(`YOUTRACK_TIMEZONE "${timezone}" is not a known timezone`);
+  }
+
+  const outputFormat = getEnv('YOUTRACK_OUTPUT_FORMAT') ?? profile?.outputFormat ?? 'markdown';
+  if (!OUTPUT_FORMATS.includes(outputFormat as OutputFormat)) {
+    throw new Error(`YOUTRACK_OUTPUT_FORMAT must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  return {
+    defaultProject: getEnv('YOUTRACK_DEFAULT_PROJECT') ?? profile?.defaultProject,
+    timezone,
+    enabledTools: getEnvList('YOUTRACK_ENABLED_TOOLS') ?? profile?.enabledTools,
+    policy: getPolicyConfig(loadedProfile),
+    auditLog: getAuditLogPath(loadedProfile),
+    schemaRefreshInterval: resolveInt('YOUTRACK_SCHEMA_REFRESH_INTERVAL', profile?.schemaRefreshInterval, DEFAULT_SCHEMA_REFRESH_INTERVAL, 0) || undefined,
+    outputFormat: outputFormat as OutputFormat,
+    maxOutputTokens: resolveInt('YOUTRACK_MAX_OUTPUT_TOKENS', profile?.maxOutputTokens, 0, 0) || undefined,
+    subscriptionPollInterval: resolveInt('YOUTRACK_SUBSCRIPTION_POLL_INTERVAL', profile?.subscriptionPollInterval, DEFAULT_SUBSCRIPTION_POLL_INTERVAL, 0) || undefined,
+    subscriptionMaxBackoff: resolveInt('YOUTRACK_SUBSCRIPTION_MAX_BACKOFF', profile?.subscriptionMaxBackoff, DEFAULT_SUBSCRIPTION_MAX_BACKOFF, 1)
+  };
+}
+
+/**
+ * Validates and returns the server configuration.
+ *
+ * Values are read from the config file (found with --config, YOUTRACK_MCP_CONFIG or
+ * the standard search path) and the selected profile (--profile or YOUTRACK_PROFILE).
+ * Environment variables override file values.
+ */
+export function getConfig(argv: string[] = process.argv.slice(2)): ServerConfig {
+  const configPath = findConfigFile(getCliFlag(argv, 'config') || getEnv('YOUTRACK_MCP_CONFIG'));
+  const loadedProfile = configPath
+    ? loadProfile(configPath, getCliFlag(argv, 'profile') || getEnv('YOUTRACK_PROFILE'))
+    : undefined;
+
+  return {
+    configFile: loadedProfile?.path,
+    profile: loadedProfile?.name,
+    youtrack: getInstancesConfig(loadedProfile),
+    transport: getTransportConfig(argv, loadedProfile),
+    settings: getProfileSettings(loadedProfile),
+    logging: getLoggingConfig(loadedProfile)
   };
 }
 
 /**
  * Logs configuration info (without sensitive data)
  */
-export function logConfigInfo(config: YouTrackConfig): void {
-  console.error('Ougha.MCP.YouTrack Configuration:');
-  console.error(`  URL: ${config.url}`);
-  console.error(`  Timeout: ${config.timeout}ms`);
-  console.error(`  Rate Limit: ${config.rateLimit} requests/minute`);
-  console.error(`  Debug: ${config.debug}`);
+export function logConfigInfo(config: ServerConfig): void {
+  const { youtrack, transport, settings, logging } = config;
+
+  log.info('Ougha.MCP.YouTrack configuration', {
+    configFile: config.configFile,
+    profile: config.profile,
+    instances: Object.entries(youtrack.instances).map(([name, instance]) => ({
+      name,
+      default: name === youtrack.defaultInstance,
+      url: instance.url,
+      timeout: instance.timeout,
+      rateLimit: instance.rateLimit, // Requests per minute
+      maxConcurrency: instance.maxConcurrency,
+      maxRetries: instance.maxRetries,
+      fixtures: instance.fixtures
+    })),
+    defaultProject: settings.defaultProject,
+    timezone: settings.timezone,
+    enabledTools: settings.enabledTools?.length,
+    readOnly: settings.policy?.readOnly || undefined,
+    deniedTools: settings.policy?.deniedTools?.length ? settings.policy.deniedTools : undefined,
+    allowedProjects: settings.policy?.allowedProjects,
+    auditLog: settings.auditLog || 'disabled',
+    outputFormat: settings.outputFormat,
+    maxOutputTokens: settings.maxOutputTokens ?? 'unlimited',
+    schemaRefreshInterval: settings.schemaRefreshInterval ?? 'disabled',
+    subscriptions: settings.subscriptionPollInterval
+      ? { pollInterval: settings.subscriptionPollInterval, maxBackoff: settings.subscriptionMaxBackoff }
+      : 'disabled',
+    logging: { level: logging.level, file: logging.file, includeBodies: logging.includeBodies || undefined },
+    transport: transport.mode === 'http' ? { mode: transport.mode, host: transport.host, port: transport.port } : { mode: transport.mode }
+  });
 }
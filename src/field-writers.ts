@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import { buildDateCustomField } from './utils.js';
+
+/**
+ * Typed writers for custom field values.
+ *
+ * YouTrack only accepts a custom field value when the payload names the issue
+ * custom field's `$type` (e.g. MultiVersionIssueCustomField) and the value has
+ * the shape of that type. Both follow from the field's `fieldType`: its value
+ * type and whether it holds several values. Writers accept the loose values
+ * tools receive (names, logins, numbers, "2h 30m") and build the payload.
+ */
+
+export interface FieldTypeInfo {
+  valueType: string;
+  isMultiValue?: boolean;
+}
+
+interface BundleFieldTypes {
+  single: string;
+  multi: string;
+  element: string;
+}
+
+/**
+ * Field types whose values are bundle elements (or groups), set by name
+ */
+const NAMED_VALUE_TYPES: Record<string, BundleFieldTypes> = {
+  enum: { single: 'SingleEnumIssueCustomField', multi: 'MultiEnumIssueCustomField', element: 'EnumBundleElement' },
+  state: { single: 'StateIssueCustomField', multi: 'StateIssueCustomField', element: 'StateBundleElement' },
+  version: { single: 'SingleVersionIssueCustomField', multi: 'MultiVersionIssueCustomField', element: 'VersionBundleElement' },
+  build: { single: 'SingleBuildIssueCustomField', multi: 'MultiBuildIssueCustomField', element: 'BuildBundleElement' },
+  ownedfield: { single: 'SingleOwnedIssueCustomField', multi: 'MultiOwnedIssueCustomField', element: 'OwnedBundleElement' },
+  group: { single: 'SingleGroupIssueCustomField', multi: 'MultiGroupIssueCustomField', element: 'UserGroup' }
+};
+
+const USER_FIELD_TYPES: BundleFieldTypes = { single: 'SingleUserIssueCustomField', multi: 'MultiUserIssueCustomField', element: 'User' };
+
+/**
+ * Database IDs, e.g. 1-15; other user references are logins
+ */
+const ENTITY_ID_PATTERN = /^\d+-\d+$/;
+
+/**
+ * A duration like "2h 30m", "1w 2d" or "45m". YouTrack's default time tracking
+ * settings are used: a day is 8 hours and a week is 5 days.
+ */
+const PERIOD_PATTERN = /^\s*(?:(\d+)\s*w)?\s*(?:(\d+)\s*d)?\s*(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*$/i;
+const MINUTES_PER_UNIT = [5 * 8 * 60, 8 * 60, 60, 1];
+
+/**
+ * Parse a period into minutes: a number of minutes or a duration like "2h 30m"
+ */
+export function parsePeriod(value: number | string): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 ? value : undefined;
+  }
+  if (/^\s*\d+\s*$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const match = PERIOD_PATTERN.exec(value);
+  if (!match || !match.slice(1).some(part => part !== undefined)) {
+    return undefined;
+  }
+  return match.slice(1).reduce((total, part, index) => total + (part ? parseInt(part, 10) * MINUTES_PER_UNIT[index] : 0), 0);
+}
+
+function invalidValue(name: string, fieldType: FieldTypeInfo, value: any, expected: string): Error {
+  return new Error(`Invalid value for ${name} (${fieldType.valueType}): ${JSON.stringify(value)}. Expected ${expected}`);
+}
+
+function isEmpty(value: any): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function writeNamedValue(value: any, elementType: string): any {
+  if (value && typeof value === 'object') {
+    return { $type: elementType, ...value };
+  }
+  return { name: String(value), $type: elementType };
+}
+
+function writeUser(value: any): any {
+  if (value && typeof value === 'object') {
+    return { $type: 'User', ...value };
+  }
+  const reference = String(value);
+  return ENTITY_ID_PATTERN.test(reference) ? { id: reference, $type: 'User' } : { login: reference, $type: 'User' };
+}
+
+/**
+ * Write a field with single or multiple entity values (bundle elements, users, groups)
+ */
+function writeEntityField(name: string, value: any, fieldType: FieldTypeInfo, types: BundleFieldTypes, write: (value: any) => any): any {
+  const multi = fieldType.isMultiValue === true && types.multi !== types.single;
+
+  if (isEmpty(value)) {
+    return { name, value: multi ? [] : null, $type: multi ? types.multi : types.single };
+  }
+  if (multi) {
+    const values = Array.isArray(value) ? value : [value];
+    return { name, value: values.map(write), $type: types.multi };
+  }
+  if (Array.isArray(value)) {
+    if (value.length > 1) {
+      throw new Error(`${name} holds a single value, got ${value.length}`);
+    }
+    value = value[0];
+  }
+  return { name, value: write(value), $type: types.single };
+}
+
+function writeNumber(name: string, value: any, fieldType: FieldTypeInfo, integer: boolean): any {
+  if (isEmpty(value)) {
+    return { name, value: null, $type: 'SimpleIssueCustomField' };
+  }
+
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  if (isNaN(number) || (integer && !Number.isInteger(number))) {
+    throw invalidValue(name, fieldType, value, integer ? 'an integer' : 'a number');
+  }
+  return { name, value: number, $type: 'SimpleIssueCustomField' };
+}
+
+function writePeriod(name: string, value: any, fieldType: FieldTypeInfo): any {
+  if (isEmpty(value)) {
+    return { name, value: null, $type: 'PeriodIssueCustomField' };
+  }
+  if (typeof value === 'object' && value.minutes !== undefined) {
+    return { name, value: { $type: 'PeriodValue', ...value }, $type: 'PeriodIssueCustomField' };
+  }
+
+  const minutes = typeof value === 'number' || typeof value === 'string' ? parsePeriod(value) : undefined;
+  if (minutes === undefined) {
+    throw invalidValue(name, fieldType, value, 'minutes or a duration like "2h 30m"');
+  }
+  return { name, value: { minutes, $type: 'PeriodValue' }, $type: 'PeriodIssueCustomField' };
+}
+
+function writeText(name: string, value: any): any {
+  if (isEmpty(value)) {
+    return { name, value: null, $type: 'TextIssueCustomField' };
+  }
+  const text = typeof value === 'object' && value.text !== undefined ? value.text : String(value);
+  return { name, value: { text, $type: 'TextFieldValue' }, $type: 'TextIssueCustomField' };
+}
+
+/**
+ * Build the custom field payload for a value, typed from the field's metadata.
+ * Returns undefined for value types without a writer.
+ */
+export function writeCustomField(name: string, value: any, fieldType: FieldTypeInfo): any | undefined {
+  const valueType = fieldType.valueType.toLowerCase();
+
+  if (NAMED_VALUE_TYPES[valueType]) {
+    return writeEntityField(name, value, fieldType, NAMED_VALUE_TYPES[valueType], value => writeNamedValue(value, NAMED_VALUE_TYPES[valueType].element));
+  }
+
+  switch (valueType) {
+    case 'user':
+      return writeEntityField(name, value, fieldType, USER_FIELD_TYPES, writeUser);
+    case 'integer':
+      return writeNumber(name, value, fieldType, true);
+    case 'float':
+      return writeNumber(name, value, fieldType, false);
+    case 'string':
+      return { name, value: isEmpty(value) ? null : String(value), $type: 'SimpleIssueCustomField' };
+    case 'text':
+      return writeText(name, value);
+    case 'period':
+      return writePeriod(name, value, fieldType);
+    case 'date':
+    case 'date and time':
+      return isEmpty(value) ? { name, value: null, $type: 'DateIssueCustomField' } : buildDateCustomField(name, value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Schema of the value a tool argument accepts for a custom field: numbers for
+ * numeric fields, minutes or a duration for periods, a list for multi-value fields
+ */
+export function fieldValueSchema(fieldType: FieldTypeInfo): z.ZodTypeAny {
+  const valueType = fieldType.valueType.toLowerCase();
+
+  if (valueType === 'integer' || valueType === 'float') {
+    return z.number();
+  }
+  if (valueType === 'period') {
+    return z.union([z.number(), z.string()]);
+  }
+  if (fieldType.isMultiValue) {
+    return z.union([z.string(), z.array(z.string())]);
+  }
+  return z.string();
+}
@@ -0,0 +1,209 @@
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createLogger } from './logger.js';
+import { FixtureConfig } from './types.js';
+
+/**
+ * Recording and replay of YouTrack responses.
+ *
+ * In record mode every response (including errors) is saved as a JSON file
+ * next to the request that produced it. In replay mode requests are answered
+ * from those files and nothing is sent, so response mapping can be exercised
+ * offline against real YouTrack data. Requests are matched by method, URL and
+ * body, ignoring attributes the client sets to the current time; a request
+ * without a fixture fails. Response headers are kept, e.g. `x-total-count`.
+ *
+ * Saved fixtures never contain the token, and personal or secret attributes
+ * (emails, passwords, tokens) as well as the instance URL are replaced.
+ */
+
+const log = createLogger('fixtures');
+
+/**
+ * Attributes whose values are replaced in recorded responses
+ */
+const SECRET_KEY_PATTERN = /token|password|secret|email/i;
+
+/**
+ * Request body attributes the client fills with the current time, such as the
+ * date of a work item; their values are left out when matching fixtures
+ */
+const VOLATILE_BODY_KEYS = new Set(['date']);
+
+/**
+ * Response headers that are not recorded: connection handling, cookies and the response time
+ */
+const UNRECORDED_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding', 'content-length', 'date', 'set-cookie']);
+
+const REDACTED = '<redacted>';
+const VOLATILE = '<volatile>';
+const URL_PLACEHOLDER = 'https://youtrack.example.com';
+
+interface Fixture {
+  request: { method: string; url: string; body?: any };
+  response: {
+    status: number;
+    statusText: string;
+    headers?: Record<string, string>; // Unset in fixtures recorded without headers
+    data: any;
+  };
+}
+
+/**
+ * The request URL relative to the API base, including its query
+ */
+function getRequestUrl(config: InternalAxiosRequestConfig): string {
+  const uri = axios.getUri({ ...config, baseURL: undefined });
+  return uri.startsWith('/') ? uri : `/${uri}`;
+}
+
+function parseBody(data: any): any {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    return data;
+  }
+}
+
+/**
+ * Replace the values of volatile body attributes, so requests made at different times match
+ */
+function normalizeBody(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalizeBody);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, VOLATILE_BODY_KEYS.has(key) ? VOLATILE : normalizeBody(item)]
+    ));
+  }
+  return value;
+}
+
+/**
+ * File name of the fixture for a request: readable method and path, then a hash of the full request
+ */
+export function getFixtureName(method: string, url: string, body: any): string {
+  const hash = createHash('sha256')
+    .update(`${method.toUpperCase()} ${url}\n${body === undefined ? '' : JSON.stringify(normalizeBody(body))}`)
+    .digest('hex')
+    .slice(0, 12);
+  const path = url.split('?')[0].replace(/^\//, '').replace(/[^\w.-]+/g, '_').slice(0, 80);
+  return `${method.toLowerCase()}_${path}_${hash}.json`;
+}
+
+/**
+ * Replace secrets, personal data and the instance URL in a recorded value
+ */
+export function scrubFixtureValue(value: any, secrets: { url: string; token: string }): any {
+  if (typeof value === 'string') {
+    return value.split(secrets.token).join(REDACTED).split(secrets.url).join(URL_PLACEHOLDER);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => scrubFixtureValue(item, secrets));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && item !== null && typeof item !== 'object' ? REDACTED : scrubFixtureValue(item, secrets)
+    ]));
+  }
+  return value;
+}
+
+/**
+ * The response headers worth replaying, scrubbed like the response data
+ */
+function recordHeaders(response: AxiosResponse, secrets: { url: string; token: string }): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(AxiosHeaders.from(response.headers as any).toJSON())) {
+    if (!UNRECORDED_HEADERS.has(name.toLowerCase()) && value !== undefined && value !== null) {
+      headers[name.toLowerCase()] = scrubFixtureValue(Array.isArray(value) ? value.join(', ') : String(value), secrets);
+    }
+  }
+  return headers;
+}
+
+/**
+ * Settle a response the way axios' own adapters do: reject statuses that fail validateStatus
+ */
+function settle(config: InternalAxiosRequestConfig, response: AxiosResponse): AxiosResponse {
+  if (!config.validateStatus || config.validateStatus(response.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    undefined,
+    response
+  );
+}
+
+/**
+ * Create an axios adapter that records responses to, or replays them from, the fixture directory
+ */
+export function createFixtureAdapter(fixtures: FixtureConfig, secrets: { url: string; token: string }): AxiosAdapter {
+  const send = axios.getAdapter(axios.defaults.adapter);
+
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const method = (config.method || 'get').toUpperCase();
+    const url = getRequestUrl(config);
+    const body = config.data === undefined ? undefined : scrubFixtureValue(parseBody(config.data), secrets);
+    const path = join(fixtures.dir, getFixtureName(method, url, body));
+
+    if (fixtures.mode === 'replay') {
+      if (!existsSync(path)) {
+        throw new AxiosError(`No recorded fixture for ${method} ${url} (${path})`, AxiosError.ERR_BAD_REQUEST, config);
+      }
+
+      const fixture: Fixture = JSON.parse(await readFile(path, 'utf-8'));
+      log.debug('Replaying fixture', { method, url, path });
+      return settle(config, {
+        data: fixture.response.data,
+        status: fixture.response.status,
+        statusText: fixture.response.statusText,
+        headers: new AxiosHeaders(fixture.response.headers ?? { 'content-type': 'application/json' }),
+        config,
+        request: {}
+      });
+    }
+
+    let response: AxiosResponse;
+    let failure: any;
+    try {
+      response = await send(config);
+    } catch (error: any) {
+      if (!error.response) {
+        // Nothing to record for network errors
+        throw error;
+      }
+      response = error.response;
+      failure = error;
+    }
+
+    const fixture: Fixture = {
+      request: { method, url, ...(body !== undefined ? { body } : {}) },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: recordHeaders(response, secrets),
+        data: scrubFixtureValue(parseBody(response.data), secrets)
+      }
+    };
+    await mkdir(fixtures.dir, { recursive: true });
+    await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8');
+    log.debug('Recorded fixture', { method, url, status: response.status, path });
+
+    if (failure) {
+      throw failure;
+    }
+    return response;
+  };
+}
@@ -0,0 +1,190 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { TransportConfig } from './types.js';
+import { createLogger } from './logger.js';
+
+/**
+ * HTTP transport for serving the MCP server to several clients at once.
+ *
+ * Endpoints:
+ *   /mcp       - Streamable HTTP (POST, GET and DELETE)
+ *   /sse       - Legacy HTTP+SSE stream for older clients (GET)
+ *   /messages  - Legacy HTTP+SSE message endpoint (POST, ?sessionId=...)
+ */
+
+const MCP_ENDPOINT = '/mcp';
+const SSE_ENDPOINT = '/sse';
+const SSE_MESSAGES_ENDPOINT = '/messages';
+
+const log = createLogger('http-server');
+
+export interface HttpServerHandle {
+  url: string; // Where the server listens; with port 0, on the port the system picked
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Send a JSON-RPC error response that is not tied to a request
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
+
+/**
+ * Start an HTTP server exposing Streamable HTTP with an SSE fallback.
+ * Every client session gets its own McpServer instance from the factory.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  config: TransportConfig
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    await session.server.close();
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    // New session: create a dedicated server and transport pair
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { transport, server });
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (res: ServerResponse): Promise<void> => {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    sessions.set(transport.sessionId, { transport, server });
+
+    res.on('close', () => {
+      void closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const session = sessions.get(sessionId);
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    let handler: Promise<void>;
+    if (url.pathname === MCP_ENDPOINT && ['POST', 'GET', 'DELETE'].includes(req.method || '')) {
+      handler = handleStreamableRequest(req, res);
+    } else if (url.pathname === SSE_ENDPOINT && req.method === 'GET') {
+      handler = handleSseStream(res);
+    } else if (url.pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+      handler = handleSseMessage(req, res, url);
+    } else {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+      return;
+    }
+
+    handler.catch((error) => {
+      log.error('Error handling MCP HTTP request', { method: req.method, path: url.pathname, error });
+      if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, -32700, 'Parse error');
+      } else {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  return {
+    url: `http://${config.host}:${port}`,
+    async close(): Promise<void> {
+      await Promise.all(Array.from(sessions.keys()).map(sessionId => closeSession(sessionId)));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+}
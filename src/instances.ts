@@ -0,0 +1,70 @@
+import { YouTrackClient } from './youtrack-client.js';
+import { CustomFieldMetadata } from './types.js';
+
+/**
+ * A configured YouTrack instance with its own client and custom field metadata
+ */
+export interface YouTrackInstance {
+  name: string;
+  client: YouTrackClient;
+  customFields: CustomFieldMetadata[];
+}
+
+/**
+ * Named YouTrack instances served by this process
+ */
+export class YouTrackInstances {
+  private instances = new Map<string, YouTrackInstance>();
+
+  constructor(readonly defaultInstance: string) {}
+
+  add(instance: YouTrackInstance): void {
+    this.instances.set(instance.name, instance);
+  }
+
+  /**
+   * Get an instance by name, falling back to the default instance
+   */
+  get(name?: string): YouTrackInstance {
+    const instanceName = name || this.defaultInstance;
+    const instance = this.instances.get(instanceName);
+
+    if (!instance) {
+      throw new Error(`Unknown YouTrack instance "${instanceName}". Available instances: ${this.names.join(', ')}`);
+    }
+
+    return instance;
+  }
+
+  get names(): string[] {
+    return Array.from(this.instances.keys());
+  }
+
+  list(): YouTrackInstance[] {
+    return Array.from(this.instances.values());
+  }
+
+  /**
+   * Custom fields of all instances, de-duplicated by field name.
+   * Used to build tool schemas that are shared across instances.
+   */
+  getAllCustomFields(): CustomFieldMetadata[] {
+    const fieldsByName = new Map<string, CustomFieldMetadata>();
+
+    for (const instance of this.instances.values()) {
+      for (const field of instance.customFields) {
+        const existing = fieldsByName.get(field.name);
+        if (!existing) {
+          fieldsByName.set(field.name, field);
+        } else {
+          fieldsByName.set(field.name, {
+            ...existing,
+            instances: [...(existing.instances || []), ...(field.instances || [])]
+          });
+        }
+      }
+    }
+
+    return Array.from(fieldsByName.values());
+  }
+}
@@ -0,0 +1,43 @@
+import { IssueSection } from './types.js';
+
+/**
+ * Projections of issue reads.
+ *
+ * Callers pick the parts of an issue they need (`include`), and only those are
+ * requested from YouTrack. Every projection has the issue's ID, summary,
+ * project, people and dates. Without `customFields`, only the fields that
+ * issue summaries show are fetched, using YouTrack's `customFields` parameter.
+ */
+
+export const ISSUE_SECTIONS: readonly IssueSection[] = ['description', 'customFields', 'tags', 'comments', 'links', 'attachments', 'timeTracking'];
+
+const BASE_FIELDS = 'id,idReadable,summary,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject';
+
+/**
+ * Custom fields with every kind of value: bundle elements, users, periods and text
+ */
+export const CUSTOM_FIELDS = 'customFields(id,name,value(id,name,login,fullName,isResolved,localizedName,color(id),minutes,presentation,text),projectCustomField(field(name,fieldType(valueType))))';
+
+const SECTION_FIELDS: Record<IssueSection, string> = {
+  description: 'description',
+  customFields: CUSTOM_FIELDS,
+  tags: 'tags(name)',
+  comments: 'comments(id,text,author(id,login,fullName),created,updated,deleted)',
+  links: 'links(id,direction,linkType(id,name,sourceToTarget,targetToSource,directed),issues(id,idReadable,summary))',
+  attachments: 'attachments(id,name,size,mimeType,url,created,author(id,login,fullName))',
+  timeTracking: 'timeTracking(workItems(id,date,duration(minutes,presentation),author(id,login,fullName),description,type(id,name)))'
+};
+
+/**
+ * Logical names of the custom fields fetched when `customFields` is not included
+ */
+export const SUMMARY_FIELD_NAMES = ['State', 'Assignee', 'Priority', 'Story Points'];
+
+/**
+ * The `fields` parameter of a projection. Custom fields are always requested;
+ * restrict them with `customFields` parameters unless the projection includes them.
+ */
+export function buildIssueFields(include: readonly IssueSection[]): string {
+  const sections = ISSUE_SECTIONS.filter(section => section !== 'customFields' && include.includes(section));
+  return [BASE_FIELDS, CUSTOM_FIELDS, ...sections.map(section => SECTION_FIELDS[section])].join(',');
+}
@@ -0,0 +1,196 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { LoggingConfig, LogLevel } from './types.js';
+import { redactSecrets } from './utils.js';
+
+/**
+ * Leveled, structured logging.
+ *
+ * Log entries never go to stdout, which carries the MCP stream in stdio mode.
+ * They are written to stderr (or a JSONL file) at the configured level and
+ * forwarded to MCP clients as `notifications/message` at the level each client
+ * sets with `logging/setLevel`. Entries logged during a tool call only go to the
+ * client that made the call; other entries go to every connected client.
+ */
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+/**
+ * Data keys holding request or response bodies, omitted unless `includeBodies` is set
+ */
+const BODY_KEYS = new Set(['body', 'response']);
+
+/**
+ * Level of MCP notifications until the client sets one
+ */
+const DEFAULT_CLIENT_LEVEL: LogLevel = 'warning';
+
+export interface LogEntry {
+  timestamp: string; // ISO 8601
+  level: LogLevel;
+  logger: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Receives log entries for one MCP client session
+ */
+export interface LogSink {
+  level: LogLevel;
+  write(entry: LogEntry): void;
+}
+
+let loggingConfig: LoggingConfig = { level: 'info', includeBodies: false };
+const sinks = new Set<LogSink>();
+const currentSink = new AsyncLocalStorage<LogSink>();
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function isEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Set the level, destination and body policy of the local log
+ */
+export function configureLogging(config: LoggingConfig): void {
+  loggingConfig = config;
+  if (config.file) {
+    mkdirSync(dirname(config.file), { recursive: true });
+  }
+}
+
+/**
+ * Make log data safe to write: errors become plain objects, secrets are always
+ * redacted, and bodies are omitted unless the policy includes them
+ */
+function sanitize(data: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (BODY_KEYS.has(key) && !loggingConfig.includeBodies) {
+      result[key] = '[omitted]';
+    } else if (value instanceof Error) {
+      const status = (value as any).response?.status;
+      result[key] = { name: value.name, message: value.message, ...(status !== undefined ? { status } : {}) };
+    } else {
+      result[key] = value;
+    }
+  }
+
+  // Redact the whole object, so top-level keys like `token` are caught too
+  return redactSecrets(result);
+}
+
+function writeLocal(entry: LogEntry): void {
+  if (loggingConfig.file) {
+    try {
+      appendFileSync(loggingConfig.file, JSON.stringify(entry) + '\n', 'utf-8');
+      return;
+    } catch (error) {
+      // Fall back to stderr when the log file cannot be written
+    }
+  }
+
+  const data = entry.data ? ` ${JSON.stringify(entry.data)}` : '';
+  process.stderr.write(`${entry.timestamp} ${entry.level.toUpperCase()} [${entry.logger}] ${entry.message}${data}\n`);
+}
+
+export class Logger {
+  constructor(private readonly name: string) {}
+
+  debug(message: string, data?: Record<string, any>): void {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: Record<string, any>): void {
+    this.log('info', message, data);
+  }
+
+  warning(message: string, data?: Record<string, any>): void {
+    this.log('warning', message, data);
+  }
+
+  error(message: string, data?: Record<string, any>): void {
+    this.log('error', message, data);
+  }
+
+  log(level: LogLevel, message: string, data?: Record<string, any>): void {
+    const sessionSink = currentSink.getStore();
+    const targets = sessionSink ? [sessionSink] : [...sinks];
+    const local = isEnabled(level, loggingConfig.level);
+    const remote = targets.filter(sink => isEnabled(level, sink.level));
+
+    if (!local && remote.length === 0) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      logger: this.name,
+      message,
+      data: data ? sanitize(data) : undefined
+    };
+
+    if (local) {
+      writeLocal(entry);
+    }
+    for (const sink of remote) {
+      sink.write(entry);
+    }
+  }
+}
+
+export function createLogger(name: string): Logger {
+  return new Logger(name);
+}
+
+/**
+ * Forward log entries to the client of an MCP server, at the level the client
+ * sets with `logging/setLevel`. The server must declare the logging capability.
+ */
+export function connectMcpLogging(server: McpServer): LogSink {
+  const sink: LogSink = {
+    level: DEFAULT_CLIENT_LEVEL,
+    write: (entry) => {
+      server.server.sendLoggingMessage({
+        level: entry.level,
+        logger: entry.logger,
+        data: entry.data ? { message: entry.message, ...entry.data } : entry.message
+      }).catch(() => {
+        // The client disconnected; the sink is removed when the server closes
+      });
+    }
+  };
+
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    sink.level = request.params.level;
+    return {};
+  });
+
+  sinks.add(sink);
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    sinks.delete(sink);
+    previousOnClose?.();
+  };
+
+  return sink;
+}
+
+/**
+ * Run a tool call so that the entries it logs only go to its own client
+ */
+export function runWithLogSink<T>(sink: LogSink, fn: () => T): T {
+  return currentSink.run(sink, fn);
+}
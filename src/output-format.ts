@@ -0,0 +1,44 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { OutputFormat } from './types.js';
+
+/**
+ * Formats of the text part of tool results.
+ *
+ * Tools return markdown for people next to `structuredContent` for programs.
+ * The text can instead be compact (markdown without decoration, for fewer
+ * tokens) or the structured content as JSON, for clients that only read text.
+ */
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['markdown', 'compact', 'json'];
+
+/**
+ * Strip markdown decoration: bold and italic markers, emoji, separators and blank lines
+ */
+export function compactText(text: string): string {
+  return text
+    .replace(/\*\*([^*]*)\*\*/g, '$1')
+    .replace(/(^|\s)_([^_\n]+)_(?=\s|$)/g, '$1$2')
+    .replace(/[\p{Extended_Pictographic}\u{FE0F}]\s?/gu, '')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(line => line.trim() !== '' && line.trim() !== '---')
+    .join('\n');
+}
+
+/**
+ * Rewrite the text of a tool result in the given format. Error results keep their message.
+ */
+export function formatToolResult(result: CallToolResult, format: OutputFormat): CallToolResult {
+  if (format === 'markdown' || result.isError) {
+    return result;
+  }
+
+  if (format === 'json' && result.structuredContent) {
+    return { ...result, content: [{ type: "text" as const, text: JSON.stringify(result.structuredContent) }] };
+  }
+
+  return {
+    ...result,
+    content: result.content.map(item => item.type === 'text' ? { ...item, text: compactText(item.text) } : item)
+  };
+}
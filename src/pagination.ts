@@ -0,0 +1,84 @@
+import { SearchIssuesRequest, YouTrackSearchResult } from './types.js';
+
+/**
+ * Paging through YouTrack lists.
+ *
+ * YouTrack pages with $skip and $top. `paginate` turns that into an async
+ * iterator that fetches page after page until the last one. Search
+ * tools hand agents a cursor instead of a skip count: it carries the search,
+ * the position and the last issue returned, so the next page runs the same
+ * search and can tell when issues moved between pages.
+ */
+
+/**
+ * Issues fetched per request when iterating over all results
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+export interface IssueCursor {
+  request: Omit<SearchIssuesRequest, 'limit' | 'skip' | 'include'>; // The search being paged through
+  skip: number; // Position of the next page
+  lastId?: string; // Readable ID of the last issue of the previous page
+}
+
+/**
+ * Encode a cursor as an opaque token
+ */
+export function encodeCursor(cursor: IssueCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a token made by encodeCursor
+ */
+export function decodeCursor(token: string): IssueCursor {
+  let cursor: any;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+  } catch (error) {
+    throw new Error('Invalid cursor. Pass the cursor of the previous page unchanged, or search again without one');
+  }
+
+  if (!cursor || typeof cursor !== 'object' || typeof cursor.request !== 'object' || !Number.isInteger(cursor.skip) || cursor.skip < 0) {
+    throw new Error('Invalid cursor. Pass the cursor of the previous page unchanged, or search again without one');
+  }
+  return cursor;
+}
+
+/**
+ * Iterate over all items of a paged list. `fetchPage` gets the number of items
+ * to skip and the page size; iteration ends after a page that says there are
+ * no more items, or that has fewer items than requested.
+ */
+export async function* paginate<T>(
+  fetchPage: (skip: number, top: number) => Promise<YouTrackSearchResult<T>>,
+  pageSize = DEFAULT_PAGE_SIZE
+): AsyncGenerator<T> {
+  for (let skip = 0; ; skip += pageSize) {
+    const page = await fetchPage(skip, pageSize);
+    yield* page.items;
+
+    if (page.hasMore === false || page.items.length < pageSize) {
+      return;
+    }
+  }
+}
+
+/**
+ * Cut a page of search results to its first `count` items. The next cursor then
+ * continues with the first item left out.
+ */
+export function truncatePage<T extends { idReadable: string }>(page: YouTrackSearchResult<T>, count: number): YouTrackSearchResult<T> {
+  if (count >= page.items.length || !page.cursor) {
+    return page;
+  }
+
+  const cursor = decodeCursor(page.cursor);
+  const items = page.items.slice(0, count);
+  return {
+    ...page,
+    items,
+    hasMore: true,
+    nextCursor: encodeCursor({ request: cursor.request, skip: cursor.skip + count, lastId: items[count - 1]?.idReadable })
+  };
+}
@@ -0,0 +1,119 @@
+import { YouTrackClient } from './youtrack-client.js';
+import { PolicyConfig } from './types.js';
+
+/**
+ * Allow/deny policy for MCP tools.
+ *
+ * The profile's enabled tools, read-only mode and the deny list remove tools
+ * before registration. The project allowlist is checked on every call of a
+ * mutating tool, against the project of each target issue, before the tool
+ * reaches YouTrackClient.
+ */
+
+/**
+ * Issues and projects a mutating tool call changes
+ */
+export interface MutationTarget {
+  issueIds?: Array<string | undefined>;
+  projects?: Array<string | undefined>;
+}
+
+/**
+ * The parts of a tool definition the policy looks at
+ */
+export interface PolicyToolInfo {
+  name: string;
+  mutation?: (params: any) => MutationTarget;
+}
+
+export class ToolPolicy {
+  private readonly allowedProjects?: Set<string>;
+
+  constructor(private readonly config: PolicyConfig = {}, private readonly enabledTools?: string[]) {
+    if (config.allowedProjects) {
+      this.allowedProjects = new Set(config.allowedProjects.map(project => project.toUpperCase()));
+    }
+  }
+
+  /**
+   * Remove tools that are not enabled, are denied by name, or are mutating in
+   * read-only mode. Unknown tool names are rejected to catch typos.
+   */
+  filterTools<T extends PolicyToolInfo>(definitions: T[]): T[] {
+    const knownNames = new Set(definitions.map(definition => definition.name));
+    const checkNames = (names: string[] | undefined, setting: string) => {
+      const unknownNames = (names || []).filter(name => !knownNames.has(name));
+      if (unknownNames.length > 0) {
+        throw new Error(`Unknown tool name(s) in ${setting}: ${unknownNames.join(', ')}`);
+      }
+    };
+    checkNames(this.enabledTools, 'enabledTools');
+    checkNames(this.config.deniedTools, 'deniedTools');
+
+    const enabledTools = this.enabledTools && new Set(this.enabledTools);
+    const deniedTools = new Set(this.config.deniedTools || []);
+
+    return definitions.filter(definition => {
+      if (enabledTools && !enabledTools.has(definition.name)) {
+        return false;
+      }
+      if (deniedTools.has(definition.name)) {
+        return false;
+      }
+      return !(this.config.readOnly && definition.mutation);
+    });
+  }
+
+  /**
+   * Check a mutating tool call against read-only mode and the project allowlist.
+   * Returns the reason for refusing the call, or null when it is allowed.
+   */
+  async checkMutation(tool: PolicyToolInfo, params: any, client: YouTrackClient): Promise<string | null> {
+    if (!tool.mutation) {
+      return null;
+    }
+    // Read-only mode hides mutating tools; refuse them too should one be registered anyway
+    if (this.config.readOnly) {
+      return `Tool "${tool.name}" changes YouTrack data and the server is read-only`;
+    }
+    if (!this.allowedProjects) {
+      return null;
+    }
+
+    const target = tool.mutation(params);
+    const allowedList = [...this.allowedProjects].join(', ');
+
+    for (const projectId of target.projects || []) {
+      if (!projectId) continue;
+
+      const shortName = await this.resolveProjectShortName(projectId, client);
+      if (!this.allowedProjects.has(shortName.toUpperCase())) {
+        return `Tool "${tool.name}" may not modify project ${shortName}. Mutations are limited to: ${allowedList}`;
+      }
+    }
+
+    for (const issueId of target.issueIds || []) {
+      if (!issueId) continue;
+
+      const issue = await client.getIssue(issueId);
+      const shortName = issue.project?.shortName || '';
+      if (!this.allowedProjects.has(shortName.toUpperCase())) {
+        return `Tool "${tool.name}" may not modify issue ${issueId} in project ${shortName || 'unknown'}. Mutations are limited to: ${allowedList}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Projects are identified the way tools resolve them: by ID (e.g. "0-1"),
+   * short name or name, see YouTrackClient.resolveProjectId
+   */
+  private async resolveProjectShortName(projectId: string, client: YouTrackClient): Promise<string> {
+    if (this.allowedProjects?.has(projectId.toUpperCase())) {
+      return projectId;
+    }
+    const project = await client.getProject(await client.resolveProjectId(projectId));
+    return project.shortName;
+  }
+}
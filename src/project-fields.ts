@@ -0,0 +1,175 @@
+import { CustomFieldMetadata } from './types.js';
+
+/**
+ * Per-project view of custom field metadata.
+ *
+ * Tool schemas merge the custom fields of all projects, so they cannot say
+ * which fields and values a given project accepts. The metadata does: each
+ * field lists the projects it is attached to, with the project's bundle and
+ * whether the field may be empty. Values are checked against it before
+ * issues are created or updated.
+ */
+
+/**
+ * Value types whose values come from a bundle of named values
+ */
+const BUNDLE_VALUE_TYPES = new Set(['enum', 'state', 'version', 'build', 'ownedfield']);
+
+/**
+ * Readable issue IDs, e.g. PROJ-15
+ */
+const READABLE_ISSUE_ID_PATTERN = /^([A-Za-z][\w]*)-\d+$/;
+
+export interface ProjectField {
+  name: string;
+  valueType: string;
+  canBeEmpty: boolean;
+  required: boolean; // Cannot be empty and has no default value, so new issues must set it
+  defaultValues: string[];
+  values?: string[]; // Allowed values, for bundle fields
+}
+
+/**
+ * The custom fields attached to a project, matched by short name (case-insensitive),
+ * ID or name. Returns undefined when the metadata has no fields for the project.
+ */
+export function getProjectFields(customFields: CustomFieldMetadata[], project: string): ProjectField[] | undefined {
+  const key = project.toLowerCase();
+  const fields: ProjectField[] = [];
+
+  for (const field of customFields) {
+    const instance = field.instances?.find(instance =>
+      instance.project?.shortName.toLowerCase() === key || instance.project?.id === project || instance.project?.name === project
+    );
+    if (!instance) {
+      continue;
+    }
+
+    const valueType = field.fieldType.valueType.toLowerCase();
+    const defaultValues = (instance.defaultValues || []).map(value => value.name).filter(Boolean);
+    const bundleValues = instance.bundle?.values || field.defaultBundle?.values;
+
+    fields.push({
+      name: field.name,
+      valueType,
+      canBeEmpty: instance.canBeEmpty !== false,
+      required: instance.canBeEmpty === false && defaultValues.length === 0,
+      defaultValues,
+      values: BUNDLE_VALUE_TYPES.has(valueType) && bundleValues
+        ? bundleValues.filter(value => !value.archived).map(value => value.name)
+        : undefined
+    });
+  }
+
+  return fields.length > 0 ? fields : undefined;
+}
+
+/**
+ * Allowed values of a bundle field, in one project or, without a project, across
+ * all projects the field is attached to. Archived values are left out.
+ */
+export function getFieldValues(customFields: CustomFieldMetadata[], fieldName: string, project?: string): string[] {
+  if (project) {
+    return getProjectFields(customFields, project)?.find(field => field.name === fieldName)?.values ?? [];
+  }
+
+  const field = customFields.find(candidate => candidate.name === fieldName);
+  if (!field || !BUNDLE_VALUE_TYPES.has(field.fieldType.valueType.toLowerCase())) {
+    return [];
+  }
+
+  const bundles = [...(field.instances || []).map(instance => instance.bundle), field.defaultBundle];
+  const values = bundles.flatMap(bundle => bundle?.values || []).filter(value => !value.archived).map(value => value.name);
+  return [...new Set(values)];
+}
+
+/**
+ * The project short name of a readable issue ID, e.g. PROJ for PROJ-15.
+ * Database IDs (e.g. 2-15) don't name their project.
+ */
+export function getProjectOfIssueId(issueId: string): string | undefined {
+  return READABLE_ISSUE_ID_PATTERN.exec(issueId)?.[1];
+}
+
+/**
+ * Names of the bundle values in a custom field value: a name, a { name } object or a list of either
+ */
+function getValueNames(value: any): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(getValueNames);
+  }
+  if (value && typeof value === 'object') {
+    return typeof value.name === 'string' ? [value.name] : [];
+  }
+  return typeof value === 'string' ? [value] : [];
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Check custom field values (keyed by field name) against the fields of a project.
+ * New issues must also set every required field. Fields that are not in the
+ * metadata at all are left to YouTrack, as are projects without metadata.
+ * Returns a description of every problem found.
+ */
+export function validateProjectFieldValues(
+  customFields: CustomFieldMetadata[],
+  project: string,
+  values: Record<string, any>,
+  options: { creating: boolean }
+): string[] {
+  const projectFields = getProjectFields(customFields, project);
+  if (!projectFields) {
+    return [];
+  }
+
+  const fieldsByName = new Map(projectFields.map(field => [field.name, field]));
+  const knownFields = new Set(customFields.map(field => field.name));
+  const problems: string[] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    const field = fieldsByName.get(name);
+
+    if (!field) {
+      if (knownFields.has(name)) {
+        problems.push(`${name} is not used in project ${project}. Fields of ${project}: ${projectFields.map(f => f.name).join(', ')}`);
+      }
+      continue;
+    }
+
+    if (isEmptyValue(value)) {
+      if (!field.canBeEmpty) {
+        problems.push(`${name} cannot be empty in project ${project}`);
+      }
+      continue;
+    }
+
+    if (field.values) {
+      const invalid = getValueNames(value).filter(valueName => !field.values!.includes(valueName));
+      if (invalid.length > 0) {
+        problems.push(`${invalid.map(valueName => `"${valueName}"`).join(', ')} is not a value of ${name} in project ${project}. ` +
+          `Allowed values: ${field.values.join(', ') || 'none'}`);
+      }
+    }
+  }
+
+  if (options.creating) {
+    for (const field of projectFields) {
+      if (field.required && !(field.name in values)) {
+        problems.push(`${field.name} is required in project ${project}` +
+          (field.values ? `. Allowed values: ${field.values.join(', ') || 'none'}` : ''));
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Format validation problems as a tool error message
+ */
+export function formatFieldProblems(problems: string[]): string {
+  return `Invalid custom field values:\n${problems.map(problem => `- ${problem}`).join('\n')}`;
+}
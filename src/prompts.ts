@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { GetPromptResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { runWithCallControl } from './call-control.js';
+import { LogSink, runWithLogSink } from './logger.js';
+import { ToolRuntime } from './tools/registry.js';
+import { describeProjectFields } from './tools/project-tools.js';
+import { truncateText } from './tools/budget.js';
+import { YouTrackClient } from './youtrack-client.js';
+import { CustomFieldMetadata, ProfileSettings, YouTrackIssue } from './types.js';
+import { createDateRangeQuery, formatCustomFieldValue, formatDateForTimezone, queryFieldName } from './utils.js';
+
+/**
+ * MCP prompts for recurring workflows.
+ *
+ * Each prompt fetches its context from the default instance when the client
+ * requests it, e.g. the current user's issues for a standup, and returns one
+ * user message with the instructions and that context. The model then works
+ * with the regular tools.
+ */
+
+const DEFAULT_STANDUP_DAYS = 1;
+const DEFAULT_IN_PROGRESS_STATE = 'In Progress';
+const DEFAULT_TRIAGE_LIMIT = 20;
+
+/**
+ * Issues fetched per search of a prompt
+ */
+const CONTEXT_ISSUE_LIMIT = 50;
+const BACKLOG_ISSUE_LIMIT = 100;
+
+/**
+ * Longest description shown for a bug to triage
+ */
+const TRIAGE_DESCRIPTION_LENGTH = 300;
+
+const wholeNumber = z.string().regex(/^\d+$/, 'Must be a whole number');
+
+type Extra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+function fieldCondition(name: string, value: string): string {
+  return `${queryFieldName(name)}: {${value}}`;
+}
+
+/**
+ * One line per issue with the given custom fields and the update date
+ */
+function formatIssueLines(issues: YouTrackIssue[], fieldNames: string[], settings: ProfileSettings): string {
+  if (issues.length === 0) {
+    return '(none)';
+  }
+
+  return issues.map(issue => {
+    const fields = fieldNames
+      .map(name => issue.customFields?.find(field => field.name === name))
+      .filter(field => field !== undefined)
+      .map(field => `${field.name}: ${formatCustomFieldValue(field)}`);
+    fields.push(`Updated: ${formatDateForTimezone(issue.updated, settings.timezone, 'locale')}`);
+    return `- ${issue.idReadable} - ${issue.summary} (${fields.join(', ')})`;
+  }).join('\n');
+}
+
+function toPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }]
+  };
+}
+
+async function dailyStandup(
+  client: YouTrackClient,
+  settings: ProfileSettings,
+  args: { user?: string; project?: string; days?: string; inProgressState?: string }
+): Promise<GetPromptResult> {
+  const currentUser = args.user ? undefined : await client.getCurrentUser();
+  const login = args.user || currentUser!.login;
+  const name = currentUser ? currentUser.fullName || currentUser.login : login;
+  const days = args.days ? parseInt(args.days, 10) : DEFAULT_STANDUP_DAYS;
+  const inProgressState = args.inProgressState || DEFAULT_IN_PROGRESS_STATE;
+  const scope = `${fieldCondition(client.getFieldName('Assignee'), login)}${args.project ? ` project: ${args.project}` : ''}`;
+  const fieldNames = [client.getFieldName('State'), client.getFieldName('Priority')];
+
+  const [updated, inProgress] = await Promise.all([
+    client.searchIssues({ query: `${scope} ${createDateRangeQuery(days)} sort by: updated desc`, limit: CONTEXT_ISSUE_LIMIT }),
+    client.searchIssues({ query: `${scope} ${fieldCondition(client.getFieldName('State'), inProgressState)}`, limit: CONTEXT_ISSUE_LIMIT })
+  ]);
+
+  return toPrompt(
+    `Daily standup for ${name}`,
+    `Write a daily standup update for ${name} covering the last ${days} day(s), in three short parts: ` +
+    `what was done, what comes next, and blockers. Base it on the issues below; call get-issue for the ` +
+    `comments and history of an issue when the summary is not enough. Do not change any issues.\n\n` +
+    `**Issues updated in the last ${days} day(s)** (${updated.items.length}):\n${formatIssueLines(updated.items, fieldNames, settings)}\n\n` +
+    `**Issues in ${inProgressState}** (${inProgress.items.length}):\n${formatIssueLines(inProgress.items, fieldNames, settings)}`
+  );
+}
+
+async function triageBugs(
+  client: YouTrackClient,
+  settings: ProfileSettings,
+  args: { project: string; limit?: string }
+): Promise<GetPromptResult> {
+  const limit = args.limit ? parseInt(args.limit, 10) : DEFAULT_TRIAGE_LIMIT;
+  const result = await client.searchIssues({
+    query: `project: ${args.project} ${fieldCondition(client.getFieldName('Type'), 'Bug')} ${queryFieldName(client.getFieldName('Assignee'))}: Unassigned #Unresolved sort by: created desc`,
+    limit,
+    include: ['description', 'customFields']
+  });
+  const fieldNames = [client.getFieldName('State'), client.getFieldName('Priority')];
+
+  const bugs = result.items.map(issue =>
+    formatIssueLines([issue], fieldNames, settings) +
+    (issue.description ? `\n  ${truncateText(issue.description.replace(/\s+/g, ' '), TRIAGE_DESCRIPTION_LENGTH)}` : '')
+  );
+
+  return toPrompt(
+    `Triage unassigned bugs in ${args.project}`,
+    `Triage the unassigned, unresolved bugs in project ${args.project}. For each bug, suggest a priority and an assignee ` +
+    `(use list-users or search-users-by-name to find people), say whether it looks like a duplicate of another bug ` +
+    `(search-issues) or needs more information from the reporter, and explain why in one sentence. ` +
+    `Present the suggestions as a table first; apply them with update-issue only after I confirm.\n\n` +
+    `**Unassigned bugs** (${result.items.length}${result.hasMore ? `, newest ${limit} shown` : ''}):\n` +
+    (bugs.length > 0 ? bugs.join('\n') : '(none)')
+  );
+}
+
+async function sprintPlanning(
+  client: YouTrackClient,
+  settings: ProfileSettings,
+  args: { project: string; capacity?: string }
+): Promise<GetPromptResult> {
+  const storyPointsField = client.getFieldName('Story Points');
+  const result = await client.searchIssues({
+    query: `project: ${args.project} #Unresolved sort by: ${queryFieldName(client.getFieldName('Priority'))}`,
+    limit: BACKLOG_ISSUE_LIMIT
+  });
+
+  const storyPoints = (issue: YouTrackIssue): number | undefined => {
+    const value = issue.customFields?.find(field => field.name === storyPointsField)?.value;
+    return typeof value === 'number' ? value : undefined;
+  };
+  const estimated = result.items.filter(issue => storyPoints(issue) !== undefined);
+  const totalPoints = estimated.reduce((sum, issue) => sum + storyPoints(issue)!, 0);
+  const fieldNames = [storyPointsField, client.getFieldName('Priority'), client.getFieldName('State'), client.getFieldName('Assignee')];
+
+  return toPrompt(
+    `Sprint planning for ${args.project}`,
+    `Plan the next sprint for project ${args.project}` +
+    (args.capacity ? ` with a capacity of ${args.capacity} story points` : '') + `. ` +
+    `Propose the issues to take in, highest priority first${args.capacity ? ', without exceeding the capacity' : ''}, ` +
+    `and keep dependencies together (get-issue-links shows them). List the issues without story points that should be ` +
+    `estimated before the sprint starts. Set story points with set-story-points only after I confirm the estimates.\n\n` +
+    `**Backlog** (${result.items.length}${result.hasMore ? `, first ${BACKLOG_ISSUE_LIMIT} shown` : ''} unresolved issues, ` +
+    `${estimated.length} estimated with ${totalPoints} ${storyPointsField} in total, ${result.items.length - estimated.length} without an estimate):\n` +
+    formatIssueLines(result.items, fieldNames, settings)
+  );
+}
+
+async function writeBugReport(
+  client: YouTrackClient,
+  customFields: CustomFieldMetadata[],
+  args: { project: string; summary?: string }
+): Promise<GetPromptResult> {
+  const fields = await describeProjectFields(customFields, { project: args.project });
+  if (fields.isError) {
+    throw new Error(fields.content[0].text);
+  }
+  const currentUser = await client.getCurrentUser();
+
+  return toPrompt(
+    `Write a bug report for ${args.project}`,
+    `Help me, ${currentUser.fullName || currentUser.login}, file a bug report in project ${args.project}` +
+    (args.summary ? ` about: ${args.summary}` : '') + `.\n\n` +
+    `1. Ask me for whatever is missing: steps to reproduce, expected and actual behaviour, environment and version, ` +
+    `and how often it happens. Search for existing reports first with search-issues and tell me about likely duplicates.\n` +
+    `2. Draft a short, specific summary and a description with the sections Steps to reproduce, Expected, Actual and Environment.\n` +
+    `3. Fill in every required field below, using only the listed values, and set ${client.getFieldName('Type')} to Bug.\n` +
+    `4. Show me the draft with create-issue and dryRun: true, and create the issue only after I confirm.\n\n` +
+    fields.content[0].text
+  );
+}
+
+/**
+ * Register the workflow prompts on an MCP server. Context is fetched with the
+ * server's log sink and aborted when the client cancels the request.
+ */
+export function registerPrompts(server: McpServer, runtime: ToolRuntime, logSink: LogSink): void {
+  const { instances, settings } = runtime;
+  const run = (extra: Extra, fn: () => Promise<GetPromptResult>): Promise<GetPromptResult> =>
+    runWithLogSink(logSink, () => runWithCallControl({ signal: extra.signal }, fn));
+
+  // A project argument falls back to the profile's default project, as for tools
+  const projectArg = settings.defaultProject
+    ? z.string().optional().describe(`Project short name (default: ${settings.defaultProject})`)
+    : z.string().describe('Project short name');
+  const withProject = <T extends { project?: string }>(args: T) => ({ ...args, project: args.project || settings.defaultProject! });
+
+  server.registerPrompt(
+    'daily-standup',
+    {
+      title: 'Daily standup',
+      description: 'Write a standup update from your recently updated and in-progress issues',
+      argsSchema: {
+        user: z.string().optional().describe('Login of the user to report on (default: you)'),
+        project: z.string().optional().describe('Limit to one project (short name)'),
+        days: wholeNumber.optional().describe(`Days to look back (default: ${DEFAULT_STANDUP_DAYS})`),
+        inProgressState: z.string().optional().describe(`State of issues being worked on (default: ${DEFAULT_IN_PROGRESS_STATE})`)
+      }
+    },
+    (args, extra) => run(extra, () => dailyStandup(instances.get().client, settings, args))
+  );
+
+  server.registerPrompt(
+    'triage-bugs',
+    {
+      title: 'Triage bugs',
+      description: 'Suggest priorities and assignees for the unassigned bugs of a project',
+      argsSchema: {
+        project: projectArg,
+        limit: wholeNumber.optional().describe(`Bugs to triage, newest first (default: ${DEFAULT_TRIAGE_LIMIT})`)
+      }
+    },
+    (args, extra) => run(extra, () => triageBugs(instances.get().client, settings, withProject(args)))
+  );
+
+  server.registerPrompt(
+    'sprint-planning',
+    {
+      title: 'Sprint planning',
+      description: 'Propose the next sprint from a project backlog and its story points',
+      argsSchema: {
+        project: projectArg,
+        capacity: wholeNumber.optional().describe('Story points the team can complete in the sprint')
+      }
+    },
+    (args, extra) => run(extra, () => sprintPlanning(instances.get().client, settings, withProject(args)))
+  );
+
+  server.registerPrompt(
+    'write-bug-report',
+    {
+      title: 'Write a bug report',
+      description: "Write a bug report step by step, with the project's required fields",
+      argsSchema: {
+        project: projectArg,
+        summary: z.string().optional().describe('What went wrong, in a few words')
+      }
+    },
+    (args, extra) => run(extra, () => {
+      const instance = instances.get();
+      return writeBugReport(instance.client, instance.customFields, withProject(args));
+    })
+  );
+}
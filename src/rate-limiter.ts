@@ -0,0 +1,188 @@
+import { RateLimitInfo } from './types.js';
+
+/**
+ * Client-side rate limiting and retry rules for YouTrack requests.
+ *
+ * YouTrack doesn't send rate limit headers, so requests are paced by a token
+ * bucket that refills at the configured requests per minute, and at most
+ * `maxConcurrency` requests are in flight at once. A 429 response pauses the
+ * bucket until its Retry-After has passed.
+ */
+
+/**
+ * Statuses worth retrying: rate limited, or a gateway/server that is temporarily unavailable
+ */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Network errors raised before the request reached YouTrack, so it was never processed
+ */
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH']);
+
+/**
+ * Network errors raised after the request was sent, so YouTrack may have processed it
+ */
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE']);
+
+/**
+ * Database IDs (e.g. 2-15) and readable issue IDs (e.g. PROJ-15)
+ */
+const ENTITY_ID_PATTERN = /^(\d+-\d+|[A-Za-z][\w]*-\d+)$/;
+
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Longest Retry-After the client waits for; longer waits fail the request instead
+ */
+export const MAX_RETRY_AFTER_MS = 60000;
+
+export class RequestLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly requestsPerMinute: number, private readonly maxConcurrency: number) {
+    this.tokens = requestsPerMinute;
+  }
+
+  /**
+   * Run a request once a token and a concurrency slot are available
+   */
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await new Promise<void>(resolve => {
+      this.waiting.push(resolve);
+      this.dispatch();
+    });
+
+    try {
+      return await fn();
+    } finally {
+      this.active--;
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Hold back all requests for the given time, e.g. after a 429 response
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  getInfo(): RateLimitInfo {
+    this.refill();
+    const msUntilFull = (this.requestsPerMinute - this.tokens) / this.refillRatePerMs;
+    return {
+      remaining: Math.floor(this.tokens),
+      resetTime: Math.max(Date.now() + msUntilFull, this.pausedUntil),
+      limit: this.requestsPerMinute
+    };
+  }
+
+  private get refillRatePerMs(): number {
+    return this.requestsPerMinute / 60000;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.requestsPerMinute, this.tokens + (now - this.lastRefill) * this.refillRatePerMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Start waiting requests while tokens and slots allow, otherwise wake up when the next token is due
+   */
+  private dispatch(): void {
+    if (this.timer) {
+      return;
+    }
+
+    while (this.waiting.length > 0 && this.active < this.maxConcurrency) {
+      this.refill();
+      const now = Date.now();
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillRatePerMs)
+      );
+
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.dispatch();
+        }, wait);
+        return;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+}
+
+/**
+ * Whether repeating a request has the same effect as sending it once.
+ * YouTrack updates an existing entity with a POST to the entity's URL
+ * (e.g. /issues/PROJ-1), which sets fields to the given values. POSTs to a
+ * collection (/issues, /comments, /workItems, /commands) create entities or
+ * run commands and are not idempotent.
+ */
+export function isIdempotentRequest(request: { method?: string; url?: string }): boolean {
+  const method = (request.method || 'get').toUpperCase();
+  if (method !== 'POST') {
+    return true;
+  }
+
+  const path = (request.url || '').split('?')[0];
+  const lastSegment = decodeURIComponent(path.split('/').pop() || '');
+  return ENTITY_ID_PATTERN.test(lastSegment);
+}
+
+/**
+ * Whether a failed request may be retried. Rate limited and unsent requests are
+ * always retried; other transient failures only for idempotent requests.
+ */
+export function isRetryableError(error: any): boolean {
+  if (!error?.isAxiosError || !error.config) {
+    return false;
+  }
+
+  const status: number | undefined = error.response?.status;
+  if (status === 429 || (status === undefined && CONNECT_ERROR_CODES.has(error.code))) {
+    return true;
+  }
+
+  const transient = status !== undefined ? RETRYABLE_STATUSES.has(status) : NETWORK_ERROR_CODES.has(error.code);
+  return transient && isIdempotentRequest(error.config);
+}
+
+/**
+ * Parse the Retry-After header of a failed request (seconds or an HTTP date) into milliseconds
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  const header = error?.response?.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, half is random,
+ * so concurrent retries spread out
+ */
+export function getBackoffDelay(attempt: number): number {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return exponential / 2 + Math.random() * exponential / 2;
+}
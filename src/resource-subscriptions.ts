@@ -0,0 +1,112 @@
+import { LogSink, createLogger, runWithLogSink } from './logger.js';
+import { formatApiError } from './utils.js';
+
+/**
+ * Subscriptions to MCP resources.
+ *
+ * YouTrack does not push changes, so each subscribed resource is polled for a
+ * version (such as an issue's `updated` timestamp) and the client is notified
+ * when it differs from the last one seen. A resource whose polls fail is polled
+ * less often, doubling the wait per failure up to a limit, until a poll succeeds.
+ */
+
+const log = createLogger('subscriptions');
+
+export interface SubscriptionOptions {
+  intervalMs: number;
+  maxBackoffMs: number;
+  /**
+   * Fetch the current version of a resource, a value that changes whenever the resource does
+   */
+  fetchVersion: (uri: string) => Promise<string>;
+  /**
+   * Tell the client that a resource changed
+   */
+  notify: (uri: string) => Promise<void>;
+  logSink: LogSink;
+}
+
+interface Subscription {
+  uri: string;
+  version: string;
+  failures: number; // Polls failed in a row
+  timer: NodeJS.Timeout | null;
+}
+
+export class ResourceSubscriptions {
+  private subscriptions = new Map<string, Subscription>();
+
+  constructor(private readonly options: SubscriptionOptions) {}
+
+  /**
+   * Start watching a resource. Fails when its version cannot be fetched, e.g. for an
+   * issue that does not exist. Subscribing again to a watched resource does nothing.
+   */
+  async subscribe(uri: string): Promise<void> {
+    if (this.subscriptions.has(uri)) {
+      return;
+    }
+
+    const version = await this.options.fetchVersion(uri);
+    if (this.subscriptions.has(uri)) {
+      return;
+    }
+
+    const subscription: Subscription = { uri, version, failures: 0, timer: null };
+    this.subscriptions.set(uri, subscription);
+    this.schedule(subscription);
+    log.debug('Subscribed to resource', { uri });
+  }
+
+  unsubscribe(uri: string): void {
+    const subscription = this.subscriptions.get(uri);
+    if (subscription?.timer) {
+      clearTimeout(subscription.timer);
+    }
+    this.subscriptions.delete(uri);
+  }
+
+  /**
+   * Stop watching every resource, when the client session ends
+   */
+  close(): void {
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri);
+    }
+  }
+
+  private schedule(subscription: Subscription): void {
+    const { intervalMs, maxBackoffMs } = this.options;
+    const delayMs = subscription.failures > 0
+      ? Math.min(intervalMs * 2 ** subscription.failures, Math.max(maxBackoffMs, intervalMs))
+      : intervalMs;
+
+    subscription.timer = setTimeout(() => {
+      void runWithLogSink(this.options.logSink, () => this.poll(subscription));
+    }, delayMs);
+    // Polls must not keep the process alive
+    subscription.timer.unref();
+  }
+
+  private async poll(subscription: Subscription): Promise<void> {
+    try {
+      const version = await this.options.fetchVersion(subscription.uri);
+      subscription.failures = 0;
+      if (version !== subscription.version) {
+        subscription.version = version;
+        log.debug('Subscribed resource changed', { uri: subscription.uri });
+        await this.options.notify(subscription.uri).catch(error =>
+          log.debug('Failed to send resource update', { uri: subscription.uri, error })
+        );
+      }
+    } catch (error) {
+      subscription.failures++;
+      log.warning('Failed to poll subscribed resource', { uri: subscription.uri, failures: subscription.failures, error: formatApiError(error) });
+    }
+
+    // Unsubscribed while polling
+    if (this.subscriptions.get(subscription.uri) === subscription) {
+      this.schedule(subscription);
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { CallToolResult, ListResourcesResult, ReadResourceResult, ServerNotification, ServerRequest, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { runWithCallControl } from './call-control.js';
+import { LogSink, createLogger, runWithLogSink } from './logger.js';
+import { ResourceSubscriptions } from './resource-subscriptions.js';
+import { YouTrackClient } from './youtrack-client.js';
+import { ToolRuntime } from './tools/registry.js';
+import { getIssue, getIssueSchema } from './tools/issue-tools.js';
+import { getProject, getProjectSchema } from './tools/project-tools.js';
+import { searchIssuesAdvanced, searchIssuesAdvancedSchema } from './tools/search-tools.js';
+import { IssueSection } from './types.js';
+
+const log = createLogger('resources');
+
+/**
+ * MCP resources for YouTrack data, so clients can attach issues, projects and
+ * saved searches as context:
+ *
+ * - `youtrack://issue/{id}`: an issue with its fields, comments and links
+ * - `youtrack://project/{shortName}`: a project
+ * - `youtrack://query/{encoded}`: the first page of a search, the query URI-encoded
+ *
+ * Resources are read from the default instance and rendered as markdown by the
+ * same functions as the matching tools. Clients can subscribe to them to be
+ * notified of changes, see ResourceSubscriptions.
+ */
+
+const MARKDOWN = 'text/markdown';
+
+/**
+ * Parts of an issue shown in its resource
+ */
+const ISSUE_RESOURCE_SECTIONS: IssueSection[] = ['description', 'customFields', 'tags', 'comments', 'links'];
+
+/**
+ * Recently updated issues offered by resources/list
+ */
+const LISTED_ISSUE_COUNT = 20;
+const LISTED_ISSUES_QUERY = 'assignee: me sort by: updated desc';
+
+const QUERY_RESULT_LIMIT = 50;
+
+type Extra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export function issueResourceUri(issueId: string): string {
+  return `youtrack://issue/${encodeURIComponent(issueId)}`;
+}
+
+type ResourceKind = 'issue' | 'project' | 'query';
+
+/**
+ * The kind of resource a URI names and its decoded ID, short name or query
+ */
+function parseResourceUri(uri: string): { kind: ResourceKind; value: string } | undefined {
+  const match = uri.match(/^youtrack:\/\/(issue|project|query)\/([^/?#]+)$/);
+  return match ? { kind: match[1] as ResourceKind, value: decodeURIComponent(match[2]) } : undefined;
+}
+
+/**
+ * A value that changes whenever the resource does: the `updated` timestamp of an
+ * issue or project, or the IDs and timestamps of the issues a query finds
+ */
+async function fetchResourceVersion(client: YouTrackClient, uri: string): Promise<string> {
+  const resource = parseResourceUri(uri);
+  switch (resource?.kind) {
+    case 'issue':
+      return String((await client.getIssue(resource.value, [])).updated);
+    case 'project':
+      return String((await client.getProject(resource.value)).updated);
+    case 'query': {
+      const result = await client.searchIssues({ query: resource.value, limit: QUERY_RESULT_LIMIT });
+      return result.items.map(issue => `${issue.idReadable}@${issue.updated}`).join(',');
+    }
+    default:
+      throw new Error(`Unknown resource ${uri}. Subscribe to youtrack://issue/{id}, youtrack://project/{shortName} or youtrack://query/{query}`);
+  }
+}
+
+function getVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Turn the result of a tool function into resource contents, failing the read on error results
+ */
+function toResourceContents(uri: URL, result: CallToolResult): ReadResourceResult {
+  const text = result.content.map(item => item.type === 'text' ? item.text : '').join('\n');
+  if (result.isError) {
+    throw new Error(text);
+  }
+  return { contents: [{ uri: uri.href, mimeType: MARKDOWN, text }] };
+}
+
+/**
+ * Register the YouTrack resource templates on an MCP server. Reads log to the
+ * server's log sink and are aborted when the client cancels them. Subscriptions
+ * are kept per server, so they end with the client session.
+ */
+export function registerResources(server: McpServer, runtime: ToolRuntime, logSink: LogSink): void {
+  const { instances, settings } = runtime;
+  const run = <T>(extra: Extra, fn: () => Promise<T>): Promise<T> =>
+    runWithLogSink(logSink, () => runWithCallControl({ signal: extra.signal }, fn));
+
+  server.registerResource(
+    'issue',
+    new ResourceTemplate('youtrack://issue/{id}', {
+      list: (extra) => run(extra, async (): Promise<ListResourcesResult> => {
+        try {
+          const result = await instances.get().client.searchIssues({ query: LISTED_ISSUES_QUERY, limit: LISTED_ISSUE_COUNT });
+          return {
+            resources: result.items.map(issue => ({
+              uri: issueResourceUri(issue.idReadable),
+              name: `${issue.idReadable}: ${issue.summary}`,
+              // Without its own title a listed issue takes the template's
+              title: `${issue.idReadable}: ${issue.summary}`,
+              description: `Issue ${issue.idReadable} in ${issue.project.shortName}, updated ${new Date(issue.updated).toLocaleString()}`,
+              mimeType: MARKDOWN
+            }))
+          };
+        } catch (error) {
+          // Keep the other resources listable when the search fails
+          log.warning('Failed to list recently updated issues', { error });
+          return { resources: [] };
+        }
+      })
+    }),
+    { title: 'YouTrack issue', description: 'A YouTrack issue with its fields, comments and links', mimeType: MARKDOWN },
+    (uri, variables, extra) => run(extra, async () => toResourceContents(uri, await getIssue(
+      instances.get().client,
+      getIssueSchema.parse({ issueId: getVariable(variables, 'id'), include: ISSUE_RESOURCE_SECTIONS })
+    )))
+  );
+
+  server.registerResource(
+    'project',
+    new ResourceTemplate('youtrack://project/{shortName}', { list: undefined }),
+    { title: 'YouTrack project', description: 'A YouTrack project', mimeType: MARKDOWN },
+    (uri, variables, extra) => run(extra, async () => toResourceContents(uri, await getProject(
+      instances.get().client,
+      getProjectSchema.parse({ projectId: getVariable(variables, 'shortName') })
+    )))
+  );
+
+  server.registerResource(
+    'query',
+    new ResourceTemplate('youtrack://query/{query}', { list: undefined }),
+    { title: 'YouTrack issue search', description: `The first ${QUERY_RESULT_LIMIT} issues matching a YouTrack search query, URI-encoded in the resource URI`, mimeType: MARKDOWN },
+    (uri, variables, extra) => run(extra, async () => toResourceContents(uri, await searchIssuesAdvanced(
+      instances.get().client,
+      searchIssuesAdvancedSchema.parse({ query: getVariable(variables, 'query'), limit: QUERY_RESULT_LIMIT })
+    )))
+  );
+
+  if (settings.subscriptionPollInterval) {
+    registerSubscriptions(server, runtime, logSink);
+  }
+}
+
+function registerSubscriptions(server: McpServer, { instances, settings }: ToolRuntime, logSink: LogSink): void {
+  const subscriptions = new ResourceSubscriptions({
+    intervalMs: settings.subscriptionPollInterval! * 1000,
+    maxBackoffMs: settings.subscriptionMaxBackoff * 1000,
+    fetchVersion: (uri) => fetchResourceVersion(instances.get().client, uri),
+    notify: (uri) => server.server.sendResourceUpdated({ uri }),
+    logSink
+  });
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    await runWithLogSink(logSink, () => runWithCallControl({ signal: extra.signal }, () => subscriptions.subscribe(request.params.uri)));
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    subscriptions.close();
+    previousOnClose?.();
+  };
+}
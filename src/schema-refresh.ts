@@ -0,0 +1,120 @@
+import { YouTrackInstances } from './instances.js';
+import { createLogger } from './logger.js';
+import { CustomFieldMetadata } from './types.js';
+import { formatApiError } from './utils.js';
+
+/**
+ * Keeps custom field metadata up to date without restarting the server.
+ *
+ * Tool schemas such as create-issue's are built from the custom fields of all
+ * instances. The refresher re-fetches the fields, on demand (refresh-schema) or
+ * on an interval, and tells the registry to rebuild those schemas when a field
+ * or bundle value was added, removed or changed.
+ */
+
+const log = createLogger('schema-refresh');
+
+export interface InstanceFieldChanges {
+  instance: string;
+  added: string[];
+  removed: string[];
+  changed: string[]; // Field type, bundle values or projects changed
+  error?: string; // Set when the fields could not be fetched; the old fields are kept
+}
+
+export interface SchemaRefreshResult {
+  changed: boolean;
+  instances: InstanceFieldChanges[];
+}
+
+/**
+ * Compare two custom field lists by field name
+ */
+function diffCustomFields(before: CustomFieldMetadata[], after: CustomFieldMetadata[]): Omit<InstanceFieldChanges, 'instance'> {
+  const beforeByName = new Map(before.map(field => [field.name, field]));
+  const afterByName = new Map(after.map(field => [field.name, field]));
+
+  return {
+    added: after.filter(field => !beforeByName.has(field.name)).map(field => field.name),
+    removed: before.filter(field => !afterByName.has(field.name)).map(field => field.name),
+    changed: after
+      .filter(field => beforeByName.has(field.name) && JSON.stringify(beforeByName.get(field.name)) !== JSON.stringify(field))
+      .map(field => field.name)
+  };
+}
+
+export class SchemaRefresher {
+  private listeners = new Set<() => void>();
+  private pending: Promise<SchemaRefreshResult> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly instances: YouTrackInstances) {}
+
+  /**
+   * Call the listener whenever custom fields change. Returns a function that removes it.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Re-fetch the custom fields of every instance. Concurrent calls share one refresh.
+   */
+  refresh(): Promise<SchemaRefreshResult> {
+    if (!this.pending) {
+      this.pending = this.refreshInstances().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Refresh every `intervalMs` in the background
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      void this.refresh();
+    }, intervalMs);
+    // Background refreshes must not keep the process alive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async refreshInstances(): Promise<SchemaRefreshResult> {
+    const results: InstanceFieldChanges[] = [];
+
+    for (const instance of this.instances.list()) {
+      try {
+        const customFields = await instance.client.fetchAccessibleCustomFields();
+        results.push({ instance: instance.name, ...diffCustomFields(instance.customFields, customFields) });
+        instance.customFields = customFields;
+      } catch (error: any) {
+        // The client already logged the failure
+        results.push({ instance: instance.name, added: [], removed: [], changed: [], error: formatApiError(error) });
+      }
+    }
+
+    const changed = results.some(result => result.added.length + result.removed.length + result.changed.length > 0);
+    if (changed) {
+      log.info('Custom fields changed, updating tool schemas', {
+        instances: results.filter(result => !result.error).map(({ error, ...changes }) => changes)
+      });
+      for (const listener of this.listeners) {
+        listener();
+      }
+    }
+
+    return { changed, instances: results };
+  }
+}
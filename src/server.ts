@@ -0,0 +1,30 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTools, ToolDefinition, ToolRuntime } from './tools/registry.js';
+import { registerResources } from './resources.js';
+import { registerPrompts } from './prompts.js';
+import { registerCompletions } from './completions.js';
+import { connectMcpLogging } from './logger.js';
+
+/**
+ * Create an MCP server instance with all YouTrack tools, resources and prompts registered.
+ * Stdio mode uses a single instance; HTTP mode creates one per client session.
+ */
+export function createServer(toolDefinitions: ToolDefinition[], runtime: ToolRuntime): McpServer {
+  const server = new McpServer({
+    name: "ougha-mcp-youtrack",
+    version: "1.0.0",
+  }, {
+    capabilities: {
+      tools: {},
+      logging: {},
+    },
+  });
+
+  const logSink = connectMcpLogging(server);
+  registerTools(server, toolDefinitions, runtime, logSink);
+  registerResources(server, runtime, logSink);
+  registerPrompts(server, runtime, logSink);
+  registerCompletions(server, runtime, logSink);
+
+  return server;
+}
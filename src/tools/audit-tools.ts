@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { AuditLog, AuditEntry } from '../audit.js';
+import { ToolDefinition } from './registry.js';
+
+/**
+ * MCP tools for the audit log of write operations
+ */
+
+export const getAuditLogSchema = z.object({
+  since: z.string().optional().describe('Start of the time range (ISO 8601, e.g. "2024-05-01" or "2024-05-01T12:00:00Z")'),
+  until: z.string().optional().describe('End of the time range (ISO 8601)'),
+  tool: z.string().optional().describe('Only entries made by this tool (e.g. "update-issue")'),
+  issueId: z.string().optional().describe('Only entries that touched this issue (e.g. PROJECT-123)'),
+  limit: z.number().min(1).max(500).default(50).describe('Maximum number of entries to return (newest first)')
+});
+
+const auditEntrySchema = z.object({
+  timestamp: z.string(),
+  tool: z.string().optional(),
+  instance: z.string().optional(),
+  arguments: z.record(z.any()).optional(),
+  request: z.object({ method: z.string(), path: z.string(), body: z.any() }),
+  issueIds: z.array(z.string()),
+  attempt: z.number().optional(),
+  result: z.object({ status: z.number(), id: z.string().optional(), idReadable: z.string().optional() }).optional(),
+  error: z.string().optional()
+});
+
+/**
+ * Parse an ISO 8601 date parameter
+ */
+function parseTime(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`${name} must be an ISO 8601 date, got "${value}"`);
+  }
+  return time;
+}
+
+function formatEntry(entry: AuditEntry): string {
+  const outcome = entry.error
+    ? `❌ ${entry.error}`
+    : `✅ ${entry.result?.status}${entry.result?.idReadable ? ` (${entry.result.idReadable})` : ''}`;
+
+  return `**${entry.timestamp}** - ${entry.tool || 'unknown tool'}${entry.instance ? ` @ ${entry.instance}` : ''}\n` +
+    `  Request: ${entry.request.method} ${entry.request.path}${(entry.attempt ?? 1) > 1 ? ` (attempt ${entry.attempt})` : ''}\n` +
+    (entry.issueIds.length > 0 ? `  Issues: ${entry.issueIds.join(', ')}\n` : '') +
+    (entry.arguments ? `  Arguments: ${JSON.stringify(entry.arguments)}\n` : '') +
+    `  Result: ${outcome}`;
+}
+
+/**
+ * Get audit log entries
+ */
+export async function getAuditLog(auditLog: AuditLog | undefined, params: z.infer<typeof getAuditLogSchema>) {
+  if (!auditLog) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: 'The audit log is disabled. Set auditLog in the config file or YOUTRACK_AUDIT_LOG to enable it.'
+        }
+      ],
+      isError: true
+    };
+  }
+
+  try {
+    const entries = await auditLog.read({
+      since: parseTime(params.since, 'since'),
+      until: parseTime(params.until, 'until'),
+      tool: params.tool,
+      issueId: params.issueId,
+      limit: params.limit
+    });
+
+    if (entries.length === 0) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: 'No audit log entries match the filter.'
+          }
+        ],
+        structuredContent: { entries: [] }
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Found ${entries.length} audit log entr${entries.length === 1 ? 'y' : 'ies'} (newest first):\n\n` +
+            entries.map(formatEntry).join('\n\n')
+        }
+      ],
+      structuredContent: { entries }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Failed to read audit log: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Audit log tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "get-audit-log",
+    description: "Get the audit log of write operations, filtered by time range, tool and issue",
+    schema: getAuditLogSchema,
+    outputSchema: { entries: z.array(auditEntrySchema) },
+    handler: (params, { auditLog }) => getAuditLog(auditLog, params)
+  }
+];
@@ -0,0 +1,373 @@
+import { z } from 'zod';
+import { truncatePage } from '../pagination.js';
+import { YouTrackIssue, YouTrackSearchResult } from '../types.js';
+import { formatCustomFieldValue } from '../utils.js';
+import { formatPageFooter } from './paging.js';
+
+/**
+ * Shaping of tool results to an output budget.
+ *
+ * Budgets are counted in tokens, estimated from the length of the text, and
+ * apply to the text and the structured content of a result alike. Issue tools
+ * first shorten descriptions and comments, then collapse lists to one line per
+ * issue, and finally leave out the issues that do not fit, with a cursor to the
+ * rest. Issue IDs are always kept. Other structured content over the budget
+ * loses the last items of its longest lists, then the ends of long strings;
+ * other text is cut at a line boundary. Shaped results are marked `truncated`,
+ * and structured content lists in `omitted` how many items, and which IDs, it
+ * left out of each list.
+ */
+
+export const maxOutputTokensField = z.number()
+  .int()
+  .positive()
+  .optional()
+  .describe('Approximate maximum size of the response in tokens. Long descriptions, comments and lists are shortened to fit');
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Longest summary in the ID-only list view
+ */
+const ID_LIST_SUMMARY_LENGTH = 80;
+
+/**
+ * Longest field value in the one-line-per-issue list view
+ */
+const LINE_FIELD_LENGTH = 40;
+
+interface TrimLimits {
+  descriptionLength: number;
+  commentCount: number; // Latest comments kept per issue
+  commentLength: number;
+}
+
+/**
+ * Issue detail levels, tried in order until a result fits its budget
+ */
+const TRIM_LEVELS: TrimLimits[] = [
+  { descriptionLength: 2000, commentCount: 10, commentLength: 1000 },
+  { descriptionLength: 500, commentCount: 3, commentLength: 300 },
+  { descriptionLength: 200, commentCount: 0, commentLength: 0 }
+];
+
+/**
+ * Rough token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Rough token count of structured content, as JSON
+ */
+function estimateJsonTokens(value: unknown): number {
+  return estimateTokens(JSON.stringify(value) ?? '');
+}
+
+/**
+ * Shorten text to at most `maxLength` characters, at a word boundary when there is one nearby
+ */
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength);
+  const wordEnd = cut.lastIndexOf(' ');
+  return `${(wordEnd > maxLength / 2 ? cut.slice(0, wordEnd) : cut).trimEnd()}…`;
+}
+
+/**
+ * Cut text to the budget at a line boundary, for results that are not shaped otherwise
+ */
+export function fitText(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const note = `\n…response cut to fit ${maxTokens} tokens. Narrow the request or raise maxOutputTokens to see the rest.`;
+  const cut = text.slice(0, Math.max(0, maxTokens * CHARS_PER_TOKEN - note.length));
+  const lineEnd = cut.lastIndexOf('\n');
+  return (lineEnd > 0 ? cut.slice(0, lineEnd) : cut) + note;
+}
+
+/**
+ * Longest strings left in structured content over the budget, tried in order
+ */
+const STRUCTURED_STRING_LENGTHS = [1000, 200, 80];
+
+/**
+ * Items left out of a list of structured content
+ */
+export interface OmittedItems {
+  path: string; // Path of the list, e.g. "users" or "tasks[2].dependencies"
+  count: number;
+  ids?: string[]; // Readable IDs, or else IDs, of the items left out that have one
+}
+
+export const omittedItemsSchema = z.object({
+  path: z.string(),
+  count: z.number(),
+  ids: z.array(z.string()).optional()
+});
+
+/**
+ * The longest list in structured content, by the size of its JSON, and its path.
+ * The `omitted` report itself is never shortened.
+ */
+function findLongestList(content: Record<string, unknown>, skip: Set<unknown[]>): { list: unknown[]; path: string } | undefined {
+  let longest: { list: unknown[]; path: string; tokens: number } | undefined;
+  const visit = (item: unknown, path: string) => {
+    if (Array.isArray(item)) {
+      const tokens = estimateJsonTokens(item);
+      if (item.length > 0 && !skip.has(item) && (!longest || tokens > longest.tokens)) {
+        longest = { list: item, path, tokens };
+      }
+      item.forEach((element, index) => visit(element, `${path}[${index}]`));
+    } else if (item && typeof item === 'object') {
+      Object.entries(item).forEach(([key, value]) => visit(value, path ? `${path}.${key}` : key));
+    }
+  };
+  Object.entries(content).forEach(([key, value]) => key !== 'omitted' && visit(value, key));
+  return longest;
+}
+
+function getItemId(item: unknown): string | undefined {
+  const { idReadable, id } = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+  const itemId = idReadable ?? id;
+  return typeof itemId === 'string' ? itemId : undefined;
+}
+
+/**
+ * Shorten every string in structured content except cursors
+ */
+function truncateStrings(value: unknown, maxLength: number): unknown {
+  if (typeof value === 'string') {
+    return truncateText(value, maxLength);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => truncateStrings(item, maxLength));
+  }
+  if (value && typeof value === 'object') {
+    // Cursors only work whole
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, /cursor$/i.test(key) ? item : truncateStrings(item, maxLength)]));
+  }
+  return value;
+}
+
+/**
+ * Fit structured content to the budget. The last items of the longest lists are
+ * left out first, as many as needed and one list at a time, then long strings are
+ * shortened. Content that had to be changed is marked `truncated`; each shortened
+ * list is reported in `omitted` with the number and IDs of the items left out,
+ * so they can be fetched another way.
+ */
+export function fitStructuredContent(content: Record<string, unknown>, maxTokens: number): Record<string, unknown> {
+  if (estimateJsonTokens(content) <= maxTokens) {
+    return content;
+  }
+
+  const omitted: OmittedItems[] = [];
+  const fitted: Record<string, unknown> = { ...structuredClone(content), truncated: true, omitted };
+  const shortened = new Set<unknown[]>();
+  for (let found = findLongestList(fitted, shortened); found && estimateJsonTokens(fitted) > maxTokens; found = findLongestList(fitted, shortened)) {
+    const { list, path } = found;
+    const items = list.splice(0);
+    const report: OmittedItems = { path, count: 0 };
+    omitted.push(report);
+    // The IDs of the items left out count towards the budget too
+    const keep = (count: number) => {
+      list.splice(0, list.length, ...items.slice(0, count));
+      const ids = items.slice(count).map(getItemId).filter((id): id is string => id !== undefined);
+      report.count = items.length - count;
+      report.ids = ids.length > 0 ? ids : undefined;
+    };
+
+    // Keep the most items that fit, or none
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+      const count = Math.ceil((low + high) / 2);
+      keep(count);
+      if (estimateJsonTokens(fitted) <= maxTokens) {
+        low = count;
+      } else {
+        high = count - 1;
+      }
+    }
+    keep(low);
+    shortened.add(list);
+  }
+  if (omitted.length === 0) {
+    delete fitted.omitted;
+  }
+
+  let result = fitted;
+  for (const maxLength of STRUCTURED_STRING_LENGTHS) {
+    if (estimateJsonTokens(result) <= maxTokens) {
+      break;
+    }
+    result = truncateStrings(fitted, maxLength) as Record<string, unknown>;
+  }
+  return result;
+}
+
+function trimIssue(issue: YouTrackIssue, limits: TrimLimits): YouTrackIssue {
+  const comments = issue.comments?.filter(comment => !comment.deleted);
+
+  return {
+    ...issue,
+    description: issue.description && truncateText(issue.description, limits.descriptionLength),
+    comments: comments && comments
+      .slice(Math.max(0, comments.length - limits.commentCount))
+      .map(comment => ({ ...comment, text: truncateText(comment.text || '', limits.commentLength) }))
+  };
+}
+
+function formatTrimNote(limits: TrimLimits): string {
+  const comments = limits.commentCount > 0
+    ? `only the latest ${limits.commentCount} comments shown, cut to ${limits.commentLength} characters`
+    : 'comments left out';
+  return `\n\n_Shortened to fit the output budget: descriptions cut to ${limits.descriptionLength} characters, ${comments}._`;
+}
+
+/**
+ * Render a single issue within the budget, shortening its description and comments as needed
+ */
+export function fitIssue(
+  issue: YouTrackIssue,
+  maxTokens: number | undefined,
+  render: (issue: YouTrackIssue) => string
+): { issue: YouTrackIssue; text: string; truncated: boolean } {
+  let fitted = { issue, text: render(issue), truncated: false };
+
+  for (const limits of TRIM_LEVELS) {
+    if (!maxTokens || (estimateTokens(fitted.text) <= maxTokens && estimateJsonTokens(fitted.issue) <= maxTokens)) {
+      break;
+    }
+    const trimmed = trimIssue(issue, limits);
+    fitted = { issue: trimmed, text: render(trimmed) + formatTrimNote(limits), truncated: true };
+  }
+
+  return fitted;
+}
+
+/**
+ * The attributes of an issue kept in the structured content of shortened lists
+ */
+function summarizeIssue(issue: YouTrackIssue): YouTrackIssue {
+  return {
+    id: issue.id,
+    idReadable: issue.idReadable,
+    summary: truncateText(issue.summary, ID_LIST_SUMMARY_LENGTH),
+    project: issue.project,
+    assignee: issue.assignee,
+    created: issue.created,
+    updated: issue.updated,
+    resolved: issue.resolved,
+    numberInProject: issue.numberInProject
+  };
+}
+
+/**
+ * Fields shown in the one-line-per-issue view: project, assignee and the custom fields that are set
+ */
+function getLineFields(issue: YouTrackIssue): Array<[string, string]> {
+  const customFields = (issue.customFields || [])
+    .map(field => [field.name, formatCustomFieldValue(field)] as [string, string])
+    .filter(([name, value]) => value !== 'Not set' && name !== 'Assignee');
+
+  return [
+    ['Project', issue.project?.shortName || 'Unknown'],
+    ['Assignee', issue.assignee?.fullName || issue.assignee?.login || 'Unassigned'],
+    ...customFields
+  ].map(([name, value]) => [name, truncateText(value, LINE_FIELD_LENGTH)] as [string, string]);
+}
+
+/**
+ * One line per issue. Fields with the same value in every issue are listed once above the lines.
+ */
+function formatIssueLines(issues: YouTrackIssue[]): string {
+  const fieldsByIssue = issues.map(issue => new Map(getLineFields(issue)));
+  const shared = [...fieldsByIssue[0].entries()]
+    .filter(([name, value]) => fieldsByIssue.every(fields => fields.get(name) === value));
+  const sharedNames = new Set(shared.map(([name]) => name));
+
+  const lines = issues.map((issue, index) => {
+    const fields = [...fieldsByIssue[index].entries()]
+      .filter(([name]) => !sharedNames.has(name))
+      .map(([name, value]) => `${name}: ${value}`);
+    return `- **${issue.idReadable}** - ${issue.summary}${fields.length > 0 ? ` (${fields.join(', ')})` : ''}`;
+  });
+
+  return (shared.length > 0 && issues.length > 1 ? `All issues: ${shared.map(([name, value]) => `${name}: ${value}`).join(', ')}\n\n` : '') +
+    lines.join('\n');
+}
+
+/**
+ * Render a page of issues within the budget. Descriptions and comments are shortened
+ * first, then issues are shown one per line with only their main attributes in the
+ * page, and finally by ID and summary only, leaving out the issues that do not fit.
+ * The next cursor of the returned page continues with the first issue left out.
+ */
+export function fitIssuePage(
+  page: YouTrackSearchResult<YouTrackIssue>,
+  maxTokens: number | undefined,
+  render: (page: YouTrackSearchResult<YouTrackIssue>) => string
+): { page: YouTrackSearchResult<YouTrackIssue>; text: string } {
+  const text = render(page);
+  const fits = (fitted: YouTrackSearchResult<YouTrackIssue>, fittedText: string) =>
+    estimateTokens(fittedText) <= maxTokens! && estimateJsonTokens(fitted) <= maxTokens!;
+  if (!maxTokens || page.items.length === 0 || fits(page, text)) {
+    return { page, text };
+  }
+
+  let trimmed = page;
+  for (const limits of TRIM_LEVELS) {
+    trimmed = { ...page, items: page.items.map(issue => trimIssue(issue, limits)), truncated: true };
+    const trimmedText = render(trimmed) + formatTrimNote(limits);
+    if (fits(trimmed, trimmedText)) {
+      return { page: trimmed, text: trimmedText };
+    }
+  }
+
+  const summarized = { ...trimmed, items: trimmed.items.map(summarizeIssue) };
+  const linesText = `Found ${page.items.length} issue(s), shortened to fit the output budget:\n\n` +
+    formatIssueLines(trimmed.items) + formatPageFooter(trimmed);
+  if (fits(summarized, linesText)) {
+    return { page: summarized, text: linesText };
+  }
+
+  // IDs and summaries only, as many as fit next to the header and footer, in the text and in the page
+  const idLines = trimmed.items.map(issue => `- ${issue.idReadable} - ${truncateText(issue.summary, ID_LIST_SUMMARY_LENGTH)}`);
+  const header = `Found ${page.items.length} issue(s), showing IDs only to fit the output budget:\n\n`;
+  const empty = truncatePage(summarized, 0);
+  let count = 0;
+  let usedText = estimateTokens(header + formatOmittedNote(trimmed, 0) + formatPageFooter(empty));
+  let usedJson = estimateJsonTokens({ ...empty, items: [] });
+  while (count < idLines.length) {
+    const textTokens = estimateTokens(`${idLines[count]}\n`);
+    const jsonTokens = estimateJsonTokens(summarized.items[count]);
+    if (usedText + textTokens > maxTokens || usedJson + jsonTokens > maxTokens) {
+      break;
+    }
+    usedText += textTokens;
+    usedJson += jsonTokens;
+    count++;
+  }
+
+  const truncated = truncatePage(summarized, count);
+  return {
+    page: truncated,
+    text: header + idLines.slice(0, count).join('\n') + formatOmittedNote(trimmed, count) + formatPageFooter(truncated)
+  };
+}
+
+function formatOmittedNote(page: YouTrackSearchResult<YouTrackIssue>, shown: number): string {
+  const omitted = page.items.length - shown;
+  if (omitted === 0) {
+    return '';
+  }
+  return `\n…and ${omitted} more issue(s) on this page${page.hasMore ? ', with more pages after it' : ''}`;
+}
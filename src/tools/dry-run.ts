@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { DryRunPreview, FieldChange } from '../types.js';
+import { dryRunPreviewSchema } from './output-schemas.js';
+
+/**
+ * Shared support for the `dryRun` option of mutating tools
+ */
+
+export const dryRunField = z.boolean()
+  .optional()
+  .describe('Preview the change without sending it: returns the REST payload and a before/after diff');
+
+/**
+ * Output field set instead of the tool's usual output when `dryRun` is passed
+ */
+export const dryRunOutputField = dryRunPreviewSchema
+  .optional()
+  .describe('Preview of the change, set when called with dryRun');
+
+/**
+ * Combine previews of requests that a tool sends one after another
+ */
+export function combineDryRunPreviews(action: string, previews: DryRunPreview[]): DryRunPreview {
+  return {
+    action,
+    requests: previews.flatMap(preview => preview.requests),
+    changes: previews.flatMap(preview => preview.changes),
+    notes: previews.flatMap(preview => preview.notes || [])
+  };
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) {
+    return '(not set)';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatChange(change: FieldChange): string {
+  const unchanged = JSON.stringify(change.before) === JSON.stringify(change.after);
+  return unchanged
+    ? `- **${change.field}:** ${formatValue(change.after)} (unchanged)`
+    : `- **${change.field}:** ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+/**
+ * Format a dry-run preview as a tool result
+ */
+export function formatDryRunPreview(preview: DryRunPreview) {
+  const changesText = preview.changes.length > 0
+    ? preview.changes.map(formatChange).join('\n')
+    : 'No field changes';
+
+  const requestsText = preview.requests.map((request, index) =>
+    `${index + 1}. \`${request.method} /api${request.path}\`` +
+    (request.body !== undefined ? `\n\`\`\`json\n${JSON.stringify(request.body, null, 2)}\n\`\`\`` : '')
+  ).join('\n');
+
+  const notesText = preview.notes && preview.notes.length > 0
+    ? `\n\n**Notes:**\n${preview.notes.map(note => `- ${note}`).join('\n')}`
+    : '';
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `🔍 **DRY RUN** - nothing was sent to YouTrack\n\n` +
+          `**Action:** ${preview.action}\n\n` +
+          `**Changes:**\n${changesText}\n\n` +
+          `**Requests:**\n${requestsText}` +
+          notesText
+      }
+    ],
+    structuredContent: { dryRun: preview }
+  };
+}
@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { YouTrackClient } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
+import { dryRunField, dryRunOutputField, formatDryRunPreview } from './dry-run.js';
+import { criticalPathSchema, ganttChartSchema, ganttConflictSchema, issueSchema } from './output-schemas.js';
 import { formatApiError, formatDateForTimezone } from '../utils.js';
 import { GanttExportOptions } from '../types.js';
 
@@ -36,7 +39,8 @@ export const updateIssueTimelineSchema = z.object({
   issueId: z.string().describe('Issue ID (e.g., PROJECT-123)'),
   startDate: z.number().optional().describe('Start date (Unix timestamp)'),
   dueDate: z.number().optional().describe('Due date (Unix timestamp)'),
-  estimation: z.number().optional().describe('Estimation in minutes')
+  estimation: z.number().optional().describe('Estimation in minutes'),
+  dryRun: dryRunField
 });
 
 export const getProjectTimelineSchema = z.object({
@@ -106,7 +110,8 @@ export async function getGanttData(client: YouTrackClient, params: z.infer<typeo
                 `- Overdue: ${ganttData.metadata.overdueTasks}\n\n` +
                 `**Tasks:**\n${tasksText}${conflictsText}`
         }
-      ]
+      ],
+      structuredContent: { chart: ganttData }
     };
   } catch (error: any) {
     return {
@@ -167,7 +172,8 @@ export async function exportGanttChart(client: YouTrackClient, params: z.infer<t
                 `Tasks: ${ganttData.tasks.length}\n\n` +
                 `\`\`\`${params.format === 'json' ? 'json' : params.format === 'csv' ? 'csv' : 'mermaid'}\n${exportContent}\n\`\`\``
         }
-      ]
+      ],
+      structuredContent: { format: params.format, contentType, exported: exportContent }
     };
   } catch (error: any) {
     return {
@@ -285,11 +291,17 @@ function convertToMermaid(ganttData: any, options: GanttExportOptions): string {
  */
 export async function updateIssueTimeline(client: YouTrackClient, params: z.infer<typeof updateIssueTimelineSchema>) {
   try {
-    const updatedIssue = await client.updateIssueTimeline(params.issueId, {
+    const timelineRequest = {
       startDate: params.startDate,
       dueDate: params.dueDate,
       estimation: params.estimation
-    });
+    };
+
+    if (params.dryRun) {
+      return formatDryRunPreview(await client.previewUpdateIssueTimeline(params.issueId, timelineRequest));
+    }
+
+    const updatedIssue = await client.updateIssueTimeline(params.issueId, timelineRequest);
 
     const updates = [];
     if (params.startDate) updates.push(`Start Date: ${new Date(params.startDate).toLocaleDateString()}`);
@@ -305,7 +317,8 @@ export async function updateIssueTimeline(client: YouTrackClient, params: z.infe
                 `**Updates:** ${updates.join(', ')}\n` +
                 `**Last Modified:** ${new Date(updatedIssue.updated).toLocaleString()}`
         }
-      ]
+      ],
+      structuredContent: { issue: updatedIssue }
     };
   } catch (error: any) {
     return {
@@ -358,7 +371,8 @@ export async function getProjectTimeline(client: YouTrackClient, params: z.infer
                 `**Period:** ${new Date(ganttData.timeline.startDate).toLocaleDateString()} - ${new Date(ganttData.timeline.endDate).toLocaleDateString()}\n\n` +
                 `**Tasks by Timeline:**\n${timelineText}${milestonesText}`
         }
-      ]
+      ],
+      structuredContent: { chart: ganttData }
     };
   } catch (error: any) {
     return {
@@ -387,7 +401,8 @@ export async function calculateCriticalPath(client: YouTrackClient, params: z.in
             type: "text" as const,
             text: `📊 **Critical Path Analysis: No tasks found**\n\nProject ${params.projectId} has no tasks with timeline data for critical path analysis.`
           }
-        ]
+        ],
+        structuredContent: { criticalPath }
       };
     }
 
@@ -422,7 +437,8 @@ export async function calculateCriticalPath(client: YouTrackClient, params: z.in
                 `**Critical Path Tasks:**\n${criticalTasksText}\n\n` +
                 `**All Tasks by Slack Time:**\n${allTasksText}`
         }
-      ]
+      ],
+      structuredContent: { criticalPath }
     };
   } catch (error: any) {
     return {
@@ -454,7 +470,8 @@ export async function getTimelineConflicts(client: YouTrackClient, params: z.inf
             type: "text" as const,
             text: `✅ **No Timeline Conflicts Detected**\n\nAll tasks in the specified scope have compatible schedules and dependencies.`
           }
-        ]
+        ],
+        structuredContent: { conflicts: [] }
       };
     }
 
@@ -483,7 +500,8 @@ export async function getTimelineConflicts(client: YouTrackClient, params: z.inf
                 `**Total Conflicts:** ${ganttData.conflicts.length}\n\n` +
                 conflictText
         }
-      ]
+      ],
+      structuredContent: { conflicts: ganttData.conflicts }
     };
   } catch (error: any) {
     return {
@@ -496,4 +514,53 @@ export async function getTimelineConflicts(client: YouTrackClient, params: z.inf
       isError: true
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Gantt chart tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "get-gantt-data",
+    description: "Get Gantt chart data with filtering options for project timeline visualization",
+    schema: getGanttDataSchema,
+    outputSchema: { chart: ganttChartSchema },
+    handler: (params, { client }) => getGanttData(client, params)
+  },
+  {
+    name: "export-gantt-chart",
+    description: "Export Gantt chart data in various formats (JSON, CSV, Mermaid) for visualization tools",
+    schema: exportGanttChartSchema,
+    outputSchema: { format: z.enum(['json', 'csv', 'mermaid']), contentType: z.string(), exported: z.string().describe('The exported chart') },
+    handler: (params, { client }) => exportGanttChart(client, params)
+  },
+  {
+    name: "update-issue-timeline",
+    description: "Update issue timeline information (start date, due date, estimation)",
+    schema: updateIssueTimelineSchema,
+    outputSchema: { issue: issueSchema, dryRun: dryRunOutputField },
+    handler: (params, { client }) => updateIssueTimeline(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "get-project-timeline",
+    description: "Get comprehensive project timeline with tasks and milestones",
+    schema: getProjectTimelineSchema,
+    outputSchema: { chart: ganttChartSchema },
+    handler: (params, { client }) => getProjectTimeline(client, params)
+  },
+  {
+    name: "calculate-critical-path",
+    description: "Calculate critical path for project scheduling and identify bottlenecks",
+    schema: calculateCriticalPathSchema,
+    outputSchema: { criticalPath: criticalPathSchema },
+    handler: (params, { client }) => calculateCriticalPath(client, params)
+  },
+  {
+    name: "get-timeline-conflicts",
+    description: "Detect and report timeline conflicts, dependency cycles, and resource overlaps",
+    schema: getTimelineConflictsSchema,
+    outputSchema: { conflicts: z.array(ganttConflictSchema) },
+    handler: (params, { client }) => getTimelineConflicts(client, params)
+  }
+];
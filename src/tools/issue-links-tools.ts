@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { YouTrackClient } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
+import { dryRunField, dryRunOutputField, formatDryRunPreview } from './dry-run.js';
+import { issueLinkSchema, linkTypeSchema } from './output-schemas.js';
 import { CreateIssueLinkRequest } from '../types.js';
 import { formatApiError } from '../utils.js';
 
@@ -15,12 +18,14 @@ export const createIssueLinkSchema = z.object({
   issueId: z.string().describe('Source issue ID (e.g., PROJECT-123)'),
   targetIssue: z.string().describe('Target issue ID (e.g., PROJECT-456)'),
   linkType: z.string().describe('Link type name (e.g., "Depends on", "Blocks", "Relates to", "Parent for", "Subtask of")'),
-  direction: z.enum(['OUTWARD', 'INWARD']).default('OUTWARD').describe('Direction of the link (OUTWARD: source -> target, INWARD: target -> source)')
+  direction: z.enum(['OUTWARD', 'INWARD']).default('OUTWARD').describe('Direction of the link (OUTWARD: source -> target, INWARD: target -> source)'),
+  dryRun: dryRunField
 });
 
 export const deleteIssueLinkSchema = z.object({
   issueId: z.string().describe('Issue ID (e.g., PROJECT-123)'),
-  linkId: z.string().describe('Link ID to delete')
+  linkId: z.string().describe('Link ID to delete'),
+  dryRun: dryRunField
 });
 
 export const getLinkTypesSchema = z.object({
@@ -41,7 +46,8 @@ export async function getIssueLinks(client: YouTrackClient, params: z.infer<type
             type: "text" as const,
             text: `No links found for issue ${params.issueId}.`
           }
-        ]
+        ],
+        structuredContent: { issueId: params.issueId, links: [] }
       };
     }
 
@@ -66,7 +72,8 @@ export async function getIssueLinks(client: YouTrackClient, params: z.infer<type
           type: "text" as const,
           text: `**Issue Links for ${params.issueId}:**\n\n${linksText}`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, links }
     };
   } catch (error: any) {
     return {
@@ -92,6 +99,10 @@ export async function createIssueLink(client: YouTrackClient, params: z.infer<ty
       direction: params.direction
     };
 
+    if (params.dryRun) {
+      return formatDryRunPreview(await client.previewCreateIssueLink(params.issueId, linkRequest));
+    }
+
     const link = await client.createIssueLink(params.issueId, linkRequest);
     
     const linkTypeName = link.linkType.localizedName || link.linkType.name;
@@ -113,7 +124,8 @@ export async function createIssueLink(client: YouTrackClient, params: z.infer<ty
                 `**Linked Issues:** ${linkedIssues}\n` +
                 `**Link ID:** ${link.id}`
         }
-      ]
+      ],
+      structuredContent: { link }
     };
   } catch (error: any) {
     return {
@@ -133,6 +145,10 @@ export async function createIssueLink(client: YouTrackClient, params: z.infer<ty
  */
 export async function deleteIssueLink(client: YouTrackClient, params: z.infer<typeof deleteIssueLinkSchema>) {
   try {
+    if (params.dryRun) {
+      return formatDryRunPreview(await client.previewDeleteIssueLink(params.issueId, params.linkId));
+    }
+
     await client.deleteIssueLink(params.issueId, params.linkId);
     
     return {
@@ -141,7 +157,8 @@ export async function deleteIssueLink(client: YouTrackClient, params: z.infer<ty
           type: "text" as const,
           text: `Successfully deleted issue link ${params.linkId} from issue ${params.issueId}.`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, linkId: params.linkId }
     };
   } catch (error: any) {
     return {
@@ -170,7 +187,8 @@ export async function getLinkTypes(client: YouTrackClient, params: z.infer<typeo
             type: "text" as const,
             text: "No link types found."
           }
-        ]
+        ],
+        structuredContent: { linkTypes: [] }
       };
     }
 
@@ -211,7 +229,8 @@ export async function getLinkTypes(client: YouTrackClient, params: z.infer<typeo
           type: "text" as const,
           text: `**Available Link Types ${scope}:**\n\n${linkTypesText}${subtaskInfo}`
         }
-      ]
+      ],
+      structuredContent: { linkTypes }
     };
   } catch (error: any) {
     return {
@@ -225,3 +244,39 @@ export async function getLinkTypes(client: YouTrackClient, params: z.infer<typeo
     };
   }
 }
+
+/**
+ * Issue link tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "get-issue-links",
+    description: "Get issue links and dependencies for an issue",
+    schema: getIssueLinksSchema,
+    outputSchema: { issueId: z.string(), links: z.array(issueLinkSchema) },
+    handler: (params, { client }) => getIssueLinks(client, params)
+  },
+  {
+    name: "create-issue-link",
+    description: "Create a link between two issues (dependency, relation, subtask, etc.)",
+    schema: createIssueLinkSchema,
+    outputSchema: { link: issueLinkSchema, dryRun: dryRunOutputField },
+    handler: (params, { client }) => createIssueLink(client, params),
+    mutation: ({ issueId, targetIssue }) => ({ issueIds: [issueId, targetIssue] })
+  },
+  {
+    name: "delete-issue-link",
+    description: "Delete an issue link",
+    schema: deleteIssueLinkSchema,
+    outputSchema: { issueId: z.string(), linkId: z.string(), dryRun: dryRunOutputField },
+    handler: (params, { client }) => deleteIssueLink(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "get-link-types",
+    description: "Get available issue link types",
+    schema: getLinkTypesSchema,
+    outputSchema: { linkTypes: z.array(linkTypeSchema) },
+    handler: (params, { client }) => getLinkTypes(client, params)
+  }
+];
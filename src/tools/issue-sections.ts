@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { ISSUE_SECTIONS } from '../issue-fields.js';
+import { IssueSection, YouTrackIssue } from '../types.js';
+import { formatCustomFieldValue } from '../utils.js';
+
+/**
+ * Shared support for the `include` option of issue reads
+ */
+
+export const includeField = z.array(z.enum(ISSUE_SECTIONS as [IssueSection, ...IssueSection[]]))
+  .optional()
+  .describe('Parts of the issue to fetch and show besides its ID, summary, project, state, assignee and dates. ' +
+    'Fewer parts keep the response small. Omit for the default set');
+
+/**
+ * Longest description shown in issue lists
+ */
+const LIST_DESCRIPTION_LENGTH = 200;
+
+function formatSize(bytes?: number): string {
+  if (bytes === undefined) {
+    return '';
+  }
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Links as "depends on DEMO-1, DEMO-2" phrases
+ */
+function formatLinks(issue: YouTrackIssue): string[] {
+  return (issue.links || [])
+    .filter(link => link.issues?.length > 0)
+    .map(link => {
+      const phrase = link.direction === 'INWARD' ? link.linkType.targetToSource : link.linkType.sourceToTarget;
+      return `${phrase || link.linkType.name} ${link.issues.map(linked => linked.idReadable).join(', ')}`;
+    });
+}
+
+/**
+ * Format the included parts of an issue as sections of a single issue's details
+ */
+export function formatIssueSections(issue: YouTrackIssue, include: readonly IssueSection[]): string {
+  const sections: string[] = [];
+
+  for (const section of include) {
+    switch (section) {
+      case 'description':
+        sections.push(`**Description:**\n${issue.description || '(none)'}`);
+        break;
+      case 'customFields':
+        sections.push(`**Custom Fields:**\n` +
+          ((issue.customFields || []).map(field => `- ${field.name}: ${formatCustomFieldValue(field)}`).join('\n') || '(none)'));
+        break;
+      case 'tags':
+        sections.push(`**Tags:** ${(issue.tags || []).map(tag => tag.name).join(', ') || '(none)'}`);
+        break;
+      case 'comments': {
+        const comments = (issue.comments || []).filter(comment => !comment.deleted);
+        sections.push(`**Comments (${comments.length}):**` + comments.map(comment =>
+          `\n---\n**${comment.author?.fullName || comment.author?.login || 'Unknown'}** - ${new Date(comment.created).toLocaleString()}${comment.updated ? ' (edited)' : ''}\n${comment.text}`
+        ).join(''));
+        break;
+      }
+      case 'links': {
+        const links = formatLinks(issue);
+        sections.push(`**Links:**\n${links.map(link => `- ${link}`).join('\n') || '(none)'}`);
+        break;
+      }
+      case 'attachments': {
+        const attachments = issue.attachments || [];
+        sections.push(`**Attachments (${attachments.length}):**` + attachments.map(attachment =>
+          `\n- ${attachment.name}${attachment.size !== undefined ? ` (${formatSize(attachment.size)})` : ''}` +
+          `${attachment.author ? ` by ${attachment.author.fullName || attachment.author.login}` : ''}`
+        ).join(''));
+        break;
+      }
+      case 'timeTracking': {
+        const workItems = issue.timeTracking?.workItems || [];
+        const minutes = workItems.reduce((total, workItem) => total + (workItem.duration?.minutes || 0), 0);
+        sections.push(`**Time Tracking:** ${workItems.length} work item(s), ${minutes} minutes in total` + workItems.map(workItem =>
+          `\n- ${workItem.duration?.presentation || `${workItem.duration?.minutes}m`} on ${new Date(workItem.date).toLocaleDateString()}` +
+          ` by ${workItem.author?.fullName || workItem.author?.login || 'Unknown'}${workItem.description ? ` (${workItem.description})` : ''}`
+        ).join(''));
+        break;
+      }
+    }
+  }
+
+  return sections.length > 0 ? `\n\n${sections.join('\n\n')}` : '';
+}
+
+/**
+ * Format the included parts of an issue as indented lines of an issue list
+ */
+export function formatIssueSectionLines(issue: YouTrackIssue, include: readonly IssueSection[]): string {
+  const lines: string[] = [];
+
+  for (const section of include) {
+    switch (section) {
+      case 'description':
+        if (issue.description) {
+          lines.push(`Description: ${issue.description.length > LIST_DESCRIPTION_LENGTH ? `${issue.description.substring(0, LIST_DESCRIPTION_LENGTH)}...` : issue.description}`);
+        }
+        break;
+      case 'customFields':
+        lines.push(`Fields: ${(issue.customFields || []).map(field => `${field.name}=${formatCustomFieldValue(field)}`).join(', ') || '(none)'}`);
+        break;
+      case 'tags':
+        lines.push(`Tags: ${(issue.tags || []).map(tag => tag.name).join(', ') || '(none)'}`);
+        break;
+      case 'comments':
+        lines.push(`Comments: ${(issue.comments || []).filter(comment => !comment.deleted).length}`);
+        break;
+      case 'links':
+        lines.push(`Links: ${formatLinks(issue).join('; ') || '(none)'}`);
+        break;
+      case 'attachments':
+        lines.push(`Attachments: ${(issue.attachments || []).map(attachment => attachment.name).join(', ') || '(none)'}`);
+        break;
+      case 'timeTracking': {
+        const workItems = issue.timeTracking?.workItems || [];
+        const minutes = workItems.reduce((total, workItem) => total + (workItem.duration?.minutes || 0), 0);
+        lines.push(`Time Spent: ${minutes} minutes in ${workItems.length} work item(s)`);
+        break;
+      }
+    }
+  }
+
+  return lines.map(line => `\n  ${line}`).join('');
+}
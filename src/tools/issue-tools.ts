@@ -1,7 +1,15 @@
 ﻿import { z } from 'zod';
-import { YouTrackClient } from '../youtrack-client.js';
-import { CreateIssueRequest, UpdateIssueRequest, SearchIssuesRequest } from '../types.js';
+import { YouTrackClient, NEW_ISSUE_PLACEHOLDER } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
+import { dryRunField, dryRunOutputField, combineDryRunPreviews, formatDryRunPreview } from './dry-run.js';
+import { cursorField, formatPageFooter, toIssuePage } from './paging.js';
+import { issueLinkSchema, issuePageShape, issueSchema } from './output-schemas.js';
+import { includeField, formatIssueSections, formatIssueSectionLines } from './issue-sections.js';
+import { fitIssue, fitIssuePage } from './budget.js';
+import { CreateIssueRequest, UpdateIssueRequest, SearchIssuesRequest, CustomFieldMetadata, IssueSection, YouTrackIssue, YouTrackIssueLink } from '../types.js';
 import { formatDate, formatCustomFieldValue, formatApiError, delay } from '../utils.js';
+import { validateProjectFieldValues, formatFieldProblems, getProjectOfIssueId } from '../project-fields.js';
+import { fieldValueSchema } from '../field-writers.js';
 
 /**
  * MCP tools for YouTrack issue management
@@ -33,7 +41,8 @@ export const updateIssueSchema = z.object({
 });
 
 export const getIssueSchema = z.object({
-  issueId: z.string().describe('Issue ID (e.g., PROJECT-123)')
+  issueId: z.string().describe('Issue ID (e.g., PROJECT-123)'),
+  include: includeField
 });
 
 export const searchIssuesSchema = z.object({
@@ -42,7 +51,9 @@ export const searchIssuesSchema = z.object({
   assignee: z.string().optional().describe('Filter by assignee user ID or login'),
   state: z.string().optional().describe('Filter by state name'),
   limit: z.number().min(1).max(100).default(20).describe('Maximum number of issues to return'),
-  skip: z.number().min(0).default(0).describe('Number of issues to skip for pagination')
+  skip: z.number().min(0).default(0).describe('Number of issues to skip for pagination'),
+  include: includeField,
+  cursor: cursorField
 });
 
 export const getAllIssuesSchema = z.object({
@@ -50,7 +61,9 @@ export const getAllIssuesSchema = z.object({
   includeResolved: z.boolean().default(false).describe('Include resolved/closed issues'),
   onlyResolved: z.boolean().default(false).describe('Get only resolved/closed issues'),
   limit: z.number().min(1).max(500).default(100).describe('Maximum number of issues to return'),
-  skip: z.number().min(0).default(0).describe('Number of issues to skip for pagination')
+  skip: z.number().min(0).default(0).describe('Number of issues to skip for pagination'),
+  include: includeField,
+  cursor: cursorField
 });
 
 export const addCommentSchema = z.object({
@@ -147,7 +160,8 @@ export function buildCreateIssueSchema(customFields: Array<{ name: string; field
     description: z.string().optional().describe('Issue description'),
     parentIssue: z.string().optional().describe('Parent issue ID to create this as a subtask (e.g., PROJECT-123)'),
     // We allow an explicit customFields object as an escape hatch, though we prefer top-level args
-    customFields: z.record(z.any()).optional().describe('Explicit custom field values map (advanced usage)')
+    customFields: z.record(z.any()).optional().describe('Explicit custom field values map (advanced usage)'),
+    dryRun: dryRunField
   };
 
   const dynamicShape: Record<string, z.ZodTypeAny> = { ...baseSchema };
@@ -175,12 +189,7 @@ export function buildCreateIssueSchema(customFields: Array<{ name: string; field
     }
 
     // Map YouTrack types to Zod types
-    if (['integer', 'float', 'period'].includes(valueType)) {
-      dynamicShape[normalizedName] = z.number().optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
-    } else {
-      // Default to string for everything else (enums, users, states, dates, etc.)
-      dynamicShape[normalizedName] = z.string().optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
-    }
+    dynamicShape[normalizedName] = fieldValueSchema(field.fieldType).optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
   });
 
   return z.object(dynamicShape);
@@ -194,7 +203,7 @@ function mapDynamicParamsToCustomFields(
   metadata: Array<{ name: string; fieldType: { valueType: string } }>
 ): Record<string, any> {
   const mappedFields: Record<string, any> = {};
-  const standardKeys = ['project', 'summary', 'description', 'parentIssue', 'issueId', 'customFields'];
+  const standardKeys = ['project', 'summary', 'description', 'parentIssue', 'issueId', 'customFields', 'dryRun'];
 
   // Create a lookup map: normalizedName -> metadata
   const fieldLookup = new Map(metadata.map(f => [normalizeFieldName(f.name), f]));
@@ -206,32 +215,8 @@ function mapDynamicParamsToCustomFields(
     const fieldMeta = fieldLookup.get(key);
 
     if (fieldMeta) {
-      const { name, fieldType } = fieldMeta;
-      const type = fieldType.valueType.toLowerCase();
-
-      // Smart formatting based on type
-      if (type === 'period') {
-        // YouTrack expects period fields as { minutes: number }
-        mappedFields[name] = { minutes: value };
-      }
-      else if (type.startsWith('user')) {
-        // Users are set by ID or login usually, needs wrapping if string
-        mappedFields[name] = { id: value }; // YouTrackClient usually handles this, but being explicit is good
-      }
-      else if (type === 'date' || type === 'date and time') {
-        mappedFields[name] = value;
-      }
-      else if (['integer', 'float', 'string', 'text'].includes(type)) {
-        // Simple scalar values
-        mappedFields[name] = value;
-      }
-      else {
-        // Enums, States, Builds, Versions, etc. usually expect { name: "Value" }
-        // The YouTrackClient's mergeCustomFields also does this, but we can prepare it here.
-        // However, passing just the value relies on YouTrackClient to wrap it in {name: ...}
-        // which it does for unknown types.
-        mappedFields[name] = value;
-      }
+      // Map to the real field name; YouTrackClient writes the value with the field's $type
+      mappedFields[fieldMeta.name] = value;
     } else {
       // Fallback: If passed a param that isn't in metadata but was in the input (maybe from a loose schema?),
       // pass it through. This supports fields we might have missed in metadata fetch.
@@ -254,7 +239,7 @@ function mapDynamicParamsToCustomFields(
 export async function createIssue(
   client: YouTrackClient,
   params: Record<string, any>,
-  fieldMetadata: Array<{ name: string; fieldType: { valueType: string } }> = []
+  fieldMetadata: CustomFieldMetadata[] = []
 ) {
   try {
     // Separate standard fields
@@ -274,23 +259,49 @@ export async function createIssue(
       delete customFields['Type'];
     }
 
+    const problems = validateProjectFieldValues(fieldMetadata, params.project, customFields, { creating: true });
+    if (problems.length > 0) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Failed to create issue: ${formatFieldProblems(problems)}`
+          }
+        ],
+        isError: true
+      };
+    }
+
     // Assign mapped custom fields
     if (Object.keys(customFields).length > 0) {
       createRequest.customFields = customFields;
     }
 
+    if (params.dryRun) {
+      const previews = [await client.previewCreateIssue(createRequest)];
+      if (params.parentIssue) {
+        previews.push(await client.previewCreateIssueLink(NEW_ISSUE_PLACEHOLDER, {
+          linkType: 'Subtask of',
+          targetIssue: params.parentIssue,
+          direction: 'OUTWARD'
+        }));
+      }
+      return formatDryRunPreview(combineDryRunPreviews(previews[0].action, previews));
+    }
+
     const issue = await client.createIssue(createRequest);
 
     // If parentIssue is specified, create a subtask relationship
     let linkInfo = '';
+    let parentLink: YouTrackIssueLink | undefined;
     if (params.parentIssue) {
       try {
-        const link = await client.createIssueLink(issue.idReadable, {
+        parentLink = await client.createIssueLink(issue.idReadable, {
           linkType: 'Subtask of',
           targetIssue: params.parentIssue,
           direction: 'OUTWARD'
         });
-        linkInfo = `\n**Parent Issue:** ${params.parentIssue}\n**Link ID:** ${link.id}`;
+        linkInfo = `\n**Parent Issue:** ${params.parentIssue}\n**Link ID:** ${parentLink.id}`;
       } catch (linkError: any) {
         // Issue was created but linking failed - report both
         return {
@@ -304,6 +315,7 @@ export async function createIssue(
                 `❌ **Subtask Link Failed:** ${linkError.message}\n`
             }
           ],
+          structuredContent: { issue },
           isError: true
         };
       }
@@ -319,7 +331,8 @@ export async function createIssue(
             `**Created:** ${new Date(issue.created).toLocaleString()}${linkInfo}\n` +
             (issue.description ? `\n**Description:**\n${issue.description}` : '')
         }
-      ]
+      ],
+      structuredContent: { issue, parentLink }
     };
   } catch (error: any) {
     return {
@@ -334,40 +347,55 @@ export async function createIssue(
   }
 }
 
+/**
+ * Format the details of an issue: the parts in `include`, or the description and comments
+ */
+function formatIssueDetails(client: YouTrackClient, issue: YouTrackIssue, include?: IssueSection[]): string {
+  const header = `**${issue.idReadable}** - ${issue.summary}\n` +
+    `**Project:** ${issue.project.name} (${issue.project.shortName})\n` +
+    `**State:** ${issue.customFields?.find(f => f.name === client.getFieldName('State'))?.value?.name || 'Unknown'}\n` +
+    `**Assignee:** ${issue.assignee?.fullName || 'Unassigned'}\n` +
+    `**Priority:** ${issue.customFields?.find(f => f.name === client.getFieldName('Priority'))?.value?.name || 'Unknown'}\n` +
+    `**Created:** ${new Date(issue.created).toLocaleString()}\n` +
+    `**Updated:** ${new Date(issue.updated).toLocaleString()}`;
+
+  if (include) {
+    return header + formatIssueSections(issue, include);
+  }
+
+  // Format comments if present
+  let commentsSection = '';
+  if (issue.comments && issue.comments.length > 0) {
+    const activeComments = issue.comments.filter(c => !c.deleted);
+    if (activeComments.length > 0) {
+      commentsSection = `\n\n**Comments (${activeComments.length}):**\n` +
+        activeComments.map(c =>
+          `---\n**${c.author?.fullName || c.author?.login || 'Unknown'}** - ${new Date(c.created).toLocaleString()}${c.updated ? ' (edited)' : ''}\n${c.text}`
+        ).join('\n');
+    }
+  }
+
+  return `${header}\n` +
+    (issue.description ? `\n**Description:**\n${issue.description}` : '') +
+    commentsSection;
+}
+
 /**
  * Get issue details by ID
  */
-export async function getIssue(client: YouTrackClient, params: z.infer<typeof getIssueSchema>) {
+export async function getIssue(client: YouTrackClient, params: z.infer<typeof getIssueSchema>, maxOutputTokens?: number) {
   try {
-    const issue = await client.getIssue(params.issueId);
-
-    // Format comments if present
-    let commentsSection = '';
-    if (issue.comments && issue.comments.length > 0) {
-      const activeComments = issue.comments.filter(c => !c.deleted);
-      if (activeComments.length > 0) {
-        commentsSection = `\n\n**Comments (${activeComments.length}):**\n` +
-          activeComments.map(c =>
-            `---\n**${c.author?.fullName || c.author?.login || 'Unknown'}** - ${new Date(c.created).toLocaleString()}${c.updated ? ' (edited)' : ''}\n${c.text}`
-          ).join('\n');
-      }
-    }
+    const fetched = await client.getIssue(params.issueId, params.include);
+    const { issue, text, truncated } = fitIssue(fetched, maxOutputTokens, issue => formatIssueDetails(client, issue, params.include));
 
     return {
       content: [
         {
           type: "text" as const,
-          text: `**${issue.idReadable}** - ${issue.summary}\n` +
-            `**Project:** ${issue.project.name} (${issue.project.shortName})\n` +
-            `**State:** ${issue.customFields?.find(f => f.name === 'State')?.value?.name || 'Unknown'}\n` +
-            `**Assignee:** ${issue.assignee?.fullName || 'Unassigned'}\n` +
-            `**Priority:** ${issue.customFields?.find(f => f.name === 'Priority')?.value?.name || 'Unknown'}\n` +
-            `**Created:** ${new Date(issue.created).toLocaleString()}\n` +
-            `**Updated:** ${new Date(issue.updated).toLocaleString()}\n` +
-            (issue.description ? `\n**Description:**\n${issue.description}` : '') +
-            commentsSection
+          text
         }
-      ]
+      ],
+      structuredContent: { issue, ...(truncated && { truncated }) }
     };
   } catch (error: any) {
     return {
@@ -390,7 +418,8 @@ export function buildUpdateIssueSchema(customFields: Array<{ name: string; field
     issueId: z.string().describe('Issue ID (e.g., PROJECT-123)'),
     summary: z.string().optional().describe('New issue summary/title'),
     description: z.string().optional().describe('New issue description'),
-    customFields: z.record(z.any()).optional().describe('Explicit custom field values map')
+    customFields: z.record(z.any()).optional().describe('Explicit custom field values map'),
+    dryRun: dryRunField
   };
 
   const dynamicShape: Record<string, z.ZodTypeAny> = { ...baseSchema };
@@ -417,11 +446,7 @@ export function buildUpdateIssueSchema(customFields: Array<{ name: string; field
       return;
     }
 
-    if (['integer', 'float', 'period'].includes(valueType)) {
-      dynamicShape[normalizedName] = z.number().optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
-    } else {
-      dynamicShape[normalizedName] = z.string().optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
-    }
+    dynamicShape[normalizedName] = fieldValueSchema(field.fieldType).optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
   });
 
   return z.object(dynamicShape);
@@ -433,11 +458,26 @@ export function buildUpdateIssueSchema(customFields: Array<{ name: string; field
 export async function updateIssue(
   client: YouTrackClient,
   params: Record<string, any>,
-  fieldMetadata: Array<{ name: string; fieldType: { valueType: string } }> = []
+  fieldMetadata: CustomFieldMetadata[] = []
 ) {
   try {
     const customFields = mapDynamicParamsToCustomFields(params, fieldMetadata);
 
+    // The project is only known without an API call for readable issue IDs
+    const project = getProjectOfIssueId(params.issueId);
+    const problems = project ? validateProjectFieldValues(fieldMetadata, project, customFields, { creating: false }) : [];
+    if (problems.length > 0) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Failed to update issue: ${formatFieldProblems(problems)}`
+          }
+        ],
+        isError: true
+      };
+    }
+
     const updateRequest: UpdateIssueRequest = {
       summary: params.summary,
       description: params.description,
@@ -445,6 +485,10 @@ export async function updateIssue(
       customFields: Object.keys(customFields).length > 0 ? customFields : undefined
     };
 
+    if (params.dryRun) {
+      return formatDryRunPreview(await client.previewUpdateIssue(params.issueId, updateRequest));
+    }
+
     const issue = await client.updateIssue(params.issueId, updateRequest);
 
     // Add small delay to handle API eventual consistency
@@ -459,7 +503,8 @@ export async function updateIssue(
             `**Project:** ${issue.project.name} (${issue.project.shortName})\n` +
             `**Updated:** ${formatDate(issue.updated)}\n`
         }
-      ]
+      ],
+      structuredContent: { issue }
     };
   } catch (error: any) {
     return {
@@ -477,7 +522,7 @@ export async function updateIssue(
 /**
  * Search issues
  */
-export async function searchIssues(client: YouTrackClient, params: z.infer<typeof searchIssuesSchema>) {
+export async function searchIssues(client: YouTrackClient, params: z.infer<typeof searchIssuesSchema>, maxOutputTokens?: number) {
   try {
     const searchRequest: SearchIssuesRequest = {
       query: params.query,
@@ -485,10 +530,11 @@ export async function searchIssues(client: YouTrackClient, params: z.infer<typeo
       assignee: params.assignee,
       state: params.state,
       limit: params.limit,
-      skip: params.skip
+      skip: params.skip,
+      include: params.include
     };
 
-    const result = await client.searchIssues(searchRequest);
+    const result = await client.searchIssuesPage(searchRequest, params.cursor);
 
     if (result.items.length === 0) {
       return {
@@ -497,34 +543,41 @@ export async function searchIssues(client: YouTrackClient, params: z.infer<typeo
             type: "text" as const,
             text: "No issues found matching the search criteria."
           }
-        ]
+        ],
+        structuredContent: toIssuePage(result)
       };
     }
 
-    const issuesText = result.items.map(issue => {
-      // Extract story points from custom fields if available
-      let storyPointsText = '';
-      if (issue.customFields) {
-        const storyPointsField = issue.customFields.find(field => field.name === 'Story Points');
-        if (storyPointsField && storyPointsField.value) {
-          storyPointsText = `\n  Story Points: ${storyPointsField.value}`;
+    const { page, text } = fitIssuePage(result, maxOutputTokens, page => {
+      const issuesText = page.items.map(issue => {
+        // Extract story points from custom fields if available
+        let storyPointsText = '';
+        if (issue.customFields) {
+          const storyPointsField = issue.customFields.find(field => field.name === client.getFieldName('Story Points'));
+          if (storyPointsField && storyPointsField.value) {
+            storyPointsText = `\n  Story Points: ${storyPointsField.value}`;
+          }
         }
-      }
 
-      return `**${issue.idReadable}** - ${issue.summary}\n` +
-        `  Project: ${issue.project.shortName}\n` +
-        `  Assignee: ${issue.assignee?.fullName || 'Unassigned'}\n` +
-        `  Updated: ${new Date(issue.updated).toLocaleString()}` +
-        storyPointsText;
-    }).join('\n\n');
+        return `**${issue.idReadable}** - ${issue.summary}\n` +
+          `  Project: ${issue.project.shortName}\n` +
+          `  Assignee: ${issue.assignee?.fullName || 'Unassigned'}\n` +
+          `  Updated: ${new Date(issue.updated).toLocaleString()}` +
+          storyPointsText +
+          (params.include ? formatIssueSectionLines(issue, params.include) : '');
+      }).join('\n\n');
+
+      return `Found ${page.items.length} issue(s)${page.hasMore ? ' (more available)' : ''}:\n\n${issuesText}${formatPageFooter(page)}`;
+    });
 
     return {
       content: [
         {
           type: "text" as const,
-          text: `Found ${result.items.length} issue(s)${result.hasMore ? ' (more available)' : ''}:\n\n${issuesText}`
+          text
         }
-      ]
+      ],
+      structuredContent: toIssuePage(page)
     };
   } catch (error: any) {
     return {
@@ -542,7 +595,7 @@ export async function searchIssues(client: YouTrackClient, params: z.infer<typeo
 /**
  * Get all issues for a project
  */
-export async function getAllIssues(client: YouTrackClient, params: z.infer<typeof getAllIssuesSchema>) {
+export async function getAllIssues(client: YouTrackClient, params: z.infer<typeof getAllIssuesSchema>, maxOutputTokens?: number) {
   try {
     // Build query string for project filtering
     let query = `project: ${params.project}`;
@@ -558,10 +611,11 @@ export async function getAllIssues(client: YouTrackClient, params: z.infer<typeo
     const searchRequest: SearchIssuesRequest = {
       query,
       limit: params.limit,
-      skip: params.skip
+      skip: params.skip,
+      include: params.include
     };
 
-    const result = await client.searchIssues(searchRequest);
+    const result = await client.searchIssuesPage(searchRequest, params.cursor);
 
     if (result.items.length === 0) {
       return {
@@ -570,40 +624,43 @@ export async function getAllIssues(client: YouTrackClient, params: z.infer<typeo
             type: "text" as const,
             text: `No issues found in project ${params.project}.`
           }
-        ]
+        ],
+        structuredContent: toIssuePage(result)
       };
     }
 
-    const issuesText = result.items.map(issue => {
-      // Extract state from custom fields
-      const stateField = issue.customFields?.find(f => f.name === 'State' || f.name === 'Stage');
-      const state = stateField?.value?.name || 'Unknown';
+    const { page, text } = fitIssuePage(result, maxOutputTokens, page => {
+      const issuesText = page.items.map(issue => {
+        // Extract state from custom fields
+        const stateField = issue.customFields?.find(f => f.name === client.getFieldName('State'));
+        const state = stateField?.value?.name || 'Unknown';
 
-      // Extract priority from custom fields
-      const priorityField = issue.customFields?.find(f => f.name === 'Priority');
-      const priority = priorityField?.value?.name || '-';
+        // Extract priority from custom fields
+        const priorityField = issue.customFields?.find(f => f.name === client.getFieldName('Priority'));
+        const priority = priorityField?.value?.name || '-';
 
-      // Extract story points from custom fields
-      const storyPointsField = issue.customFields?.find(field => field.name === 'Story Points');
-      const storyPoints = storyPointsField?.value ? ` (${storyPointsField.value} SP)` : '';
+        // Extract story points from custom fields
+        const storyPointsField = issue.customFields?.find(field => field.name === client.getFieldName('Story Points'));
+        const storyPoints = storyPointsField?.value ? ` (${storyPointsField.value} SP)` : '';
 
-      return `**${issue.idReadable}** - ${issue.summary}\n` +
-        `  State: ${state} | Priority: ${priority}${storyPoints}\n` +
-        `  Assignee: ${issue.assignee?.fullName || 'Unassigned'}\n` +
-        `  Updated: ${new Date(issue.updated).toLocaleString()}`;
-    }).join('\n\n');
+        return `**${issue.idReadable}** - ${issue.summary}\n` +
+          `  State: ${state} | Priority: ${priority}${storyPoints}\n` +
+          `  Assignee: ${issue.assignee?.fullName || 'Unassigned'}\n` +
+          `  Updated: ${new Date(issue.updated).toLocaleString()}` +
+          (params.include ? formatIssueSectionLines(issue, params.include) : '');
+      }).join('\n\n');
 
-    const paginationInfo = result.hasMore
-      ? `\n\n---\n_Showing ${params.skip + 1}-${params.skip + result.items.length} issues. More available with skip=${params.skip + params.limit}_`
-      : '';
+      return `**Project ${params.project}**: Found ${page.items.length} issue(s)${page.totalCount ? ` of ${page.totalCount} total` : ''}${page.hasMore ? ' (more available)' : ''}:\n\n${issuesText}${formatPageFooter(page)}`;
+    });
 
     return {
       content: [
         {
           type: "text" as const,
-          text: `**Project ${params.project}**: Found ${result.items.length} issue(s)${result.totalCount ? ` of ${result.totalCount} total` : ''}${result.hasMore ? ' (more available)' : ''}:\n\n${issuesText}${paginationInfo}`
+          text
         }
-      ]
+      ],
+      structuredContent: toIssuePage(page)
     };
   } catch (error: any) {
     return {
@@ -631,7 +688,8 @@ export async function addComment(client: YouTrackClient, params: z.infer<typeof
           type: "text" as const,
           text: `Successfully added comment to issue ${params.issueId}`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId }
     };
   } catch (error: any) {
     return {
@@ -663,7 +721,8 @@ export async function deleteIssue(client: YouTrackClient, params: z.infer<typeof
             `**This action cannot be undone!**\n\n` +
             `All associated data including comments, attachments, time tracking, and links have been removed.`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, deleted: true }
     };
   } catch (error: any) {
     return {
@@ -677,3 +736,62 @@ export async function deleteIssue(client: YouTrackClient, params: z.infer<typeof
     };
   }
 }
+
+/**
+ * Issue management tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "create-issue",
+    description: "Create a new issue in YouTrack (optionally as a subtask)",
+    schema: ({ customFields }) => buildCreateIssueSchema(customFields),
+    outputSchema: { issue: issueSchema, parentLink: issueLinkSchema.optional().describe('Link to the parent issue, for subtasks'), dryRun: dryRunOutputField },
+    handler: (params, { client, customFields }) => createIssue(client, params, customFields),
+    mutation: ({ project, parentIssue }) => ({ projects: [project], issueIds: [parentIssue] })
+  },
+  {
+    name: "get-issue",
+    description: "Get issue details by ID",
+    schema: getIssueSchema,
+    outputSchema: { issue: issueSchema },
+    handler: (params, { client, maxOutputTokens }) => getIssue(client, params, maxOutputTokens)
+  },
+  {
+    name: "get-all-issues",
+    description: "Get all issues for a project with pagination support",
+    schema: getAllIssuesSchema,
+    outputSchema: issuePageShape,
+    handler: (params, { client, maxOutputTokens }) => getAllIssues(client, params, maxOutputTokens)
+  },
+  {
+    name: "search-issues",
+    description: "Search issues with basic filters",
+    schema: searchIssuesSchema,
+    outputSchema: issuePageShape,
+    handler: (params, { client, maxOutputTokens }) => searchIssues(client, params, maxOutputTokens)
+  },
+  {
+    name: "update-issue",
+    description: "Update an existing issue",
+    schema: ({ customFields }) => buildUpdateIssueSchema(customFields),
+    outputSchema: { issue: issueSchema, dryRun: dryRunOutputField },
+    handler: (params, { client, customFields }) => updateIssue(client, params, customFields),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "add-comment",
+    description: "Add a comment to an issue",
+    schema: addCommentSchema,
+    outputSchema: { issueId: z.string() },
+    handler: (params, { client }) => addComment(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "delete-issue",
+    description: "Delete an issue permanently - WARNING: This operation cannot be undone!",
+    schema: deleteIssueSchema,
+    outputSchema: { issueId: z.string(), deleted: z.boolean() },
+    handler: (params, { client }) => deleteIssue(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  }
+];
@@ -0,0 +1,185 @@
+import { z } from 'zod';
+
+/**
+ * Schemas of the structured content tools return.
+ *
+ * Entities are YouTrack's own JSON, so the schemas name the attributes agents
+ * rely on and let any others through. Attributes YouTrack may return as null
+ * are nullable.
+ */
+
+const periodSchema = z.object({
+  minutes: z.number(),
+  presentation: z.string().nullish()
+}).passthrough();
+
+const namedValueSchema = z.object({
+  name: z.string()
+}).passthrough();
+
+export const userSchema = z.object({
+  id: z.string(),
+  login: z.string().nullish(),
+  fullName: z.string().nullish(),
+  email: z.string().nullish()
+}).passthrough();
+
+export const projectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  shortName: z.string(),
+  description: z.string().nullish(),
+  archived: z.boolean().nullish(),
+  leader: userSchema.nullish()
+}).passthrough();
+
+const projectRefSchema = z.object({
+  id: z.string().nullish(),
+  name: z.string().nullish(),
+  shortName: z.string().nullish()
+}).passthrough();
+
+export const issueRefSchema = z.object({
+  id: z.string().nullish(),
+  idReadable: z.string(),
+  summary: z.string().nullish()
+}).passthrough();
+
+export const commentSchema = z.object({
+  id: z.string(),
+  text: z.string().nullish(),
+  author: userSchema.nullish(),
+  created: z.number().nullish(),
+  updated: z.number().nullish()
+}).passthrough();
+
+export const workItemSchema = z.object({
+  id: z.string(),
+  date: z.number().nullish(),
+  duration: periodSchema.nullish(),
+  author: userSchema.nullish(),
+  description: z.string().nullish(),
+  type: namedValueSchema.nullish()
+}).passthrough();
+
+export const linkTypeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  sourceToTarget: z.string().nullish(),
+  targetToSource: z.string().nullish(),
+  directed: z.boolean().nullish()
+}).passthrough();
+
+export const issueLinkSchema = z.object({
+  id: z.string(),
+  direction: z.string(),
+  linkType: linkTypeSchema,
+  issues: z.array(issueRefSchema)
+}).passthrough();
+
+export const issueSchema = z.object({
+  id: z.string(),
+  idReadable: z.string(),
+  summary: z.string().nullish(),
+  description: z.string().nullish(),
+  project: projectRefSchema.nullish(),
+  reporter: userSchema.nullish(),
+  assignee: userSchema.nullish(),
+  created: z.number().nullish(),
+  updated: z.number().nullish(),
+  resolved: z.number().nullish(),
+  customFields: z.array(z.object({ name: z.string(), value: z.any() }).passthrough()).nullish(),
+  tags: z.array(namedValueSchema).nullish(),
+  comments: z.array(commentSchema).nullish(),
+  links: z.array(issueLinkSchema).nullish(),
+  attachments: z.array(z.object({ id: z.string(), name: z.string() }).passthrough()).nullish(),
+  timeTracking: z.object({ workItems: z.array(workItemSchema) }).passthrough().nullish()
+}).passthrough();
+
+/**
+ * A page of search results
+ */
+export const issuePageShape = {
+  issues: z.array(issueSchema),
+  hasMore: z.boolean().nullish(),
+  totalCount: z.number().nullish(),
+  nextCursor: z.string().nullish().describe('Pass as `cursor` to get the next page')
+};
+
+export const timeTrackingSummarySchema = z.object({
+  estimation: periodSchema.nullish(),
+  spentTime: periodSchema.nullish(),
+  workItems: z.array(workItemSchema)
+}).passthrough();
+
+export const subtaskSchema = z.object({
+  id: z.string(),
+  idReadable: z.string(),
+  summary: z.string(),
+  assignee: userSchema.nullish(),
+  state: namedValueSchema.nullish(),
+  priority: namedValueSchema.nullish(),
+  resolved: z.number().nullish(),
+  storyPoints: z.number().nullish(),
+  parentIssue: issueRefSchema.nullish()
+}).passthrough();
+
+export const ganttTaskSchema = z.object({
+  id: z.string(),
+  idReadable: z.string(),
+  summary: z.string(),
+  project: projectRefSchema,
+  assignee: userSchema.nullish(),
+  startDate: z.number().nullish(),
+  dueDate: z.number().nullish(),
+  progress: z.number().nullish(),
+  estimation: periodSchema.nullish(),
+  spentTime: periodSchema.nullish(),
+  state: namedValueSchema.nullish(),
+  dependencies: z.array(z.object({ type: z.string(), targetTaskIdReadable: z.string() }).passthrough())
+}).passthrough();
+
+export const ganttConflictSchema = z.object({
+  type: z.string(),
+  taskIds: z.array(z.string()),
+  description: z.string(),
+  severity: z.enum(['low', 'medium', 'high'])
+});
+
+export const ganttChartSchema = z.object({
+  project: projectRefSchema,
+  tasks: z.array(ganttTaskSchema),
+  milestones: z.array(z.object({ name: z.string(), date: z.number() }).passthrough()),
+  timeline: z.object({ startDate: z.number(), endDate: z.number(), duration: z.number() }),
+  conflicts: z.array(ganttConflictSchema),
+  metadata: z.object({
+    totalTasks: z.number(),
+    completedTasks: z.number(),
+    overdueTasks: z.number()
+  }).passthrough()
+}).passthrough();
+
+export const criticalPathSchema = z.object({
+  path: z.array(z.string()),
+  duration: z.number().describe('Days'),
+  tasks: z.array(z.object({
+    idReadable: z.string(),
+    summary: z.string(),
+    duration: z.number(),
+    slack: z.number()
+  }).passthrough())
+});
+
+export const dryRunPreviewSchema = z.object({
+  action: z.string(),
+  requests: z.array(z.object({ method: z.string(), path: z.string(), body: z.any() })),
+  changes: z.array(z.object({ field: z.string(), before: z.any(), after: z.any() })),
+  notes: z.array(z.string()).nullish()
+});
+
+export const ambiguitySchema = z.object({
+  kind: z.enum(['project', 'user', 'linkType']),
+  field: z.string().nullish(),
+  value: z.string(),
+  options: z.array(z.object({ value: z.string(), label: z.string() }))
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { YouTrackIssue, YouTrackSearchResult } from '../types.js';
+
+/**
+ * Shared support for the `cursor` option of search tools
+ */
+
+export const cursorField = z.string()
+  .optional()
+  .describe('Cursor from the previous page to get the next one. The search is taken from the cursor, so filters are ignored; limit and include still apply');
+
+/**
+ * Notes appended to a page of results: where to continue, and whether results changed between pages
+ */
+export function formatPageFooter(result: YouTrackSearchResult<unknown>): string {
+  const notes = [
+    result.shifted ? '_Results changed since the previous page; some issues may be repeated or missing._' : '',
+    result.nextCursor ? `_More issues available. Get the next page with cursor="${result.nextCursor}"_` : ''
+  ].filter(note => note);
+
+  return notes.length > 0 ? `\n\n---\n${notes.join('\n')}` : '';
+}
+
+/**
+ * Structured content of a page of issues, matching `issuePageShape`
+ */
+export function toIssuePage(result: YouTrackSearchResult<YouTrackIssue>) {
+  return {
+    issues: result.items,
+    hasMore: result.hasMore,
+    totalCount: result.totalCount,
+    nextCursor: result.nextCursor,
+    truncated: result.truncated
+  };
+}
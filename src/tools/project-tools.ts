@@ -1,6 +1,10 @@
 ﻿import { z } from 'zod';
 import { YouTrackClient } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
+import { projectSchema } from './output-schemas.js';
 import { formatDate, formatApiError } from '../utils.js';
+import { getProjectFields, ProjectField } from '../project-fields.js';
+import { CustomFieldMetadata } from '../types.js';
 
 /**
  * MCP tools for YouTrack project management
@@ -14,6 +18,19 @@ export const listProjectsSchema = z.object({
   includeArchived: z.boolean().default(false).describe('Include archived projects in the results')
 });
 
+export const describeProjectFieldsSchema = z.object({
+  project: z.string().describe('Project ID or short name')
+});
+
+const projectFieldSchema = z.object({
+  name: z.string(),
+  valueType: z.string(),
+  canBeEmpty: z.boolean(),
+  required: z.boolean(),
+  defaultValues: z.array(z.string()),
+  values: z.array(z.string()).optional().describe('Allowed values, for bundle fields')
+});
+
 /**
  * List all projects
  */
@@ -33,7 +50,8 @@ export async function listProjects(client: YouTrackClient, params: z.infer<typeo
             type: "text" as const,
             text: "No projects found."
           }
-        ]
+        ],
+        structuredContent: { projects: [] }
       };
     }
 
@@ -54,7 +72,8 @@ export async function listProjects(client: YouTrackClient, params: z.infer<typeo
           type: "text" as const,
           text: `Found ${filteredProjects.length} project(s):\n\n${projectsText}`
         }
-      ]
+      ],
+      structuredContent: { projects: filteredProjects }
     };
   } catch (error: any) {
     return {
@@ -95,7 +114,8 @@ export async function getProject(client: YouTrackClient, params: z.infer<typeof
                 `**Updated:** ${formatDate(project.updated)}` +
                 description
         }
-      ]
+      ],
+      structuredContent: { project }
     };
   } catch (error: any) {
     return {
@@ -109,3 +129,74 @@ export async function getProject(client: YouTrackClient, params: z.infer<typeof
     };
   }
 }
+
+function formatProjectField(field: ProjectField): string {
+  const details = [
+    field.required ? 'required' : field.canBeEmpty ? 'optional' : 'cannot be empty',
+    field.defaultValues.length > 0 ? `default: ${field.defaultValues.join(', ')}` : ''
+  ].filter(detail => detail);
+
+  return `- **${field.name}** (${field.valueType}, ${details.join(', ')})` +
+    (field.values ? `\n  Values: ${field.values.join(', ') || 'none'}` : '');
+}
+
+/**
+ * Describe the custom fields of a project: types, required fields, defaults and allowed values
+ */
+export async function describeProjectFields(customFields: CustomFieldMetadata[], params: z.infer<typeof describeProjectFieldsSchema>) {
+  const fields = getProjectFields(customFields, params.project);
+
+  if (!fields) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `No custom fields found for project ${params.project}. Check the project ID or short name; ` +
+            `if the project or its fields were added recently, call refresh-schema first.`
+        }
+      ],
+      isError: true
+    };
+  }
+
+  const required = fields.filter(field => field.required).map(field => field.name);
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `**Custom fields of ${params.project}** (${fields.length}):\n\n` +
+          fields.map(formatProjectField).join('\n') +
+          `\n\n**Required when creating issues:** ${required.length > 0 ? required.join(', ') : 'none'}`
+      }
+    ],
+    structuredContent: { project: params.project, fields }
+  };
+}
+
+/**
+ * Project management tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "list-projects",
+    description: "List all projects",
+    schema: listProjectsSchema,
+    outputSchema: { projects: z.array(projectSchema) },
+    handler: (params, { client }) => listProjects(client, params)
+  },
+  {
+    name: "get-project",
+    description: "Get project details by ID or short name",
+    schema: getProjectSchema,
+    outputSchema: { project: projectSchema },
+    handler: (params, { client }) => getProject(client, params)
+  },
+  {
+    name: "describe-project-fields",
+    description: "Describe the custom fields of a project: type, whether they are required, default values and the exact values allowed in the project",
+    schema: describeProjectFieldsSchema,
+    outputSchema: { project: z.string(), fields: z.array(projectFieldSchema) },
+    handler: (params, { customFields }) => describeProjectFields(customFields, params)
+  }
+];
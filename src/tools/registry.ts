@@ -0,0 +1,344 @@
+import { readdir } from 'node:fs/promises';
+import { dirname, extname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { z } from 'zod';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { CallToolResult, ElicitResultSchema, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { YouTrackClient } from '../youtrack-client.js';
+import { YouTrackInstances } from '../instances.js';
+import { MutationTarget, ToolPolicy } from '../policy.js';
+import { AuditLog, runWithAuditContext } from '../audit.js';
+import { CallControl, runWithCallControl } from '../call-control.js';
+import { ChangeJournal } from '../undo.js';
+import { LogSink, createLogger, runWithLogSink } from '../logger.js';
+import { SchemaRefresher } from '../schema-refresh.js';
+import { CustomFieldMetadata, ProfileSettings } from '../types.js';
+import { formatApiError } from '../utils.js';
+import { formatToolResult } from '../output-format.js';
+import { fitStructuredContent, fitText, maxOutputTokensField, omittedItemsSchema } from './budget.js';
+import { ambiguitySchema } from './output-schemas.js';
+
+const log = createLogger('registry');
+
+/**
+ * Central registry for MCP tools.
+ *
+ * Every `*-tools` module in this directory exports a `tools` array of
+ * ToolDefinitions. The registry discovers those modules at startup, so a
+ * module cannot be added without its tools being registered.
+ */
+
+/**
+ * Shared state passed to every tool handler, scoped to the YouTrack instance
+ * selected by the tool's `instance` argument
+ */
+export interface ToolContext {
+  instance: string;
+  client: YouTrackClient;
+  customFields: CustomFieldMetadata[];
+  settings: ProfileSettings;
+  auditLog?: AuditLog; // Unset when the audit log is disabled
+  changes: ChangeJournal; // Changes made in this session, for undo
+  schemaRefresher: SchemaRefresher;
+  maxOutputTokens?: number; // Output budget of this call, unset for no limit
+}
+
+/**
+ * State available when building tool schemas. Schemas are shared by all
+ * instances, so custom fields are merged across instances.
+ */
+export interface SchemaContext {
+  customFields: CustomFieldMetadata[];
+  settings: ProfileSettings;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /**
+   * Input schema, or a builder for schemas that depend on custom field metadata
+   */
+  schema: z.AnyZodObject | ((context: SchemaContext) => z.AnyZodObject);
+  /**
+   * Shape of the `structuredContent` the handler returns next to its text
+   */
+  outputSchema: z.ZodRawShape;
+  handler: (params: any, context: ToolContext) => CallToolResult | Promise<CallToolResult>;
+  /**
+   * Set on tools that change YouTrack data: returns the issues and projects a call
+   * modifies so the tool policy can check them. Tools without it are read-only.
+   */
+  mutation?: (params: any) => MutationTarget;
+}
+
+/**
+ * Server-wide state shared by all registered tools
+ */
+export interface ToolRuntime {
+  instances: YouTrackInstances;
+  settings: ProfileSettings;
+  policy: ToolPolicy;
+  auditLog?: AuditLog;
+  schemaRefresher: SchemaRefresher;
+}
+
+const TOOL_MODULE_SUFFIX = '-tools';
+
+/**
+ * How long the user has to answer a question asked during a tool call (ms)
+ */
+const ELICITATION_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Discover all tool modules and collect their tool definitions
+ */
+export async function loadToolDefinitions(): Promise<ToolDefinition[]> {
+  const registryPath = fileURLToPath(import.meta.url);
+  const toolsDir = dirname(registryPath);
+  // Modules have the registry's extension: .js when built, .ts when the tests run the sources
+  const moduleSuffix = `${TOOL_MODULE_SUFFIX}${extname(registryPath)}`;
+  const moduleFiles = (await readdir(toolsDir))
+    .filter(file => file.endsWith(moduleSuffix))
+    .sort();
+
+  const definitions: ToolDefinition[] = [];
+  const seenNames = new Map<string, string>();
+
+  for (const file of moduleFiles) {
+    const toolModule = await import(pathToFileURL(join(toolsDir, file)).href);
+
+    if (!Array.isArray(toolModule.tools) || toolModule.tools.length === 0) {
+      throw new Error(`Tool module ${file} must export a non-empty "tools" array`);
+    }
+
+    for (const definition of toolModule.tools as ToolDefinition[]) {
+      const existingModule = seenNames.get(definition.name);
+      if (existingModule) {
+        throw new Error(`Duplicate tool name "${definition.name}" in ${file} (already defined in ${existingModule})`);
+      }
+      seenNames.set(definition.name, file);
+      definitions.push(definition);
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * Resolve the input schema of a tool for the given context
+ */
+export function resolveToolSchema(definition: ToolDefinition, context: SchemaContext): z.AnyZodObject {
+  return typeof definition.schema === 'function' ? definition.schema(context) : definition.schema;
+}
+
+/**
+ * Profile defaults for tool arguments: a required `project` argument falls back to
+ * the profile's default project, and an unset `timezone` to the profile's timezone
+ */
+function getArgumentDefaults(shape: z.ZodRawShape, settings: ProfileSettings): Record<string, string> {
+  const defaults: Record<string, string> = {};
+
+  if (settings.defaultProject && shape.project && !shape.project.isOptional()) {
+    defaults.project = settings.defaultProject;
+  }
+  if (settings.timezone && shape.timezone) {
+    defaults.timezone = settings.timezone;
+  }
+
+  return defaults;
+}
+
+/**
+ * Build the registered input shape of a tool: its schema with profile defaults applied
+ */
+function buildToolShape(definition: ToolDefinition, context: SchemaContext): { shape: z.ZodRawShape; argumentDefaults: Record<string, string> } {
+  const shape: z.ZodRawShape = { ...resolveToolSchema(definition, context).shape };
+  const argumentDefaults = getArgumentDefaults(shape, context.settings);
+
+  for (const [key, value] of Object.entries(argumentDefaults)) {
+    shape[key] = shape[key].optional().describe(`${shape[key].description || key} (default: ${value})`);
+  }
+
+  return { shape, argumentDefaults };
+}
+
+/**
+ * Build the registered output shape of a tool. Error results carry only `error`,
+ * and `ambiguous` when a name matched several candidates, so every other field is optional.
+ */
+function buildOutputShape(definition: ToolDefinition): z.ZodRawShape {
+  return {
+    ...z.object(definition.outputSchema).partial().shape,
+    error: z.string().optional().describe('Error message, set instead of the other fields when the call failed'),
+    ambiguous: ambiguitySchema.optional().describe('Set when the call failed because a name matched several candidates; call again with one of the option values'),
+    truncated: z.boolean().optional().describe('Set when the result was shortened to fit maxOutputTokens; a nextCursor, when present, continues with what was left out'),
+    omitted: z.array(omittedItemsSchema).optional().describe('Lists shortened to fit maxOutputTokens: the path of each list, and the number and IDs of the items left out')
+  };
+}
+
+/**
+ * Add the error message to the structured content of error results, keeping any
+ * partial output such as the items created before a batch failed, and format the
+ * text part. Structured content over the output budget is shortened before JSON
+ * text is made from it; other text over the budget is cut.
+ */
+function completeResult(definition: ToolDefinition, result: CallToolResult, settings: ProfileSettings, control: CallControl, maxOutputTokens?: number): CallToolResult {
+  if (result.isError) {
+    const message = result.content.map(item => item.type === 'text' ? item.text : '').join('\n');
+    result = { ...result, structuredContent: { ...result.structuredContent, error: message, ...(control.ambiguity && { ambiguous: control.ambiguity }) } };
+  } else if (!result.structuredContent) {
+    log.warning('Tool returned no structured content', { tool: definition.name });
+    result = { ...result, structuredContent: {} };
+  }
+
+  if (maxOutputTokens && !result.isError) {
+    result = { ...result, structuredContent: fitStructuredContent(result.structuredContent!, maxOutputTokens) };
+  }
+
+  result = formatToolResult(result, settings.outputFormat);
+  if (maxOutputTokens) {
+    result = {
+      ...result,
+      content: result.content.map(item => item.type === 'text' ? { ...item, text: fitText(item.text, maxOutputTokens) } : item)
+    };
+  }
+  return result;
+}
+
+/**
+ * Cancellation signal, progress reporter and questions of a tool call. Progress is
+ * sent only when the client passed a progress token with the request, and questions
+ * are asked only when the client supports elicitation.
+ */
+function getCallControl(server: McpServer, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): CallControl {
+  const progressToken = extra._meta?.progressToken;
+  return {
+    signal: extra.signal,
+    reportProgress: progressToken === undefined ? undefined : (progress, total, message) => extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total, message }
+    }),
+    choose: !server.server.getClientCapabilities()?.elicitation ? undefined : async (message, options) => {
+      const result = await extra.sendRequest({
+        method: 'elicitation/create',
+        params: {
+          message,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              choice: {
+                type: 'string',
+                title: 'Choice',
+                enum: options.map(option => option.value),
+                enumNames: options.map(option => option.label)
+              }
+            },
+            required: ['choice']
+          }
+        }
+      }, ElicitResultSchema, { signal: extra.signal, timeout: ELICITATION_TIMEOUT });
+      return result.action === 'accept' && typeof result.content?.choice === 'string' ? result.content.choice : undefined;
+    }
+  };
+}
+
+/**
+ * Register tool definitions on an MCP server.
+ * Every tool gets an optional `instance` argument selecting the YouTrack instance,
+ * and an optional `maxOutputTokens` overriding the profile's output budget.
+ * Each server has its own change journal, so undo is scoped to the client session.
+ * Entries logged during a tool call go to the server's log sink only.
+ * Schemas built from custom fields are rebuilt when the fields change, which
+ * notifies the client with `notifications/tools/list_changed`.
+ * Results carry structured content, and their text is written in the profile's output format.
+ * Cancelling a call aborts its requests to YouTrack, and long calls report progress.
+ * Ambiguous project, user and link type names are put to the user when the client
+ * supports elicitation, and otherwise fail the call with the candidates in `ambiguous`.
+ */
+export function registerTools(server: McpServer, definitions: ToolDefinition[], runtime: ToolRuntime, logSink: LogSink): void {
+  const { instances, settings, policy, auditLog, schemaRefresher } = runtime;
+  const changes = new ChangeJournal();
+  const schemaContext: SchemaContext = { customFields: instances.getAllCustomFields(), settings };
+  const instanceSchema = z.enum(instances.names as [string, ...string[]])
+    .optional()
+    .describe(`YouTrack instance to use (default: ${instances.defaultInstance})`);
+  const commonShape: z.ZodRawShape = { instance: instanceSchema, maxOutputTokens: maxOutputTokensField };
+  const schemaUpdaters: Array<(context: SchemaContext) => void> = [];
+
+  for (const definition of definitions) {
+    let { shape, argumentDefaults } = buildToolShape(definition, schemaContext);
+
+    const callTool = async ({ instance, ...params }: any, maxOutputTokens?: number): Promise<CallToolResult> => {
+      const target = instances.get(instance);
+      for (const [key, value] of Object.entries(argumentDefaults)) {
+        params[key] ??= value;
+      }
+
+      try {
+        const refusal = await policy.checkMutation(definition, params, target.client);
+        if (refusal) {
+          return {
+            content: [{ type: "text" as const, text: `Refused by policy: ${refusal}` }],
+            isError: true
+          };
+        }
+      } catch (error: any) {
+        return {
+          content: [{ type: "text" as const, text: `Failed to check tool policy: ${formatApiError(error)}` }],
+          isError: true
+        };
+      }
+
+      const auditContext = { tool: definition.name, instance: target.name, arguments: params };
+      return runWithLogSink(logSink, () => runWithAuditContext(auditContext, () => changes.track(definition.name, target.name, () => definition.handler(params, {
+        instance: target.name,
+        client: target.client,
+        customFields: target.customFields,
+        settings,
+        auditLog,
+        changes,
+        schemaRefresher,
+        maxOutputTokens
+      }))));
+    };
+
+    const registeredTool = server.registerTool(
+      definition.name,
+      {
+        description: definition.description,
+        inputSchema: { ...shape, ...commonShape },
+        outputSchema: buildOutputShape(definition)
+      },
+      async ({ maxOutputTokens, ...args }: any, extra) => {
+        const budget = maxOutputTokens ?? settings.maxOutputTokens;
+        const control = getCallControl(server, extra);
+        const result = await runWithCallControl(control, () => callTool(args, budget));
+        return completeResult(definition, result, settings, control, budget);
+      }
+    );
+
+    if (typeof definition.schema === 'function') {
+      schemaUpdaters.push((context) => {
+        ({ shape, argumentDefaults } = buildToolShape(definition, context));
+        // Sends notifications/tools/list_changed to the client
+        registeredTool.update({ paramsSchema: { ...shape, ...commonShape } });
+      });
+    }
+  }
+
+  if (schemaUpdaters.length > 0) {
+    const unsubscribe = schemaRefresher.onChange(() => {
+      const context: SchemaContext = { customFields: instances.getAllCustomFields(), settings };
+      for (const updateSchema of schemaUpdaters) {
+        updateSchema(context);
+      }
+    });
+
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+      unsubscribe();
+      previousOnClose?.();
+    };
+  }
+}
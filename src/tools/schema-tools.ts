@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { InstanceFieldChanges, SchemaRefresher } from '../schema-refresh.js';
+import { ToolDefinition } from './registry.js';
+
+/**
+ * MCP tools for reloading custom field metadata
+ */
+
+export const refreshSchemaSchema = z.object({});
+
+const instanceFieldChangesSchema = z.object({
+  instance: z.string(),
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  changed: z.array(z.string()),
+  error: z.string().optional().describe('Set when the fields could not be fetched; the previous fields are kept')
+});
+
+function formatInstanceChanges(changes: InstanceFieldChanges): string {
+  if (changes.error) {
+    return `- ${changes.instance}: failed to fetch custom fields (${changes.error}); keeping the previous fields`;
+  }
+
+  const parts = [
+    changes.added.length > 0 ? `added ${changes.added.join(', ')}` : '',
+    changes.removed.length > 0 ? `removed ${changes.removed.join(', ')}` : '',
+    changes.changed.length > 0 ? `changed ${changes.changed.join(', ')}` : ''
+  ].filter(part => part);
+
+  return `- ${changes.instance}: ${parts.length > 0 ? parts.join('; ') : 'no changes'}`;
+}
+
+/**
+ * Re-fetch custom fields from all instances and rebuild the tool schemas that depend on them
+ */
+export async function refreshSchema(schemaRefresher: SchemaRefresher) {
+  const result = await schemaRefresher.refresh();
+  const failed = result.instances.every(changes => changes.error);
+  const summary = result.changed
+    ? 'Custom fields changed. Tool schemas were updated and clients notified of the new tool list.'
+    : 'Custom fields are unchanged.';
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `${failed ? 'Failed to refresh custom fields.' : summary}\n\n` +
+          result.instances.map(formatInstanceChanges).join('\n')
+      }
+    ],
+    structuredContent: { ...result },
+    ...(failed ? { isError: true as const } : {})
+  };
+}
+
+/**
+ * Schema tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "refresh-schema",
+    description: "Reload custom fields and their values from YouTrack, e.g. after a field or value was added, and update the tool schemas that list them",
+    schema: refreshSchemaSchema,
+    outputSchema: { changed: z.boolean(), instances: z.array(instanceFieldChangesSchema) },
+    handler: (params, { schemaRefresher }) => refreshSchema(schemaRefresher)
+  }
+];
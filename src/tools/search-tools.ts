@@ -1,7 +1,11 @@
 ﻿import { z } from 'zod';
 import { YouTrackClient } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
 import { SearchIssuesRequest } from '../types.js';
 import { formatDate, createDateRangeQuery, formatApiError } from '../utils.js';
+import { cursorField, formatPageFooter, toIssuePage } from './paging.js';
+import { issuePageShape, userSchema } from './output-schemas.js';
+import { fitIssuePage } from './budget.js';
 
 /**
  * MCP tools for YouTrack search functionality
@@ -11,6 +15,7 @@ export const searchIssuesAdvancedSchema = z.object({
   query: z.string().describe('YouTrack search query using YouTrack query language (e.g., "assignee: me State: Open", "project: MyProject created: today")'),
   limit: z.number().min(1).max(100).default(20).describe('Maximum number of issues to return'),
   skip: z.number().min(0).default(0).describe('Number of issues to skip for pagination'),
+  cursor: cursorField,
   includeDescription: z.boolean().default(false).describe('Include issue descriptions in results')
 });
 
@@ -23,19 +28,21 @@ export const searchUsersByNameSchema = z.object({
 export const getMyIssuesSchema = z.object({
   state: z.string().optional().describe('Filter by state (e.g., "Open", "In Progress", "Fixed")'),
   project: z.string().optional().describe('Filter by project short name'),
-  limit: z.number().min(1).max(100).default(20).describe('Maximum number of issues to return')
+  limit: z.number().min(1).max(100).default(20).describe('Maximum number of issues to return'),
+  cursor: cursorField
 });
 
 export const getRecentIssuesSchema = z.object({
   project: z.string().optional().describe('Filter by project short name'),
   days: z.number().min(1).max(365).default(7).describe('Number of days to look back'),
-  limit: z.number().min(1).max(100).default(20).describe('Maximum number of issues to return')
+  limit: z.number().min(1).max(100).default(20).describe('Maximum number of issues to return'),
+  cursor: cursorField
 });
 
 /**
  * Advanced issue search using YouTrack query language
  */
-export async function searchIssuesAdvanced(client: YouTrackClient, params: z.infer<typeof searchIssuesAdvancedSchema>) {
+export async function searchIssuesAdvanced(client: YouTrackClient, params: z.infer<typeof searchIssuesAdvancedSchema>, maxOutputTokens?: number) {
   try {
     const searchRequest: SearchIssuesRequest = {
       query: params.query,
@@ -43,7 +50,7 @@ export async function searchIssuesAdvanced(client: YouTrackClient, params: z.inf
       skip: params.skip
     };
 
-    const result = await client.searchIssues(searchRequest);
+    const result = await client.searchIssuesPage(searchRequest, params.cursor);
     
     if (result.items.length === 0) {
       return {
@@ -52,36 +59,40 @@ export async function searchIssuesAdvanced(client: YouTrackClient, params: z.inf
             type: "text" as const,
             text: `No issues found for query: "${params.query}"`
           }
-        ]
+        ],
+        structuredContent: toIssuePage(result)
       };
     }
 
-    const issuesText = result.items.map(issue => {
-      let text = `**${issue.idReadable}** - ${issue.summary}\n` +
-                 `  Project: ${issue.project.name} (${issue.project.shortName})\n` +
-                 `  Assignee: ${issue.assignee?.fullName || 'Unassigned'}\n` +
-                 `  Reporter: ${issue.reporter?.fullName || 'Unknown'}\n` +
-                 `  Updated: ${new Date(issue.updated).toLocaleString()}`;
+    const { page, text } = fitIssuePage(result, maxOutputTokens, page => {
+      const issuesText = page.items.map(issue => {
+        let text = `**${issue.idReadable}** - ${issue.summary}\n` +
+                   `  Project: ${issue.project.name} (${issue.project.shortName})\n` +
+                   `  Assignee: ${issue.assignee?.fullName || 'Unassigned'}\n` +
+                   `  Reporter: ${issue.reporter?.fullName || 'Unknown'}\n` +
+                   `  Updated: ${new Date(issue.updated).toLocaleString()}`;
       
-      if (params.includeDescription && issue.description) {
-        const truncatedDesc = issue.description.length > 200 
-          ? issue.description.substring(0, 200) + '...' 
-          : issue.description;
-        text += `\n  Description: ${truncatedDesc}`;
-      }
+        if (params.includeDescription && issue.description) {
+          const truncatedDesc = issue.description.length > 200 
+            ? issue.description.substring(0, 200) + '...' 
+            : issue.description;
+          text += `\n  Description: ${truncatedDesc}`;
+        }
       
-      return text;
-    }).join('\n\n');
+        return text;
+      }).join('\n\n');
 
-    const paginationInfo = result.hasMore ? `\n\n*Showing ${result.items.length} results (more available)*` : '';
+      return `**Search Results for:** "${params.query}"\n\n${issuesText}${formatPageFooter(page)}`;
+    });
 
     return {
       content: [
         {
           type: "text" as const,
-          text: `**Search Results for:** "${params.query}"\n\n${issuesText}${paginationInfo}`
+          text
         }
-      ]
+      ],
+      structuredContent: toIssuePage(page)
     };
   } catch (error: any) {
     return {
@@ -111,7 +122,8 @@ export async function searchUsersByName(client: YouTrackClient, params: z.infer<
             type: "text" as const,
             text: `No users found matching: "${params.name}"`
           }
-        ]
+        ],
+        structuredContent: { users: [] }
       };
     }
 
@@ -129,7 +141,8 @@ export async function searchUsersByName(client: YouTrackClient, params: z.infer<
           type: "text" as const,
           text: `**Users matching "${params.name}":**\n\n${usersText}`
         }
-      ]
+      ],
+      structuredContent: { users }
     };
   } catch (error: any) {
     return {
@@ -147,7 +160,7 @@ export async function searchUsersByName(client: YouTrackClient, params: z.infer<
 /**
  * Get issues assigned to current user
  */
-export async function getMyIssues(client: YouTrackClient, params: z.infer<typeof getMyIssuesSchema>) {
+export async function getMyIssues(client: YouTrackClient, params: z.infer<typeof getMyIssuesSchema>, maxOutputTokens?: number) {
   try {
     let query = 'assignee: me';
     
@@ -164,7 +177,7 @@ export async function getMyIssues(client: YouTrackClient, params: z.infer<typeof
       limit: params.limit
     };
 
-    const result = await client.searchIssues(searchRequest);
+    const result = await client.searchIssuesPage(searchRequest, params.cursor);
     
     if (result.items.length === 0) {
       return {
@@ -173,23 +186,29 @@ export async function getMyIssues(client: YouTrackClient, params: z.infer<typeof
             type: "text" as const,
             text: "No issues assigned to you match the specified criteria."
           }
-        ]
+        ],
+        structuredContent: toIssuePage(result)
       };
     }
 
-    const issuesText = result.items.map(issue =>
-      `**${issue.idReadable}** - ${issue.summary}\n` +
-      `  Project: ${issue.project.shortName}\n` +
-      `  Updated: ${formatDate(issue.updated)}`
-    ).join('\n\n');
+    const { page, text } = fitIssuePage(result, maxOutputTokens, page => {
+      const issuesText = page.items.map(issue =>
+        `**${issue.idReadable}** - ${issue.summary}\n` +
+        `  Project: ${issue.project.shortName}\n` +
+        `  Updated: ${formatDate(issue.updated)}`
+      ).join('\n\n');
+
+      return `**Your Issues:**\n\n${issuesText}${formatPageFooter(page)}`;
+    });
 
     return {
       content: [
         {
           type: "text" as const,
-          text: `**Your Issues:**\n\n${issuesText}`
+          text
         }
-      ]
+      ],
+      structuredContent: toIssuePage(page)
     };
   } catch (error: any) {
     return {
@@ -207,7 +226,7 @@ export async function getMyIssues(client: YouTrackClient, params: z.infer<typeof
 /**
  * Get recently updated issues
  */
-export async function getRecentIssues(client: YouTrackClient, params: z.infer<typeof getRecentIssuesSchema>) {
+export async function getRecentIssues(client: YouTrackClient, params: z.infer<typeof getRecentIssuesSchema>, maxOutputTokens?: number) {
   try {
     let query = createDateRangeQuery(params.days);
 
@@ -220,7 +239,7 @@ export async function getRecentIssues(client: YouTrackClient, params: z.infer<ty
       limit: params.limit
     };
 
-    const result = await client.searchIssues(searchRequest);
+    const result = await client.searchIssuesPage(searchRequest, params.cursor);
     
     if (result.items.length === 0) {
       return {
@@ -229,24 +248,30 @@ export async function getRecentIssues(client: YouTrackClient, params: z.infer<ty
             type: "text" as const,
             text: `No issues updated in the last ${params.days} day(s).`
           }
-        ]
+        ],
+        structuredContent: toIssuePage(result)
       };
     }
 
-    const issuesText = result.items.map(issue =>
-      `**${issue.idReadable}** - ${issue.summary}\n` +
-      `  Project: ${issue.project.shortName}\n` +
-      `  Assignee: ${issue.assignee?.fullName || 'Unassigned'}\n` +
-      `  Updated: ${formatDate(issue.updated)}`
-    ).join('\n\n');
+    const { page, text } = fitIssuePage(result, maxOutputTokens, page => {
+      const issuesText = page.items.map(issue =>
+        `**${issue.idReadable}** - ${issue.summary}\n` +
+        `  Project: ${issue.project.shortName}\n` +
+        `  Assignee: ${issue.assignee?.fullName || 'Unassigned'}\n` +
+        `  Updated: ${formatDate(issue.updated)}`
+      ).join('\n\n');
+
+      return `**Recently Updated Issues (last ${params.days} day(s)):**\n\n${issuesText}${formatPageFooter(page)}`;
+    });
 
     return {
       content: [
         {
           type: "text" as const,
-          text: `**Recently Updated Issues (last ${params.days} day(s)):**\n\n${issuesText}`
+          text
         }
-      ]
+      ],
+      structuredContent: toIssuePage(page)
     };
   } catch (error: any) {
     return {
@@ -260,3 +285,37 @@ export async function getRecentIssues(client: YouTrackClient, params: z.infer<ty
     };
   }
 }
+
+/**
+ * Search tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "search-issues-advanced",
+    description: "Advanced issue search using YouTrack query language",
+    schema: searchIssuesAdvancedSchema,
+    outputSchema: issuePageShape,
+    handler: (params, { client, maxOutputTokens }) => searchIssuesAdvanced(client, params, maxOutputTokens)
+  },
+  {
+    name: "search-users-by-name",
+    description: "Search users by name or login",
+    schema: searchUsersByNameSchema,
+    outputSchema: { users: z.array(userSchema) },
+    handler: (params, { client }) => searchUsersByName(client, params)
+  },
+  {
+    name: "get-my-issues",
+    description: "Get issues assigned to the current user",
+    schema: getMyIssuesSchema,
+    outputSchema: issuePageShape,
+    handler: (params, { client, maxOutputTokens }) => getMyIssues(client, params, maxOutputTokens)
+  },
+  {
+    name: "get-recent-issues",
+    description: "Get recently updated issues",
+    schema: getRecentIssuesSchema,
+    outputSchema: issuePageShape,
+    handler: (params, { client, maxOutputTokens }) => getRecentIssues(client, params, maxOutputTokens)
+  }
+];
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { YouTrackClient } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
+import { issueSchema } from './output-schemas.js';
 import { formatApiError } from '../utils.js';
 
 /**
@@ -32,7 +34,8 @@ export async function setStoryPoints(client: YouTrackClient, params: z.infer<typ
                 `**Project:** ${issue.project.name} (${issue.project.shortName})\n` +
                 `**Assignee:** ${issue.assignee?.fullName || 'Unassigned'}`
         }
-      ]
+      ],
+      structuredContent: { issueId: issue.idReadable, storyPoints: params.storyPoints, issue }
     };
   } catch (error: any) {
     return {
@@ -61,7 +64,8 @@ export async function getStoryPoints(client: YouTrackClient, params: z.infer<typ
             type: "text" as const,
             text: `No story points set for issue ${params.issueId}.`
           }
-        ]
+        ],
+        structuredContent: { issueId: params.issueId, storyPoints: null }
       };
     }
 
@@ -78,7 +82,8 @@ export async function getStoryPoints(client: YouTrackClient, params: z.infer<typ
                 `**Project:** ${issue.project.name} (${issue.project.shortName})\n` +
                 `**Assignee:** ${issue.assignee?.fullName || 'Unassigned'}`
         }
-      ]
+      ],
+      structuredContent: { issueId: issue.idReadable, storyPoints, issue }
     };
   } catch (error: any) {
     return {
@@ -92,3 +97,30 @@ export async function getStoryPoints(client: YouTrackClient, params: z.infer<typ
     };
   }
 }
+
+const storyPointsOutputShape = {
+  issueId: z.string(),
+  storyPoints: z.number().nullable().describe('Null when not set'),
+  issue: issueSchema.optional()
+};
+
+/**
+ * Story points tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "set-story-points",
+    description: "Set story points for an issue",
+    schema: setStoryPointsSchema,
+    outputSchema: storyPointsOutputShape,
+    handler: (params, { client }) => setStoryPoints(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "get-story-points",
+    description: "Get story points for an issue",
+    schema: getStoryPointsSchema,
+    outputSchema: storyPointsOutputShape,
+    handler: (params, { client }) => getStoryPoints(client, params)
+  }
+];
@@ -1,7 +1,11 @@
 import { z } from 'zod';
 import { YouTrackClient } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
+import { dryRunField, dryRunOutputField, formatDryRunPreview } from './dry-run.js';
+import { issueLinkSchema, issueSchema, subtaskSchema } from './output-schemas.js';
 import { CreateSubtaskRequest, CreateMultipleSubtasksRequest } from '../types.js';
 import { formatApiError } from '../utils.js';
+import { fieldValueSchema } from '../field-writers.js';
 
 /**
  * MCP tools for YouTrack subtask management
@@ -34,26 +38,8 @@ function mapDynamicParamsToCustomFields(
     const fieldMeta = fieldLookup.get(key);
 
     if (fieldMeta) {
-      const { name, fieldType } = fieldMeta;
-      const type = fieldType.valueType.toLowerCase();
-
-      // Smart formatting based on type
-      if (type === 'period') {
-        mappedFields[name] = { minutes: value };
-      }
-      else if (type.startsWith('user')) {
-        mappedFields[name] = { id: value };
-      }
-      else if (type === 'date' || type === 'date and time') {
-        mappedFields[name] = value;
-      }
-      else if (['integer', 'float', 'string', 'text'].includes(type)) {
-        mappedFields[name] = value;
-      }
-      else {
-        // Enums/State etc
-        mappedFields[name] = value;
-      }
+      // Map to the real field name; YouTrackClient writes the value with the field's $type
+      mappedFields[fieldMeta.name] = value;
     } else {
       // Fallback
       mappedFields[key] = value;
@@ -169,11 +155,7 @@ export function buildCreateSubtaskSchema(customFields: Array<{ name: string; fie
     }
 
     // Map YouTrack types to Zod types
-    if (['integer', 'float', 'period'].includes(valueType)) {
-      dynamicShape[normalizedName] = z.number().optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
-    } else {
-      dynamicShape[normalizedName] = z.string().optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
-    }
+    dynamicShape[normalizedName] = fieldValueSchema(field.fieldType).optional().describe(`${field.name} (${valueType}).${valuesDesc}`);
   });
 
   return z.object(dynamicShape);
@@ -241,7 +223,8 @@ export async function createSubtask(
             `**Link:** Subtask of ${params.parentIssueId}\n` +
             `**Created:** ${new Date(result.subtask.created).toLocaleString()}`
         }
-      ]
+      ],
+      structuredContent: { parentIssueId: params.parentIssueId, subtask: result.subtask, link: result.link }
     };
   } catch (error: any) {
     return {
@@ -270,7 +253,8 @@ export async function getSubtasks(client: YouTrackClient, params: z.infer<typeof
             type: "text" as const,
             text: `No subtasks found for issue ${params.parentIssueId}.`
           }
-        ]
+        ],
+        structuredContent: { parentIssueId: params.parentIssueId, subtasks: [] }
       };
     }
 
@@ -300,7 +284,8 @@ export async function getSubtasks(client: YouTrackClient, params: z.infer<typeof
           type: "text" as const,
           text: `**Subtasks for ${params.parentIssueId}:**\n\n${subtasksText}\n\n**${progressText}**`
         }
-      ]
+      ],
+      structuredContent: { parentIssueId: params.parentIssueId, subtasks }
     };
   } catch (error: any) {
     return {
@@ -329,7 +314,8 @@ export async function getParentIssue(client: YouTrackClient, params: z.infer<typ
             type: "text" as const,
             text: `Issue ${params.subtaskIssueId} is not a subtask or has no parent issue.`
           }
-        ]
+        ],
+        structuredContent: { issueId: params.subtaskIssueId, parent: null }
       };
     }
 
@@ -342,10 +328,11 @@ export async function getParentIssue(client: YouTrackClient, params: z.infer<typ
             `**Summary:** ${parent.summary}\n` +
             `**Project:** ${parent.project.name} (${parent.project.shortName})\n` +
             `**Assignee:** ${parent.assignee?.fullName || 'Unassigned'}\n` +
-            `**State:** ${parent.customFields?.find(f => f.name === 'State')?.value?.name || 'Unknown'}\n` +
+            `**State:** ${parent.customFields?.find(f => f.name === client.getFieldName('State'))?.value?.name || 'Unknown'}\n` +
             `**Created:** ${new Date(parent.created).toLocaleString()}`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.subtaskIssueId, parent }
     };
   } catch (error: any) {
     return {
@@ -452,7 +439,8 @@ export async function convertToSubtask(client: YouTrackClient, params: z.infer<t
             `**Link ID:** ${link.id}\n\n` +
             `Issue ${params.issueId} is now a subtask of ${params.parentIssueId}.`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, parentIssueId: params.parentIssueId, link }
     };
   } catch (error: any) {
     return {
@@ -479,7 +467,8 @@ export function buildCreateMultipleSubtasksSchema(customFields: Array<{ name: st
 
   return z.object({
     parentIssueId: z.string().describe('Parent issue ID (e.g., PROJECT-123)'),
-    subtasks: z.array(subtaskItemSchema).max(20).describe('Array of subtasks to create (max 20)')
+    subtasks: z.array(subtaskItemSchema).max(20).describe('Array of subtasks to create (max 20)'),
+    dryRun: dryRunField
   });
 }
 
@@ -512,6 +501,10 @@ export async function createMultipleSubtasks(client: YouTrackClient, params: Rec
       subtasks: processedSubtasks
     };
 
+    if (params.dryRun) {
+      return formatDryRunPreview(await client.previewCreateMultipleSubtasks(request));
+    }
+
     const results = await client.createMultipleSubtasks(request);
 
     const successCount = results.filter(r => r.success).length;
@@ -544,6 +537,11 @@ export async function createMultipleSubtasks(client: YouTrackClient, params: Rec
           text: responseText
         }
       ],
+      structuredContent: {
+        parentIssueId: params.parentIssueId,
+        created: results.filter(r => r.success).map(r => r.subtask!),
+        failed: results.filter(r => !r.success).map(r => ({ summary: r.summary, error: r.error || 'Unknown error' }))
+      },
       isError: failureCount > 0
     };
   } catch (error: any) {
@@ -558,3 +556,52 @@ export async function createMultipleSubtasks(client: YouTrackClient, params: Rec
     };
   }
 }
+
+/**
+ * Subtask management tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "create-subtask",
+    description: "Create a new subtask and link it to a parent issue",
+    schema: ({ customFields }) => buildCreateSubtaskSchema(customFields),
+    outputSchema: { parentIssueId: z.string(), subtask: issueSchema, link: issueLinkSchema },
+    handler: (params, { client, customFields }) => createSubtask(client, params, customFields),
+    mutation: ({ parentIssueId }) => ({ issueIds: [parentIssueId] })
+  },
+  {
+    name: "get-subtasks",
+    description: "Get all subtasks of a parent issue",
+    schema: getSubtasksSchema,
+    outputSchema: { parentIssueId: z.string(), subtasks: z.array(subtaskSchema) },
+    handler: (params, { client }) => getSubtasks(client, params)
+  },
+  {
+    name: "get-parent-issue",
+    description: "Get the parent issue of a subtask",
+    schema: getParentIssueSchema,
+    outputSchema: { issueId: z.string(), parent: issueSchema.nullable().describe('Null when the issue has no parent') },
+    handler: (params, { client }) => getParentIssue(client, params)
+  },
+  {
+    name: "convert-to-subtask",
+    description: "Convert an existing issue to a subtask of another issue",
+    schema: convertToSubtaskSchema,
+    outputSchema: { issueId: z.string(), parentIssueId: z.string(), link: issueLinkSchema },
+    handler: (params, { client }) => convertToSubtask(client, params),
+    mutation: ({ issueId, parentIssueId }) => ({ issueIds: [issueId, parentIssueId] })
+  },
+  {
+    name: "create-multiple-subtasks",
+    description: "Create multiple subtasks for a parent issue in one operation",
+    schema: ({ customFields }) => buildCreateMultipleSubtasksSchema(customFields),
+    outputSchema: {
+      parentIssueId: z.string(),
+      created: z.array(issueSchema),
+      failed: z.array(z.object({ summary: z.string(), error: z.string() })),
+      dryRun: dryRunOutputField
+    },
+    handler: (params, { client, customFields }) => createMultipleSubtasks(client, params, customFields),
+    mutation: ({ parentIssueId }) => ({ issueIds: [parentIssueId] })
+  }
+];
@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { YouTrackClient } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
+import { dryRunField, dryRunOutputField, formatDryRunPreview } from './dry-run.js';
+import { timeTrackingSummarySchema, workItemSchema } from './output-schemas.js';
 import { CreateWorkItemRequest, UpdateWorkItemRequest } from '../types.js';
 import { formatDate, formatApiError, delay } from '../utils.js';
 
@@ -16,7 +19,8 @@ export const createWorkItemSchema = z.object({
   duration: z.number().min(1).describe('Duration in minutes'),
   description: z.string().optional().describe('Work item description'),
   type: z.string().optional().describe('Work item type name'),
-  date: z.number().optional().describe('Work date as Unix timestamp (defaults to current time)')
+  date: z.number().optional().describe('Work date as Unix timestamp (defaults to current time)'),
+  dryRun: dryRunField
 });
 
 export const updateWorkItemSchema = z.object({
@@ -56,7 +60,8 @@ export async function getWorkItems(client: YouTrackClient, params: z.infer<typeo
             type: "text" as const,
             text: `No work items found for issue ${params.issueId}.`
           }
-        ]
+        ],
+        structuredContent: { issueId: params.issueId, workItems: [] }
       };
     }
 
@@ -76,7 +81,8 @@ export async function getWorkItems(client: YouTrackClient, params: z.infer<typeo
           type: "text" as const,
           text: `Found ${workItems.length} work item(s) for issue ${params.issueId}:\n\n${workItemsText}`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, workItems }
     };
   } catch (error: any) {
     return {
@@ -103,6 +109,10 @@ export async function createWorkItem(client: YouTrackClient, params: z.infer<typ
       date: params.date
     };
 
+    if (params.dryRun) {
+      return formatDryRunPreview(await client.previewCreateWorkItem(params.issueId, createRequest));
+    }
+
     const workItem = await client.createWorkItem(params.issueId, createRequest);
 
     // Add small delay to handle API eventual consistency
@@ -121,7 +131,8 @@ export async function createWorkItem(client: YouTrackClient, params: z.infer<typ
                 (workItem.type ? `**Type:** ${workItem.type.name}\n` : '') +
                 `**Created:** ${formatDate(workItem.created)}`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, workItem }
     };
   } catch (error: any) {
     return {
@@ -165,7 +176,8 @@ export async function updateWorkItem(client: YouTrackClient, params: z.infer<typ
                 (workItem.type ? `**Type:** ${workItem.type.name}\n` : '') +
                 `**Updated:** ${formatDate(workItem.updated || workItem.created)}`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, workItem }
     };
   } catch (error: any) {
     return {
@@ -196,7 +208,8 @@ export async function deleteWorkItem(client: YouTrackClient, params: z.infer<typ
           type: "text" as const,
           text: `Successfully deleted work item ${params.workItemId} from issue ${params.issueId}`
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, workItemId: params.workItemId }
     };
   } catch (error: any) {
     return {
@@ -235,7 +248,8 @@ export async function setEstimation(client: YouTrackClient, params: z.infer<type
                 `**Issue:** ${issue.summary}\n` +
                 `**Updated:** ${formatDate(issue.updated)}`
         }
-      ]
+      ],
+      structuredContent: { issueId: issue.idReadable, estimationMinutes: params.estimationMinutes }
     };
   } catch (error: any) {
     return {
@@ -295,7 +309,8 @@ export async function getTimeSummary(client: YouTrackClient, params: z.infer<typ
           type: "text" as const,
           text: summaryText
         }
-      ]
+      ],
+      structuredContent: { issueId: params.issueId, summary }
     };
   } catch (error: any) {
     return {
@@ -309,3 +324,55 @@ export async function getTimeSummary(client: YouTrackClient, params: z.infer<typ
     };
   }
 }
+
+/**
+ * Time tracking / work item tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "get-work-items",
+    description: "Get work items (time entries) for an issue",
+    schema: getWorkItemsSchema,
+    outputSchema: { issueId: z.string(), workItems: z.array(workItemSchema) },
+    handler: (params, { client }) => getWorkItems(client, params)
+  },
+  {
+    name: "create-work-item",
+    description: "Create a work item (log time) for an issue",
+    schema: createWorkItemSchema,
+    outputSchema: { issueId: z.string(), workItem: workItemSchema, dryRun: dryRunOutputField },
+    handler: (params, { client }) => createWorkItem(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "update-work-item",
+    description: "Update an existing work item",
+    schema: updateWorkItemSchema,
+    outputSchema: { issueId: z.string(), workItem: workItemSchema },
+    handler: (params, { client }) => updateWorkItem(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "delete-work-item",
+    description: "Delete a work item from an issue",
+    schema: deleteWorkItemSchema,
+    outputSchema: { issueId: z.string(), workItemId: z.string() },
+    handler: (params, { client }) => deleteWorkItem(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "set-estimation",
+    description: "Set estimation (in minutes) for an issue",
+    schema: setEstimationSchema,
+    outputSchema: { issueId: z.string(), estimationMinutes: z.number() },
+    handler: (params, { client }) => setEstimation(client, params),
+    mutation: ({ issueId }) => ({ issueIds: [issueId] })
+  },
+  {
+    name: "get-time-summary",
+    description: "Get time tracking summary for an issue (estimation, spent time, work items)",
+    schema: getTimeSummarySchema,
+    outputSchema: { issueId: z.string(), summary: timeTrackingSummarySchema },
+    handler: (params, { client }) => getTimeSummary(client, params)
+  }
+];
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { ChangeJournal, RecordedChange } from '../undo.js';
+import { ToolDefinition } from './registry.js';
+
+/**
+ * MCP tools for undoing changes made in the current session
+ */
+
+export const listSessionChangesSchema = z.object({});
+
+export const undoLastChangeSchema = z.object({});
+
+export const revertChangeSchema = z.object({
+  changeId: z.number().int().min(1).describe('ID of the change to revert, as shown by list-session-changes')
+});
+
+const recordedChangeSchema = z.object({
+  id: z.number(),
+  timestamp: z.string(),
+  tool: z.string(),
+  instance: z.string(),
+  undoSteps: z.array(z.string()).describe('What reverting the change does, in order')
+});
+
+function toChangeSummary(change: RecordedChange): z.infer<typeof recordedChangeSchema> {
+  return {
+    id: change.id,
+    timestamp: change.timestamp,
+    tool: change.tool,
+    instance: change.instance,
+    undoSteps: change.steps.map(step => step.description)
+  };
+}
+
+function formatChange(change: RecordedChange): string {
+  return `**#${change.id}** ${change.timestamp} - ${change.tool} @ ${change.instance}\n` +
+    change.steps.map(step => `  - Undo: ${step.description}`).join('\n');
+}
+
+/**
+ * List the changes made in this session that can be undone
+ */
+export async function listSessionChanges(changes: ChangeJournal) {
+  const recorded = changes.list();
+
+  if (recorded.length === 0) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: 'No changes have been made in this session.'
+        }
+      ],
+      structuredContent: { changes: [] }
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `${recorded.length} change${recorded.length === 1 ? '' : 's'} in this session (newest first):\n\n` +
+          recorded.map(formatChange).join('\n\n')
+      }
+    ],
+    structuredContent: { changes: recorded.map(toChangeSummary) }
+  };
+}
+
+/**
+ * Revert a recorded change and report what was restored
+ */
+async function revert(changes: ChangeJournal, change: RecordedChange) {
+  const result = await changes.revert(change);
+  const revertedText = result.reverted.map(description => `- ${description}`).join('\n');
+
+  if (result.failed) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Failed to revert change #${change.id} (${change.tool}): ${result.failed.description}: ${result.failed.error}` +
+            (revertedText ? `\n\nAlready reverted:\n${revertedText}` : '') +
+            `\n\nThe remaining steps are kept; call revert-change with changeId ${change.id} to retry.`
+        }
+      ],
+      isError: true
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Successfully reverted change #${change.id} (${change.tool}):\n\n${revertedText}`
+      }
+    ],
+    structuredContent: { change: toChangeSummary(change), reverted: result.reverted }
+  };
+}
+
+/**
+ * Undo the most recent change of this session
+ */
+export async function undoLastChange(changes: ChangeJournal) {
+  const change = changes.last();
+
+  if (!change) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: 'There are no changes to undo in this session.'
+        }
+      ],
+      isError: true
+    };
+  }
+
+  return revert(changes, change);
+}
+
+/**
+ * Revert a specific change of this session
+ */
+export async function revertChange(changes: ChangeJournal, params: z.infer<typeof revertChangeSchema>) {
+  const change = changes.get(params.changeId);
+
+  if (!change) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Change #${params.changeId} not found. Use list-session-changes to see the changes that can be reverted.`
+        }
+      ],
+      isError: true
+    };
+  }
+
+  return revert(changes, change);
+}
+
+const revertOutputShape = {
+  change: recordedChangeSchema,
+  reverted: z.array(z.string()).describe('Steps that were reverted')
+};
+
+/**
+ * Undo tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "list-session-changes",
+    description: "List the changes made through this server in the current session that can be undone",
+    schema: listSessionChangesSchema,
+    outputSchema: { changes: z.array(recordedChangeSchema) },
+    handler: (params, { changes }) => listSessionChanges(changes)
+  },
+  {
+    name: "undo-last-change",
+    description: "Undo the most recent change made in this session: restores overwritten field values, removes created links, subtasks and work items, and re-creates deleted links",
+    schema: undoLastChangeSchema,
+    outputSchema: revertOutputShape,
+    handler: (params, { changes }) => undoLastChange(changes),
+    // Only reverts changes that already passed the policy
+    mutation: () => ({})
+  },
+  {
+    name: "revert-change",
+    description: "Revert a specific change made in this session, by the ID shown by list-session-changes",
+    schema: revertChangeSchema,
+    outputSchema: revertOutputShape,
+    handler: (params, { changes }) => revertChange(changes, params),
+    mutation: () => ({})
+  }
+];
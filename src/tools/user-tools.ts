@@ -1,5 +1,7 @@
 ﻿import { z } from 'zod';
 import { YouTrackClient } from '../youtrack-client.js';
+import { ToolDefinition } from './registry.js';
+import { userSchema } from './output-schemas.js';
 import { formatApiError } from '../utils.js';
 
 /**
@@ -42,7 +44,8 @@ export async function getCurrentUser(client: YouTrackClient, params: z.infer<typ
                 `**Status:** ${onlineStatus}\n` +
                 avatar
         }
-      ]
+      ],
+      structuredContent: { user }
     };
   } catch (error: any) {
     return {
@@ -76,7 +79,8 @@ export async function listUsers(client: YouTrackClient, params: z.infer<typeof l
             type: "text" as const,
             text: "No users found matching the criteria."
           }
-        ]
+        ],
+        structuredContent: { users: [] }
       };
     }
 
@@ -94,7 +98,8 @@ export async function listUsers(client: YouTrackClient, params: z.infer<typeof l
           type: "text" as const,
           text: `Found ${filteredUsers.length} user(s):\n\n${usersText}`
         }
-      ]
+      ],
+      structuredContent: { users: filteredUsers }
     };
   } catch (error: any) {
     return {
@@ -133,7 +138,8 @@ export async function getUser(client: YouTrackClient, params: z.infer<typeof get
                 `**Status:** ${onlineStatus}\n` +
                 avatar
         }
-      ]
+      ],
+      structuredContent: { user }
     };
   } catch (error: any) {
     return {
@@ -147,3 +153,30 @@ export async function getUser(client: YouTrackClient, params: z.infer<typeof get
     };
   }
 }
+
+/**
+ * User management tool definitions
+ */
+export const tools: ToolDefinition[] = [
+  {
+    name: "get-current-user",
+    description: "Get current user information",
+    schema: getCurrentUserSchema,
+    outputSchema: { user: userSchema },
+    handler: (params, { client }) => getCurrentUser(client, params)
+  },
+  {
+    name: "list-users",
+    description: "List users",
+    schema: listUsersSchema,
+    outputSchema: { users: z.array(userSchema) },
+    handler: (params, { client }) => listUsers(client, params)
+  },
+  {
+    name: "get-user",
+    description: "Get user details by ID or login",
+    schema: getUserSchema,
+    outputSchema: { user: userSchema },
+    handler: (params, { client }) => getUser(client, params)
+  }
+];
@@ -6,8 +6,81 @@ export interface YouTrackConfig {
   url: string;
   token: string;
   timeout?: number;
-  rateLimit?: number;
-  debug?: boolean;
+  rateLimit?: number; // Requests per minute
+  maxConcurrency?: number; // Requests in flight at once
+  maxRetries?: number; // Retries of transient failures (0 disables retries)
+  fieldMappings?: Record<string, string>; // Logical field name -> field name in this instance
+  fixtures?: FixtureConfig; // Record responses to, or replay them from, a directory
+}
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureConfig {
+  mode: FixtureMode;
+  dir: string;
+}
+
+export interface YouTrackInstancesConfig {
+  defaultInstance: string;
+  instances: Record<string, YouTrackConfig>; // Keyed by instance name
+}
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string; // HTTP mode only
+  port: number; // HTTP mode only
+}
+
+/**
+ * Which tools are exposed and which projects they may modify
+ */
+export interface PolicyConfig {
+  readOnly?: boolean; // Expose read tools only
+  deniedTools?: string[]; // Tool names that are never registered
+  allowedProjects?: string[]; // Project short names mutations are limited to
+}
+
+/**
+ * Profile settings shared by all instances
+ */
+export interface ProfileSettings {
+  defaultProject?: string;
+  timezone?: string;
+  enabledTools?: string[];
+  policy?: PolicyConfig;
+  auditLog?: string; // Path of the JSONL audit log, unset when disabled
+  schemaRefreshInterval?: number; // Seconds between background custom field refreshes, unset when disabled
+  outputFormat: OutputFormat; // Format of the text part of tool results
+  maxOutputTokens?: number; // Default output budget of tool calls, unset for no limit
+  subscriptionPollInterval?: number; // Seconds between polls of subscribed resources, unset when subscriptions are disabled
+  subscriptionMaxBackoff: number; // Longest wait (seconds) between polls of a resource that keeps failing
+}
+
+/**
+ * Text of tool results: markdown, markdown without decoration, or the structured content as JSON
+ */
+export type OutputFormat = 'markdown' | 'compact' | 'json';
+
+/**
+ * Log levels, as used by MCP `notifications/message`
+ */
+export type LogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+export interface LoggingConfig {
+  level: LogLevel;
+  file?: string; // JSONL log file; logs go to stderr when unset
+  includeBodies: boolean; // Log request and response bodies (secrets are always redacted)
+}
+
+export interface ServerConfig {
+  configFile?: string;
+  profile?: string;
+  youtrack: YouTrackInstancesConfig;
+  transport: TransportConfig;
+  settings: ProfileSettings;
+  logging: LoggingConfig;
 }
 
 export interface YouTrackUser {
@@ -66,6 +139,35 @@ export interface YouTrackCustomField {
   };
 }
 
+export interface CustomFieldBundleValue {
+  name: string;
+  description?: string;
+  archived?: boolean;
+}
+
+/**
+ * Custom field metadata used for dynamic tool schema generation
+ */
+export interface CustomFieldMetadata {
+  name: string;
+  fieldType: { valueType: string; isMultiValue?: boolean };
+  instances?: Array<{
+    project?: {
+      id: string;
+      name: string;
+      shortName: string;
+    };
+    canBeEmpty?: boolean;
+    defaultValues?: Array<{ name: string }>;
+    bundle?: {
+      values?: CustomFieldBundleValue[];
+    };
+  }>;
+  defaultBundle?: {
+    values?: CustomFieldBundleValue[];
+  };
+}
+
 export interface YouTrackIssue {
   id: string;
   idReadable: string;
@@ -82,6 +184,24 @@ export interface YouTrackIssue {
   customFields?: YouTrackCustomField[];
   tags?: Array<{ name: string }>;
   comments?: YouTrackComment[];
+  links?: YouTrackIssueLink[];
+  attachments?: YouTrackAttachment[];
+  timeTracking?: { workItems: YouTrackWorkItem[] };
+}
+
+/**
+ * Parts of an issue a read can select
+ */
+export type IssueSection = 'description' | 'customFields' | 'tags' | 'comments' | 'links' | 'attachments' | 'timeTracking';
+
+export interface YouTrackAttachment {
+  id: string;
+  name: string;
+  size?: number; // Bytes
+  mimeType?: string;
+  url?: string;
+  created?: number;
+  author?: YouTrackUser;
 }
 
 export interface YouTrackComment {
@@ -97,6 +217,10 @@ export interface YouTrackSearchResult<T> {
   items: T[];
   hasMore?: boolean;
   totalCount?: number;
+  nextCursor?: string; // Continues the search after this page
+  cursor?: string; // Starts the search at this page, for continuing within it
+  shifted?: boolean; // Results changed since the page the cursor was made for
+  truncated?: boolean; // Issues were shortened or left out to fit the output budget
 }
 
 export interface CreateIssueRequest {
@@ -125,6 +249,7 @@ export interface SearchIssuesRequest {
   state?: string;
   limit?: number;
   skip?: number;
+  include?: IssueSection[]; // Parts of each issue to fetch; a fixed default set when omitted
 }
 
 export interface YouTrackApiError {
@@ -416,3 +541,24 @@ export interface CriticalPathResult {
     slack: number; // Float time in days
   }>;
 }
+
+// Dry-run previews
+
+export interface PlannedRequest {
+  method: 'POST' | 'DELETE';
+  path: string; // Relative to /api
+  body?: any;
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface DryRunPreview {
+  action: string; // e.g. "Update issue PROJ-1"
+  requests: PlannedRequest[]; // Requests that would be sent, in order
+  changes: FieldChange[];
+  notes?: string[];
+}
@@ -0,0 +1,126 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { formatApiError } from './utils.js';
+
+/**
+ * Session journal of changes made through the server, used by the undo tools.
+ *
+ * Before a mutation, YouTrackClient snapshots what the mutation overwrites and,
+ * once the mutation succeeds, records an undo step that restores it. Steps are
+ * collected per tool call with AsyncLocalStorage, so a tool call that makes
+ * several changes (e.g. creating subtasks and their links) is undone as a whole.
+ */
+
+/**
+ * Reverts one change made by a YouTrackClient method
+ */
+export interface UndoStep {
+  description: string; // e.g. "Restore Priority of PROJ-1 to Normal"
+  revert: () => Promise<void>;
+}
+
+/**
+ * The changes made by one tool call
+ */
+export interface RecordedChange {
+  id: number;
+  timestamp: string; // ISO 8601
+  tool: string;
+  instance: string;
+  steps: UndoStep[]; // In the order the changes were made
+}
+
+export interface RevertResult {
+  reverted: string[];
+  failed?: { description: string; error: string };
+}
+
+/**
+ * Number of tool calls a session remembers
+ */
+const MAX_RECORDED_CHANGES = 100;
+
+const currentSteps = new AsyncLocalStorage<UndoStep[]>();
+
+/**
+ * Whether the current call is recorded, i.e. whether snapshots are worth taking
+ */
+export function isRecordingChanges(): boolean {
+  return currentSteps.getStore() !== undefined;
+}
+
+/**
+ * Record an undo step for the tool call in progress
+ */
+export function recordUndoStep(step: UndoStep | undefined): void {
+  if (step) {
+    currentSteps.getStore()?.push(step);
+  }
+}
+
+export class ChangeJournal {
+  private changes: RecordedChange[] = [];
+  private nextId = 1;
+
+  /**
+   * Run a tool call, recording the undo steps of the changes it makes.
+   * Steps are kept even when the call fails part way.
+   */
+  async track<T>(tool: string, instance: string, fn: () => T | Promise<T>): Promise<T> {
+    const steps: UndoStep[] = [];
+    try {
+      return await currentSteps.run(steps, fn);
+    } finally {
+      if (steps.length > 0) {
+        this.changes.push({ id: this.nextId++, timestamp: new Date().toISOString(), tool, instance, steps });
+        if (this.changes.length > MAX_RECORDED_CHANGES) {
+          this.changes.shift();
+        }
+      }
+    }
+  }
+
+  /**
+   * Recorded changes, newest first
+   */
+  list(): RecordedChange[] {
+    return [...this.changes].reverse();
+  }
+
+  get(id: number): RecordedChange | undefined {
+    return this.changes.find(change => change.id === id);
+  }
+
+  last(): RecordedChange | undefined {
+    return this.changes[this.changes.length - 1];
+  }
+
+  /**
+   * Undo a change, last step first. Stops at the first step that fails; the change
+   * then keeps its remaining steps so the revert can be retried.
+   */
+  async revert(change: RecordedChange): Promise<RevertResult> {
+    // Reverting must not record undo steps of its own
+    const result = await currentSteps.exit(async (): Promise<RevertResult> => {
+      const reverted: string[] = [];
+
+      while (change.steps.length > 0) {
+        const step = change.steps[change.steps.length - 1];
+        try {
+          await step.revert();
+        } catch (error: any) {
+          return { reverted, failed: { description: step.description, error: formatApiError(error) } };
+        }
+        change.steps.pop();
+        reverted.push(step.description);
+      }
+
+      return { reverted };
+    });
+
+    if (change.steps.length === 0) {
+      this.changes = this.changes.filter(recorded => recorded !== change);
+    }
+
+    return result;
+  }
+}
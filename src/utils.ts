@@ -84,6 +84,10 @@ export function formatCustomFieldValue(field: any): string {
       const mins = value.minutes % 60;
       return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
     }
+    // Text field
+    if (value.text !== undefined) {
+      return value.text;
+    }
     // Fallback for other object types
     return JSON.stringify(value);
   }
@@ -91,6 +95,73 @@ export function formatCustomFieldValue(field: any): string {
   return String(value);
 }
 
+/**
+ * Reduce a custom field value to a comparable form for dry-run diffs:
+ * users by login (or the ID they are set with), enums by name, periods in minutes, text by its text
+ */
+export function summarizeFieldValue(value: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(summarizeFieldValue);
+  }
+  if (typeof value !== 'object') {
+    return value;
+  }
+  if (value.login) {
+    return value.login;
+  }
+  if (value.name) {
+    return value.name;
+  }
+  if (value.minutes !== undefined) {
+    return `${value.minutes}m`;
+  }
+  if (value.text !== undefined) {
+    return value.text;
+  }
+  return value.id ?? value;
+}
+
+/**
+ * Convert a custom field value as read from YouTrack into the form accepted when
+ * writing it back (e.g. to restore a field to its previous value)
+ */
+export function toWritableFieldValue(value: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toWritableFieldValue);
+  }
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  const typed = value.$type ? { $type: value.$type } : {};
+  if (value.minutes !== undefined) {
+    return { ...typed, minutes: value.minutes };
+  }
+  if (value.login) {
+    return { ...typed, login: value.login };
+  }
+  if (value.text !== undefined) {
+    return { ...typed, text: value.text };
+  }
+  if (value.name) {
+    return { ...typed, name: value.name };
+  }
+  return { ...typed, id: value.id };
+}
+
+/**
+ * A field name in a search query; names with spaces are wrapped in braces
+ */
+export function queryFieldName(name: string): string {
+  return name.includes(' ') ? `{${name}}` : name;
+}
+
 /**
  * Create a proper YouTrack date query for recent issues
  */
@@ -109,6 +180,36 @@ export function createDateRangeQuery(days: number): string {
   return `updated: ${startDateStr} .. ${endDateStr}`;
 }
 
+/**
+ * Words of keys whose values are replaced by redactSecrets, e.g. `token`,
+ * `apiToken` or `YOUTRACK_TOKEN`, but not `maxOutputTokens`
+ */
+const SECRET_KEY_WORDS = new Set(['token', 'password', 'secret', 'authorization', 'cookie', 'apikey']);
+
+/**
+ * Whether a key names a credential: one of its camelCase, snake_case or kebab-case
+ * words is a secret word (`api key` counts as `apikey`)
+ */
+function isSecretKey(key: string): boolean {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[\s_.-]+/);
+  return words.some((word, index) => SECRET_KEY_WORDS.has(word) || (word === 'api' && words[index + 1] === 'key'));
+}
+
+/**
+ * Deep-copy a value, replacing anything stored under a secret-looking key
+ */
+export function redactSecrets(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, isSecretKey(key) ? '[REDACTED]' : redactSecrets(item)]
+    ));
+  }
+  return value;
+}
+
 /**
  * Add a small delay to handle API eventual consistency
  */
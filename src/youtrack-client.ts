@@ -1,10 +1,11 @@
-﻿import axios, { AxiosInstance, AxiosError } from 'axios';
+﻿import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import {
   YouTrackConfig,
   YouTrackUser,
   YouTrackProject,
   YouTrackIssue,
   YouTrackSearchResult,
+  CustomFieldMetadata,
   CreateIssueRequest,
   UpdateIssueRequest,
   SearchIssuesRequest,
@@ -28,9 +29,34 @@ import {
   CriticalPathResult,
   CreateSubtaskRequest,
   SubtaskInfo,
-  CreateMultipleSubtasksRequest
+  CreateMultipleSubtasksRequest,
+  DryRunPreview,
+  FieldChange,
+  PlannedRequest,
+  IssueSection
 } from './types.js';
-import { formatApiError, delay, buildDateCustomField, parseDateFieldValue, isStartDateField, isDueDateField } from './utils.js';
+import { AuditLog, runAuditedAttempt } from './audit.js';
+import { createLogger } from './logger.js';
+import { createFixtureAdapter } from './fixtures.js';
+import { CUSTOM_FIELDS, SUMMARY_FIELD_NAMES, buildIssueFields } from './issue-fields.js';
+import { DEFAULT_PAGE_SIZE, IssueCursor, decodeCursor, encodeCursor, paginate } from './pagination.js';
+import { RequestLimiter, isRetryableError, getRetryAfterMs, getBackoffDelay, MAX_RETRY_AFTER_MS } from './rate-limiter.js';
+import { isRecordingChanges, recordUndoStep, UndoStep } from './undo.js';
+import { writeCustomField, FieldTypeInfo } from './field-writers.js';
+import { ChoiceOption, chooseOne, getCallSignal, reportProgress, runWithCallControl, throwIfCancelled } from './call-control.js';
+import { formatApiError, delay, buildDateCustomField, parseDateFieldValue, isStartDateField, isDueDateField, queryFieldName, summarizeFieldValue, toWritableFieldValue } from './utils.js';
+
+const log = createLogger('youtrack-client');
+
+/**
+ * Stands in for the ID of an issue that a dry run would create
+ */
+export const NEW_ISSUE_PLACEHOLDER = '<new issue>';
+
+/**
+ * Most users offered when a user name is ambiguous
+ */
+const USER_CANDIDATE_LIMIT = 20;
 
 /**
  * YouTrack API client with authentication, rate limiting, and error handling
@@ -38,17 +64,12 @@ import { formatApiError, delay, buildDateCustomField, parseDateFieldValue, isSta
 export class YouTrackClient {
   private client: AxiosInstance;
   private config: YouTrackConfig;
-  private rateLimitInfo: RateLimitInfo;
-  private requestQueue: Array<() => Promise<any>> = [];
-  private isProcessingQueue = false;
+  private limiter: RequestLimiter;
+  private fieldTypes = new Map<string, FieldTypeInfo>(); // By field name, from the last custom field fetch
 
-  constructor(config: YouTrackConfig) {
+  constructor(config: YouTrackConfig, private readonly auditLog?: AuditLog) {
     this.config = config;
-    this.rateLimitInfo = {
-      remaining: config.rateLimit || 60,
-      resetTime: Date.now() + 60000,
-      limit: config.rateLimit || 60
-    };
+    this.limiter = new RequestLimiter(config.rateLimit || 60, config.maxConcurrency || 4);
 
     this.client = axios.create({
       baseURL: `${config.url}/api`,
@@ -61,15 +82,22 @@ export class YouTrackClient {
       }
     });
 
-    // Add response interceptor for rate limiting and error enhancement
+    if (config.fixtures) {
+      // Record or replay responses instead of only sending requests
+      this.client.defaults.adapter = createFixtureAdapter(config.fixtures, { url: config.url, token: config.token });
+    }
+
+    // Send every request with the signal of the tool call in progress, so cancelled calls stop
+    this.client.interceptors.request.use((requestConfig) => {
+      requestConfig.signal ??= getCallSignal();
+      return requestConfig;
+    });
+
+    // Add response interceptor for error enhancement
     this.client.interceptors.response.use(
-      (response) => {
-        this.updateRateLimitInfo(response.headers);
-        return response;
-      },
+      (response) => response,
       (error) => {
         if (error.response) {
-          this.updateRateLimitInfo(error.response.headers);
           this.handleApiError(error);
 
           // Enhance error with meaningful message from YouTrack API
@@ -83,101 +111,112 @@ export class YouTrackClient {
         return Promise.reject(error);
       }
     );
-  }
 
-  private updateRateLimitInfo(headers: any): void {
-    // YouTrack doesn't provide rate limit headers by default,
-    // so we implement our own tracking
-    this.rateLimitInfo.remaining = Math.max(0, this.rateLimitInfo.remaining - 1);
+    // Record every write request in the audit log
+    this.client.interceptors.response.use(
+      async (response) => {
+        await this.auditRequest(response.config, { status: response.status, data: response.data });
+        return response;
+      },
+      async (error) => {
+        if (error.config) {
+          await this.auditRequest(error.config, { status: error.response?.status, error: error.message });
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
 
-    if (Date.now() > this.rateLimitInfo.resetTime) {
-      this.rateLimitInfo.remaining = this.rateLimitInfo.limit;
-      this.rateLimitInfo.resetTime = Date.now() + 60000;
+  /**
+   * Write a non-GET request to the audit log
+   */
+  private async auditRequest(requestConfig: InternalAxiosRequestConfig, outcome: { status?: number; data?: any; error?: string }): Promise<void> {
+    const method = requestConfig.method || 'get';
+    if (!this.auditLog || method.toLowerCase() === 'get') {
+      return;
     }
+
+    await this.auditLog.record({ method, url: requestConfig.url || '', data: requestConfig.data }, outcome);
   }
 
   private handleApiError(error: AxiosError): void {
-    if (this.config.debug) {
-      console.error('YouTrack API Error Details:');
-      console.error('  Status:', error.response?.status);
-      console.error('  URL:', error.config?.url);
-      console.error('  Method:', error.config?.method?.toUpperCase());
-      console.error('  Request Data:', error.config?.data);
-      console.error('  Response Data:', error.response?.data);
-    }
-
-    if (error.response?.status === 429) {
-      // Rate limited - implement exponential backoff
-      const retryAfter = parseInt(error.response.headers['retry-after'] || '60', 10);
-      this.rateLimitInfo.resetTime = Date.now() + (retryAfter * 1000);
-      this.rateLimitInfo.remaining = 0;
-    }
+    log.debug('YouTrack API error', {
+      status: error.response?.status,
+      method: error.config?.method?.toUpperCase(),
+      url: error.config?.url,
+      body: error.config?.data,
+      response: error.response?.data
+    });
   }
 
   /**
-   * Wrap a promise with a timeout to prevent indefinite hangs
+   * Run requests with a timeout to prevent indefinite hangs. Requests still in
+   * flight when the timeout expires, or when the tool call is cancelled, are aborted.
    */
-  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation: string): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
+  private async withTimeout<T>(requestFn: () => Promise<T>, timeoutMs: number, operation: string): Promise<T> {
+    const callSignal = getCallSignal();
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (callSignal?.aborted) {
+      abort();
+    }
+    callSignal?.addEventListener('abort', abort, { once: true });
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        abort();
         reject(new Error(`Operation "${operation}" timed out after ${timeoutMs}ms`));
       }, timeoutMs);
-
-      promise
-        .then((result) => {
-          clearTimeout(timeoutId);
-          resolve(result);
-        })
-        .catch((error) => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
     });
-  }
 
-  private async makeRequest<T>(requestFn: () => Promise<T>): Promise<T> {
-    if (this.rateLimitInfo.remaining <= 0 && Date.now() < this.rateLimitInfo.resetTime) {
-      // Add to queue if rate limited
-      return new Promise((resolve, reject) => {
-        this.requestQueue.push(async () => {
-          try {
-            const result = await requestFn();
-            resolve(result);
-          } catch (error) {
-            reject(error);
-          }
-        });
-        this.processQueue();
-      });
+    try {
+      return await Promise.race([runWithCallControl({ signal: controller.signal }, requestFn), timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+      callSignal?.removeEventListener('abort', abort);
     }
-
-    return requestFn();
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.isProcessingQueue || this.requestQueue.length === 0) {
-      return;
-    }
+  /**
+   * Send a request through the rate limiter, retrying transient failures with
+   * jittered exponential backoff. Non-idempotent POSTs are only retried when
+   * YouTrack cannot have processed them (429 or connection refused).
+   * Requests of a cancelled tool call are neither sent nor retried.
+   */
+  private async makeRequest<T>(requestFn: () => Promise<T>): Promise<T> {
+    const maxRetries = this.config.maxRetries ?? 3;
 
-    this.isProcessingQueue = true;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.limiter.run(() => {
+          throwIfCancelled();
+          return runAuditedAttempt(attempt + 1, requestFn);
+        });
+      } catch (error: any) {
+        throwIfCancelled();
 
-    while (this.requestQueue.length > 0 && this.rateLimitInfo.remaining > 0) {
-      const request = this.requestQueue.shift();
-      if (request) {
-        try {
-          await request();
-        } catch (error) {
-          console.error('Queued request failed:', error);
+        const retryAfterMs = getRetryAfterMs(error);
+        if (error.response?.status === 429) {
+          // Hold back every request, not just this one, until YouTrack accepts requests again
+          this.limiter.pause(retryAfterMs ?? getBackoffDelay(attempt));
         }
-      }
-    }
 
-    this.isProcessingQueue = false;
+        if (attempt >= maxRetries || !isRetryableError(error) || (retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) {
+          throw error;
+        }
 
-    // Schedule next processing if queue is not empty
-    if (this.requestQueue.length > 0) {
-      const waitTime = Math.max(0, this.rateLimitInfo.resetTime - Date.now());
-      setTimeout(() => this.processQueue(), waitTime);
+        const delayMs = retryAfterMs ?? getBackoffDelay(attempt);
+        log.info('Retrying request', {
+          method: error.config.method?.toUpperCase(),
+          url: error.config.url,
+          delayMs: Math.round(delayMs),
+          attempt: attempt + 1,
+          maxRetries,
+          error: error.message
+        });
+        await delay(delayMs);
+      }
     }
   }
 
@@ -190,14 +229,15 @@ export class YouTrackClient {
       await this.makeRequest(() => this.client.get('/users/me?fields=id'));
       return true;
     } catch (error: any) {
-      console.error('Connection test failed:', error.message || error);
+      let hint: string | undefined;
       if (error.response?.status === 401) {
-        console.error('  → Token is invalid or expired. Please check YOUTRACK_TOKEN.');
+        hint = 'Token is invalid or expired. Please check YOUTRACK_TOKEN.';
       } else if (error.response?.status === 403) {
-        console.error('  → Token lacks required permissions.');
+        hint = 'Token lacks required permissions.';
       } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-        console.error('  → Cannot reach YouTrack server. Check YOUTRACK_URL.');
+        hint = 'Cannot reach YouTrack server. Check YOUTRACK_URL.';
       }
+      log.error('Connection test failed', { url: this.config.url, error: error.message || String(error), hint });
       return false;
     }
   }
@@ -236,7 +276,9 @@ export class YouTrackClient {
    * Resolve a project identifier (ID or shortName) to a project ID
    * YouTrack API requires the actual project ID (e.g., "0-1") for issue creation,
    * but users often prefer the shortName (e.g., "QM").
-   * This method transparently handles both cases.
+   * This method transparently handles both cases, as well as exact project names.
+   * Other identifiers are matched against parts of project names, and the user
+   * picks among the matches, even a single one.
    */
   async resolveProjectId(projectIdentifier: string): Promise<string> {
     // If it looks like an ID (contains a dash with numbers), return as-is
@@ -247,17 +289,38 @@ export class YouTrackClient {
     // Otherwise, try to resolve the shortName to an ID
     try {
       const project = await this.getProject(projectIdentifier);
-      if (this.config.debug) {
-        console.log(`Resolved project shortName "${projectIdentifier}" to ID "${project.id}"`);
-      }
+      log.debug('Resolved project short name', { shortName: projectIdentifier, projectId: project.id });
       return project.id;
     } catch (error) {
+      throwIfCancelled();
+    }
+
+    // Not a short name: take a project of exactly that name or short name, in any case
+    const text = projectIdentifier.toLowerCase();
+    const projects = await this.getProjects().catch(() => [] as YouTrackProject[]);
+    const exact = projects.find(project => project.name.toLowerCase() === text || project.shortName.toLowerCase() === text);
+    if (exact) {
+      log.debug('Resolved project name', { name: projectIdentifier, projectId: exact.id });
+      return exact.id;
+    }
+
+    // Otherwise ask about the projects whose name or short name contains it
+    const candidates = projects.filter(project => !project.archived &&
+      (project.name.toLowerCase().includes(text) || project.shortName.toLowerCase().includes(text)));
+    if (candidates.length === 0) {
       // If resolution fails, return the original - let the API provide the error
-      if (this.config.debug) {
-        console.log(`Could not resolve project "${projectIdentifier}", using as-is`);
-      }
+      log.debug('Could not resolve project, using it as-is', { project: projectIdentifier });
       return projectIdentifier;
     }
+
+    const shortName = await chooseOne({
+      kind: 'project',
+      value: projectIdentifier,
+      options: candidates.map(project => ({ value: project.shortName, label: `${project.name} (${project.shortName})` }))
+    });
+    const project = candidates.find(candidate => candidate.shortName === shortName)!;
+    log.debug('Resolved partial project name', { name: projectIdentifier, projectId: project.id });
+    return project.id;
   }
 
   /**
@@ -279,6 +342,58 @@ export class YouTrackClient {
     return response.data;
   }
 
+  /**
+   * Resolve a user reference to a login. IDs and exact logins are kept; other
+   * text is searched like the user list search (login, name, email), and the
+   * user picks among the matches, even a single one. Unknown references are
+   * kept for the API to reject.
+   */
+  async resolveUserReference(reference: string, field?: string): Promise<string> {
+    if (/^\d+-\d+$/.test(reference)) {
+      return reference;
+    }
+
+    const users = (await this.getUsers(reference, USER_CANDIDATE_LIMIT)).filter(user => !user.banned);
+    const exact = users.find(user => user.login.toLowerCase() === reference.toLowerCase());
+    if (exact || users.length === 0) {
+      return exact?.login ?? reference;
+    }
+
+    const options: ChoiceOption[] = users.map(user => ({
+      value: user.login,
+      label: user.fullName ? `${user.fullName} (${user.login})` : user.login
+    }));
+    return chooseOne({ kind: 'user', field, value: reference, options });
+  }
+
+  /**
+   * Resolve the values of user fields in a custom field map to logins, see resolveUserReference
+   */
+  private async resolveUserFields(customFields?: Record<string, any>): Promise<Record<string, any> | undefined> {
+    if (!customFields) {
+      return customFields;
+    }
+
+    const resolved = { ...customFields };
+    for (const [name, value] of Object.entries(customFields)) {
+      const fieldType = this.fieldTypes.get(name);
+      if (fieldType ? fieldType.valueType !== 'user' : name !== this.getFieldName('Assignee')) {
+        continue;
+      }
+
+      if (typeof value === 'string' && value !== '') {
+        resolved[name] = await this.resolveUserReference(value, name);
+      } else if (Array.isArray(value)) {
+        const logins: any[] = [];
+        for (const item of value) {
+          logins.push(typeof item === 'string' && item !== '' ? await this.resolveUserReference(item, name) : item);
+        }
+        resolved[name] = logins;
+      }
+    }
+    return resolved;
+  }
+
   /**
    * Get user by ID or login
    */
@@ -295,49 +410,38 @@ export class YouTrackClient {
    * 
    * Fetches project-level custom field configurations to properly show
    * which values are available in which projects.
+   * Returns no fields when they cannot be fetched, so the server still starts.
    */
-  async getAccessibleCustomFields(): Promise<Array<{
-    name: string;
-    fieldType: { valueType: string };
-    instances?: Array<{
-      project?: {
-        id: string;
-        name: string;
-        shortName: string;
-      };
-      bundle?: {
-        values?: Array<{
-          name: string;
-          description?: string;
-        }>
-      }
-    }>;
-    defaultBundle?: {
-      values?: Array<{
-        name: string;
-        description?: string;
-      }>
+  async getAccessibleCustomFields(): Promise<CustomFieldMetadata[]> {
+    try {
+      return await this.fetchAccessibleCustomFields();
+    } catch (error: any) {
+      return [];
     }
-  }>> {
+  }
+
+  /**
+   * Fetch all accessible custom fields, throwing when the request fails
+   */
+  async fetchAccessibleCustomFields(): Promise<CustomFieldMetadata[]> {
     const startTime = Date.now();
-    console.error('  → Fetching custom fields from YouTrack API...');
+    log.info('Fetching custom fields', { url: this.config.url });
 
     try {
-      const request = this.makeRequest(() =>
-        this.client.get('/admin/customFieldSettings/customFields?fields=name,fieldType(valueType),instances(project(id,name,shortName),bundle(values(name,description))),defaultBundle(values(name,description))&$top=500')
-      );
-
       // Apply 15-second timeout to prevent indefinite hangs
-      const response = await this.withTimeout(request, 15000, 'getAccessibleCustomFields');
+      const response = await this.withTimeout(() => this.makeRequest(() =>
+        this.client.get('/admin/customFieldSettings/customFields?fields=name,fieldType(valueType,isMultiValue),instances(project(id,name,shortName),canBeEmpty,defaultValues(name),bundle(values(name,description,archived))),defaultBundle(values(name,description))&$top=500')
+      ), 15000, 'getAccessibleCustomFields');
 
       const elapsed = Date.now() - startTime;
-      console.error(`  → Custom fields fetch completed in ${elapsed}ms`);
+      log.info('Fetched custom fields', { count: response.data?.length, elapsedMs: elapsed });
 
+      this.fieldTypes = new Map((response.data as CustomFieldMetadata[]).map(field => [field.name, field.fieldType]));
       return response.data;
     } catch (error: any) {
       const elapsed = Date.now() - startTime;
-      console.warn(`Failed to fetch custom fields after ${elapsed}ms:`, error.message || error);
-      return [];
+      log.warning('Failed to fetch custom fields', { elapsedMs: elapsed, error });
+      throw error;
     }
   }
 
@@ -345,10 +449,13 @@ export class YouTrackClient {
    * Search issues
    */
   async searchIssues(searchRequest: SearchIssuesRequest): Promise<YouTrackSearchResult<YouTrackIssue>> {
-    const params = new URLSearchParams({
-      fields: 'id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject,customFields(id,name,value(id,name,login,fullName),projectCustomField(field(name,fieldType(valueType)))),tags(name)',
-      $top: (searchRequest.limit || 50).toString()
-    });
+    const limit = searchRequest.limit || 50;
+    const params = this.getIssueFieldParams(
+      searchRequest.include,
+      `id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject,${CUSTOM_FIELDS},tags(name)`
+    );
+    // One extra issue tells whether there are more
+    params.append('$top', (limit + 1).toString());
 
     if (searchRequest.skip) {
       params.append('$skip', searchRequest.skip.toString());
@@ -363,30 +470,100 @@ export class YouTrackClient {
     );
 
     // Map each issue to extract assignee from custom fields if needed
-    const mappedItems = response.data.map((issue: any) => this.mapIssueResponse(issue));
+    const mappedItems = response.data.slice(0, limit).map((issue: any) => this.mapIssueResponse(issue));
 
     return {
       items: mappedItems,
-      hasMore: response.data.length === (searchRequest.limit || 50),
+      hasMore: response.data.length > limit,
       totalCount: response.headers['x-total-count'] ? parseInt(response.headers['x-total-count'], 10) : undefined
     };
   }
 
   /**
-   * Get issue by ID
+   * Search one page of issues. Without a cursor the first page of `searchRequest`
+   * is returned; with one, the page after the cursor's, for the cursor's search.
+   * The page size and projection always come from `searchRequest`.
+   * The result's `nextCursor` continues the search. `shifted` is set when the
+   * issue before the page is not the last issue of the previous page, i.e.
+   * issues were added, removed or reordered in between.
    */
-  async getIssue(issueId: string): Promise<YouTrackIssue> {
+  async searchIssuesPage(searchRequest: SearchIssuesRequest, cursorToken?: string): Promise<YouTrackSearchResult<YouTrackIssue>> {
+    const limit = searchRequest.limit || 50;
+    const { limit: _limit, skip: _skip, include, ...request } = searchRequest;
+    const cursor: IssueCursor = cursorToken ? decodeCursor(cursorToken) : { request, skip: searchRequest.skip || 0 };
+    const pageRequest = { ...cursor.request, include };
+
+    let items: YouTrackIssue[];
+    let hasMore: boolean | undefined;
+    let totalCount: number | undefined;
+    let shifted = false;
+
+    if (cursor.lastId && cursor.skip > 0) {
+      // Fetch the previous page's last issue too, to check that it is still in place
+      const result = await this.searchIssues({ ...pageRequest, skip: cursor.skip - 1, limit: limit + 1 });
+      shifted = result.items[0]?.idReadable !== cursor.lastId;
+      items = result.items.slice(1);
+      ({ hasMore, totalCount } = result);
+    } else {
+      ({ items, hasMore, totalCount } = await this.searchIssues({ ...pageRequest, skip: cursor.skip, limit }));
+    }
+
+    return {
+      items,
+      hasMore,
+      totalCount,
+      shifted,
+      cursor: encodeCursor(cursor),
+      nextCursor: hasMore && items.length > 0
+        ? encodeCursor({ request: cursor.request, skip: cursor.skip + items.length, lastId: items[items.length - 1].idReadable })
+        : undefined
+    };
+  }
+
+  /**
+   * Iterate over every issue matching a search, fetching `pageSize` issues at a time.
+   * Issues that move to a later page while iterating are returned once.
+   */
+  async *iterateIssues(searchRequest: Omit<SearchIssuesRequest, 'limit' | 'skip'>, pageSize = DEFAULT_PAGE_SIZE): AsyncGenerator<YouTrackIssue> {
+    const seen = new Set<string>();
+    const pages = paginate((skip, top) => this.searchIssues({ ...searchRequest, skip, limit: top }), pageSize);
+
+    for await (const issue of pages) {
+      if (!seen.has(issue.id)) {
+        seen.add(issue.id);
+        yield issue;
+      }
+    }
+  }
+
+  /**
+   * Get issue by ID, with the parts in `include` (all but links, attachments and time tracking by default)
+   */
+  async getIssue(issueId: string, include?: readonly IssueSection[]): Promise<YouTrackIssue> {
+    const params = this.getIssueFieldParams(
+      include,
+      `id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject,${CUSTOM_FIELDS},tags(name),comments(id,text,author(id,login,fullName),created,updated,deleted)`
+    );
     const response = await this.makeRequest(() =>
-      this.client.get(`/issues/${issueId}?fields=id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject,customFields(id,name,value(id,name,login,fullName,isResolved,localizedName,color(id)),projectCustomField(field(name,fieldType(valueType)))),tags(name),comments(id,text,author(id,login,fullName),created,updated,deleted)`)
+      this.client.get(`/issues/${issueId}?${params.toString()}`)
     );
     return this.mapIssueResponse(response.data);
   }
 
+  /**
+   * Build a custom field object typed from the field's metadata, or undefined
+   * when the field's type is unknown
+   */
+  private buildTypedCustomField(name: string, value: any): any | undefined {
+    const fieldType = this.fieldTypes.get(name);
+    return fieldType ? writeCustomField(name, value, fieldType) : undefined;
+  }
+
   /**
    * Helper function to build custom field objects for YouTrack API
    */
   private buildCustomField(name: string, value: string, type: string): any {
-    return {
+    return this.buildTypedCustomField(name, value) ?? {
       name,
       value: { name: value },
       $type: type
@@ -397,7 +574,7 @@ export class YouTrackClient {
    * Helper function to build user custom field objects for YouTrack API
    */
   private buildUserCustomField(name: string, userId: string): any {
-    return {
+    return this.buildTypedCustomField(name, userId) ?? {
       name,
       value: { id: userId },
       $type: 'SingleUserIssueCustomField'
@@ -411,13 +588,45 @@ export class YouTrackClient {
     return buildDateCustomField(name, dateValue);
   }
 
+  /**
+   * Resolve a logical field name (e.g. "Story Points") to the field name used by this
+   * instance, as configured in the profile's fieldMappings
+   */
+  getFieldName(logicalName: string): string {
+    return this.config.fieldMappings?.[logicalName] ?? logicalName;
+  }
+
+  /**
+   * Whether a field name, in any case, is this instance's name for a logical field
+   */
+  private isField(name: string, logicalName: string): boolean {
+    return name.toLowerCase() === this.getFieldName(logicalName).toLowerCase();
+  }
+
+  /**
+   * Query parameters that request the issue attributes of a projection, or `defaultFields` without one
+   */
+  private getIssueFieldParams(include: readonly IssueSection[] | undefined, defaultFields: string): URLSearchParams {
+    if (!include) {
+      return new URLSearchParams({ fields: defaultFields });
+    }
+
+    const params = new URLSearchParams({ fields: buildIssueFields(include) });
+    if (!include.includes('customFields')) {
+      for (const name of SUMMARY_FIELD_NAMES) {
+        params.append('customFields', this.getFieldName(name));
+      }
+    }
+    return params;
+  }
+
   /**
    * Helper function to extract assignee from custom fields
    */
   private extractAssigneeFromCustomFields(customFields?: any[]): any {
     if (!customFields) return null;
 
-    const assigneeField = customFields.find(field => field.name === 'Assignee');
+    const assigneeField = customFields.find(field => field.name === this.getFieldName('Assignee'));
     return assigneeField?.value || null;
   }
 
@@ -454,20 +663,26 @@ export class YouTrackClient {
           $type
         });
       } else {
-        // Infer $type based on field name and value type
+        const typedField = this.buildTypedCustomField(name, value);
+        if (typedField) {
+          customFields.push(typedField);
+          return;
+        }
+
+        // Field type unknown: infer $type based on field name and value type
         let fieldType = 'SingleEnumIssueCustomField'; // default
         let formattedValue = value;
 
-        if (name === 'Estimation' || name === 'Spent time') {
+        if (name === this.getFieldName('Estimation') || name === this.getFieldName('Spent time')) {
           fieldType = 'PeriodIssueCustomField';
           formattedValue = typeof value === 'object' ? value : { minutes: value };
-        } else if (name === 'Story Points') {
+        } else if (name === this.getFieldName('Story Points')) {
           fieldType = 'SimpleIssueCustomField';
           // Story Points value should be directly the number, not wrapped
-        } else if (name === 'Assignee') {
+        } else if (name === this.getFieldName('Assignee')) {
           fieldType = 'SingleUserIssueCustomField';
           formattedValue = typeof value === 'string' ? { id: value } : value;
-        } else if (name === 'Start Date' || name === 'Due Date' || name.toLowerCase().includes('date')) {
+        } else if (name === this.getFieldName('Start Date') || name === this.getFieldName('Due Date') || name.toLowerCase().includes('date')) {
           fieldType = 'DateIssueCustomField';
           formattedValue = typeof value === 'number' ? value : value;
         } else if (name === 'Layer' || name === 'Service' || name === 'Target Scope') {
@@ -496,9 +711,9 @@ export class YouTrackClient {
   }
 
   /**
-   * Create a new issue
+   * Build the REST payload for creating an issue
    */
-  async createIssue(createRequest: CreateIssueRequest): Promise<YouTrackIssue> {
+  private async buildCreateIssuePayload(createRequest: CreateIssueRequest): Promise<any> {
     // Resolve project shortName to ID if needed
     const projectId = await this.resolveProjectId(createRequest.project);
 
@@ -515,47 +730,55 @@ export class YouTrackClient {
     const additionalFields: any[] = [];
 
     if (createRequest.assignee) {
-      additionalFields.push(this.buildUserCustomField('Assignee', createRequest.assignee));
+      const assignee = await this.resolveUserReference(createRequest.assignee, this.getFieldName('Assignee'));
+      additionalFields.push(this.buildUserCustomField(this.getFieldName('Assignee'), assignee));
     }
 
     if (createRequest.priority) {
-      additionalFields.push(this.buildCustomField('Priority', createRequest.priority, 'SingleEnumIssueCustomField'));
+      additionalFields.push(this.buildCustomField(this.getFieldName('Priority'), createRequest.priority, 'SingleEnumIssueCustomField'));
     }
 
     if (createRequest.type) {
-      additionalFields.push(this.buildCustomField('Type', createRequest.type, 'SingleEnumIssueCustomField'));
+      additionalFields.push(this.buildCustomField(this.getFieldName('Type'), createRequest.type, 'SingleEnumIssueCustomField'));
     }
 
     // Merge all custom fields
     if (createRequest.customFields || additionalFields.length > 0) {
-      issueData.customFields = this.mergeCustomFields(createRequest.customFields, additionalFields);
+      issueData.customFields = this.mergeCustomFields(await this.resolveUserFields(createRequest.customFields), additionalFields);
     }
 
-    if (this.config.debug) {
-      console.log('Creating issue with data:', JSON.stringify(issueData, null, 2));
-    }
+    return issueData;
+  }
+
+  /**
+   * Create a new issue
+   */
+  async createIssue(createRequest: CreateIssueRequest): Promise<YouTrackIssue> {
+    const issueData = await this.buildCreateIssuePayload(createRequest);
+
+    log.debug('Creating issue', { body: issueData });
 
     try {
       const response = await this.makeRequest(() =>
         this.client.post('/issues?fields=id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),assignee(id,login,fullName),created,updated,numberInProject,customFields(id,name,value(id,name,login,fullName))', issueData)
       );
-      return this.mapIssueResponse(response.data);
+      const issue = this.mapIssueResponse(response.data);
+      recordUndoStep({
+        description: `Delete created issue ${issue.idReadable}`,
+        revert: () => this.deleteIssue(issue.idReadable)
+      });
+      return issue;
     } catch (error: any) {
       // Enhanced error logging for debugging
-      if (this.config.debug) {
-        console.error('Failed to create issue. Request data was:', JSON.stringify(issueData, null, 2));
-        if (error.response?.data) {
-          console.error('YouTrack API error response:', JSON.stringify(error.response.data, null, 2));
-        }
-      }
+      log.debug('Failed to create issue', { body: issueData, response: error.response?.data });
       throw error;
     }
   }
 
   /**
-   * Update an existing issue
+   * Build the REST payload for updating an issue
    */
-  async updateIssue(issueId: string, updateRequest: UpdateIssueRequest): Promise<YouTrackIssue> {
+  private async buildUpdateIssuePayload(updateRequest: UpdateIssueRequest): Promise<any> {
     const updateData: any = {};
 
     if (updateRequest.summary) {
@@ -570,30 +793,40 @@ export class YouTrackClient {
     const additionalFields: any[] = [];
 
     if (updateRequest.assignee) {
-      additionalFields.push(this.buildUserCustomField('Assignee', updateRequest.assignee));
+      const assignee = await this.resolveUserReference(updateRequest.assignee, this.getFieldName('Assignee'));
+      additionalFields.push(this.buildUserCustomField(this.getFieldName('Assignee'), assignee));
     }
 
     if (updateRequest.priority) {
-      additionalFields.push(this.buildCustomField('Priority', updateRequest.priority, 'SingleEnumIssueCustomField'));
+      additionalFields.push(this.buildCustomField(this.getFieldName('Priority'), updateRequest.priority, 'SingleEnumIssueCustomField'));
     }
 
     if (updateRequest.state) {
-      // Try both 'State' and 'Stage' field names as different YouTrack instances may use different names
-      additionalFields.push(this.buildCustomField('Stage', updateRequest.state, 'StateIssueCustomField'));
+      // Different YouTrack instances name the state field differently; map it with fieldMappings.State
+      additionalFields.push(this.buildCustomField(this.getFieldName('State'), updateRequest.state, 'StateIssueCustomField'));
     }
 
     // Merge all custom fields
     if (updateRequest.customFields || additionalFields.length > 0) {
-      updateData.customFields = this.mergeCustomFields(updateRequest.customFields, additionalFields);
+      updateData.customFields = this.mergeCustomFields(await this.resolveUserFields(updateRequest.customFields), additionalFields);
     }
 
-    if (this.config.debug) {
-      console.log(`Updating issue ${issueId} with data:`, JSON.stringify(updateData, null, 2));
-    }
+    return updateData;
+  }
+
+  /**
+   * Update an existing issue
+   */
+  async updateIssue(issueId: string, updateRequest: UpdateIssueRequest): Promise<YouTrackIssue> {
+    const updateData = await this.buildUpdateIssuePayload(updateRequest);
 
+    log.debug('Updating issue', { issueId, body: updateData });
+
+    const undoStep = await this.captureIssueFields(issueId, updateData);
     const response = await this.makeRequest(() =>
       this.client.post(`/issues/${issueId}?fields=id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject,customFields(id,name,value(id,name,login,fullName))`, updateData)
     );
+    recordUndoStep(undoStep);
     return this.mapIssueResponse(response.data);
   }
 
@@ -620,7 +853,7 @@ export class YouTrackClient {
    * Get rate limit information
    */
   getRateLimitInfo(): RateLimitInfo {
-    return { ...this.rateLimitInfo };
+    return this.limiter.getInfo();
   }
 
   // Time Tracking Methods
@@ -636,9 +869,20 @@ export class YouTrackClient {
   }
 
   /**
-   * Create a work item for an issue
+   * Get the work item types enabled in a project (ID or short name), or all of them without one
    */
-  async createWorkItem(issueId: string, workItemRequest: CreateWorkItemRequest): Promise<YouTrackWorkItem> {
+  async getWorkItemTypes(projectId?: string): Promise<Array<{ id: string; name: string }>> {
+    const path = projectId ? `/admin/projects/${projectId}/timeTrackingSettings/workItemTypes` : '/admin/timeTrackingSettings/workItemTypes';
+    const response = await this.makeRequest(() =>
+      this.client.get(`${path}?fields=id,name`)
+    );
+    return response.data || [];
+  }
+
+  /**
+   * Build the REST payload for creating a work item
+   */
+  private buildWorkItemPayload(workItemRequest: CreateWorkItemRequest): any {
     const workItemData: any = {
       duration: { minutes: workItemRequest.duration },
       date: workItemRequest.date || Date.now()
@@ -652,14 +896,26 @@ export class YouTrackClient {
       workItemData.type = { name: workItemRequest.type };
     }
 
-    if (this.config.debug) {
-      console.log('Creating work item with data:', JSON.stringify(workItemData, null, 2));
-    }
+    return workItemData;
+  }
+
+  /**
+   * Create a work item for an issue
+   */
+  async createWorkItem(issueId: string, workItemRequest: CreateWorkItemRequest): Promise<YouTrackWorkItem> {
+    const workItemData = this.buildWorkItemPayload(workItemRequest);
+
+    log.debug('Creating work item', { issueId, body: workItemData });
 
     const response = await this.makeRequest(() =>
       this.client.post(`/issues/${issueId}/timeTracking/workItems?fields=id,author(id,login,fullName),date,duration(id,minutes,presentation),description,type(id,name),created,updated`, workItemData)
     );
-    return response.data;
+    const workItem: YouTrackWorkItem = response.data;
+    recordUndoStep({
+      description: `Delete work item ${workItem.id} (${workItem.duration?.presentation || `${workItem.duration?.minutes}m`}) from ${issueId}`,
+      revert: () => this.deleteWorkItem(issueId, workItem.id)
+    });
+    return workItem;
   }
 
   /**
@@ -684,9 +940,7 @@ export class YouTrackClient {
       updateData.type = { name: workItemRequest.type };
     }
 
-    if (this.config.debug) {
-      console.log('Updating work item with data:', JSON.stringify(updateData, null, 2));
-    }
+    log.debug('Updating work item', { issueId, workItemId, body: updateData });
 
     const response = await this.makeRequest(() =>
       this.client.post(`/issues/${issueId}/timeTracking/workItems/${workItemId}?fields=id,author(id,login,fullName),date,duration(id,minutes,presentation),description,type(id,name),created,updated`, updateData)
@@ -721,12 +975,12 @@ export class YouTrackClient {
     // Extract estimation and spent time from custom fields
     if (issue.customFields) {
       for (const field of issue.customFields) {
-        if (field.name === 'Estimation' && field.value) {
+        if (field.name === this.getFieldName('Estimation') && field.value) {
           summary.estimation = {
             minutes: field.value.minutes || 0,
             presentation: field.value.presentation || '0m'
           };
-        } else if (field.name === 'Spent time' && field.value) {
+        } else if (field.name === this.getFieldName('Spent time') && field.value) {
           summary.spentTime = {
             minutes: field.value.minutes || 0,
             presentation: field.value.presentation || '0m'
@@ -745,20 +999,20 @@ export class YouTrackClient {
     const updateData = {
       customFields: [
         {
-          name: 'Estimation',
+          name: this.getFieldName('Estimation'),
           value: { minutes: estimationMinutes },
           $type: 'PeriodIssueCustomField'
         }
       ]
     };
 
-    if (this.config.debug) {
-      console.log('Setting estimation with data:', JSON.stringify(updateData, null, 2));
-    }
+    log.debug('Setting estimation', { issueId, body: updateData });
 
+    const undoStep = await this.captureIssueFields(issueId, updateData);
     const response = await this.makeRequest(() =>
       this.client.post(`/issues/${issueId}?fields=id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject,customFields(id,name,value(id,name,login,fullName,minutes,presentation))`, updateData)
     );
+    recordUndoStep(undoStep);
     return this.mapIssueResponse(response.data);
   }
 
@@ -780,31 +1034,29 @@ export class YouTrackClient {
   async createIssueLink(issueId: string, linkRequest: CreateIssueLinkRequest): Promise<YouTrackIssueLink> {
     const direction = linkRequest.direction || 'OUTWARD';
 
-    if (this.config.debug) {
-      console.log('Creating issue link:');
-      console.log('  Source Issue:', issueId);
-      console.log('  Target Issue:', linkRequest.targetIssue);
-      console.log('  Link Type:', linkRequest.linkType);
-      console.log('  Direction:', direction);
-    }
+    log.debug('Creating issue link', {
+      issueId,
+      targetIssue: linkRequest.targetIssue,
+      linkType: linkRequest.linkType,
+      direction
+    });
 
     // Try the commands approach first (simpler and more reliable)
     try {
-      return await this.createIssueLinkViaCommands(issueId, linkRequest, direction);
+      const link = await this.createIssueLinkViaCommands(issueId, linkRequest, direction);
+      return this.recordCreatedLink(issueId, linkRequest.targetIssue, link);
     } catch (commandError) {
-      if (this.config.debug) {
-        console.log('Commands approach failed, trying direct API approach:', commandError);
-      }
+      log.debug('Commands approach failed, trying direct API approach', { error: commandError });
 
       // Fall back to direct API approach
       try {
-        return await this.createIssueLinkViaDirectAPI(issueId, linkRequest, direction);
+        const link = await this.createIssueLinkViaDirectAPI(issueId, linkRequest, direction);
+        return this.recordCreatedLink(issueId, linkRequest.targetIssue, link);
       } catch (directApiError) {
-        if (this.config.debug) {
-          console.error('Both approaches failed:');
-          console.error('  Commands error:', commandError);
-          console.error('  Direct API error:', directApiError);
-        }
+        log.debug('Both approaches to create the issue link failed', {
+          commandsError: commandError,
+          directApiError
+        });
 
         // Get available link types for better error message
         let availableLinkTypes = '';
@@ -821,9 +1073,21 @@ export class YouTrackClient {
   }
 
   /**
-   * Create issue link using YouTrack commands (preferred method)
+   * Record the undo step that removes a newly created link
    */
-  private async createIssueLinkViaCommands(issueId: string, linkRequest: CreateIssueLinkRequest, direction: string): Promise<YouTrackIssueLink> {
+  private recordCreatedLink(issueId: string, targetIssueId: string, link: YouTrackIssueLink): YouTrackIssueLink {
+    const linkTypeName = link.linkType.localizedName || link.linkType.name;
+    recordUndoStep({
+      description: `Remove "${linkTypeName}" link from ${issueId} to ${targetIssueId}`,
+      revert: () => this.deleteIssueLinkViaCommands(issueId, linkTypeName, targetIssueId, link.direction)
+    });
+    return link;
+  }
+
+  /**
+   * Build the command that creates an issue link
+   */
+  private buildLinkCommand(issueId: string, linkRequest: CreateIssueLinkRequest, direction: string): { query: string; issues: Array<{ idReadable: string }> } {
     // Map link types and directions to YouTrack command syntax
     const linkTypeMap: Record<string, { outward: string; inward: string }> = {
       'depend': { outward: 'is required for', inward: 'depends on' },
@@ -846,17 +1110,21 @@ export class YouTrackClient {
     }
 
     const commandText = direction === 'OUTWARD' ? linkMapping.outward : linkMapping.inward;
-    const query = `${commandText} ${linkRequest.targetIssue}`;
 
-    const commandBody = {
-      query: query,
+    return {
+      query: `${commandText} ${linkRequest.targetIssue}`,
       issues: [{ idReadable: issueId }]
     };
+  }
 
-    if (this.config.debug) {
-      console.log('Using commands approach with query:', query);
-      console.log('Command body:', JSON.stringify(commandBody, null, 2));
-    }
+  /**
+   * Create issue link using YouTrack commands (preferred method)
+   */
+  private async createIssueLinkViaCommands(issueId: string, linkRequest: CreateIssueLinkRequest, direction: string): Promise<YouTrackIssueLink> {
+    const commandBody = this.buildLinkCommand(issueId, linkRequest, direction);
+    const linkTypeKey = linkRequest.linkType.toLowerCase();
+
+    log.debug('Creating issue link with command', { query: commandBody.query, body: commandBody });
 
     await this.makeRequest(() =>
       this.client.post('/commands', commandBody)
@@ -886,20 +1154,34 @@ export class YouTrackClient {
   }
 
   /**
-   * Create issue link using direct YouTrack API (fallback method)
+   * Resolve the link type and link ID used by the direct API to create an issue link
    */
-  private async createIssueLinkViaDirectAPI(issueId: string, linkRequest: CreateIssueLinkRequest, direction: string): Promise<YouTrackIssueLink> {
+  private async resolveDirectLink(linkRequest: CreateIssueLinkRequest, direction: string): Promise<{ linkType: YouTrackLinkType; linkId: string }> {
     // First, get all available link types to resolve the link type name to ID
     const linkTypes = await this.getLinkTypes();
 
     // Find the link type by name (case-insensitive, check both name and localizedName)
-    const linkType = linkTypes.find(lt =>
-      lt.name.toLowerCase() === linkRequest.linkType.toLowerCase() ||
-      (lt.localizedName && lt.localizedName.toLowerCase() === linkRequest.linkType.toLowerCase())
+    const text = linkRequest.linkType.toLowerCase();
+    let linkType = linkTypes.find(lt =>
+      lt.name.toLowerCase() === text ||
+      (lt.localizedName && lt.localizedName.toLowerCase() === text)
     );
 
     if (!linkType) {
-      throw new Error(`Link type "${linkRequest.linkType}" not found. Available link types: ${linkTypes.map(lt => lt.localizedName || lt.name).join(', ')}`);
+      // Otherwise the link types whose name or direction names contain it, e.g. "depend" or "blocked by"
+      const candidates = linkTypes.filter(lt =>
+        [lt.name, lt.localizedName, lt.sourceToTarget, lt.targetToSource].some(name => name?.toLowerCase().includes(text))
+      );
+      if (candidates.length === 0) {
+        throw new Error(`Link type "${linkRequest.linkType}" not found. Available link types: ${linkTypes.map(lt => lt.localizedName || lt.name).join(', ')}`);
+      }
+
+      const name = await chooseOne({
+        kind: 'linkType',
+        value: linkRequest.linkType,
+        options: candidates.map(lt => ({ value: lt.name, label: `${lt.localizedName || lt.name} (${lt.sourceToTarget} / ${lt.targetToSource})` }))
+      });
+      linkType = candidates.find(lt => lt.name === name)!;
     }
 
     // Construct the linkId with direction marker
@@ -911,18 +1193,27 @@ export class YouTrackClient {
       linkId += direction === 'OUTWARD' ? 's' : 't';
     }
 
+    return { linkType, linkId };
+  }
+
+  /**
+   * Create issue link using direct YouTrack API (fallback method)
+   */
+  private async createIssueLinkViaDirectAPI(issueId: string, linkRequest: CreateIssueLinkRequest, direction: string): Promise<YouTrackIssueLink> {
+    const { linkType, linkId } = await this.resolveDirectLink(linkRequest, direction);
+
     // Prepare the request body according to YouTrack API specification
     const requestBody = {
       id: linkRequest.targetIssue
     };
 
-    if (this.config.debug) {
-      console.log('Using direct API approach:');
-      console.log('  Link Type:', linkType.name, `(ID: ${linkType.id})`);
-      console.log('  Direction:', direction);
-      console.log('  Link ID:', linkId);
-      console.log('  Request Body:', JSON.stringify(requestBody, null, 2));
-    }
+    log.debug('Creating issue link with direct API', {
+      linkType: linkType.name,
+      linkTypeId: linkType.id,
+      direction,
+      linkId,
+      body: requestBody
+    });
 
     // Use the correct YouTrack API endpoint
     await this.makeRequest(() =>
@@ -961,27 +1252,26 @@ export class YouTrackClient {
     // Extract link type name
     const linkTypeName = linkToDelete.linkType.localizedName || linkToDelete.linkType.name;
 
-    if (this.config.debug) {
-      console.log(`Deleting link ${linkId} of type "${linkTypeName}" with direction "${linkToDelete.direction}"`);
-      console.log(`Link has ${linkToDelete.issues.length} target issues:`, linkToDelete.issues.map(i => i.idReadable));
-    }
+    log.debug('Deleting issue link', {
+      issueId,
+      linkId,
+      linkType: linkTypeName,
+      direction: linkToDelete.direction,
+      targetIssues: linkToDelete.issues.map(i => i.idReadable)
+    });
 
     // Check if there are target issues in the main issues array
     if (linkToDelete.issues.length === 0) {
       // Try trimmedIssues as fallback
       if (linkToDelete.trimmedIssues && linkToDelete.trimmedIssues.length > 0) {
-        if (this.config.debug) {
-          console.log(`Using trimmedIssues as fallback: ${linkToDelete.trimmedIssues.length} issues`);
-        }
+        log.debug('Using trimmedIssues as fallback', { count: linkToDelete.trimmedIssues.length });
         for (const targetIssue of linkToDelete.trimmedIssues) {
           await this.deleteIssueLinkViaCommands(issueId, linkTypeName, targetIssue.idReadable, linkToDelete.direction);
         }
       } else {
         // If no target issues found, try to delete the link using a different approach
         // This might be a broken link or a link with no valid targets
-        if (this.config.debug) {
-          console.log(`No target issues found for link ${linkId}, attempting direct deletion via commands`);
-        }
+        log.debug('No target issues found for link, attempting direct deletion via commands', { linkId });
 
         // Try to use the link type directly without a specific target
         // This is a fallback for broken or empty links
@@ -993,12 +1283,28 @@ export class YouTrackClient {
         await this.deleteIssueLinkViaCommands(issueId, linkTypeName, targetIssue.idReadable, linkToDelete.direction);
       }
     }
+
+    const targetIssueIds = [...linkToDelete.issues, ...(linkToDelete.trimmedIssues || [])]
+      .map(issue => issue.idReadable)
+      .filter((id, index, ids) => ids.indexOf(id) === index);
+    if (targetIssueIds.length > 0) {
+      // Undirected links are reported as BOTH but created as OUTWARD
+      const direction = linkToDelete.direction === 'INWARD' ? 'INWARD' : 'OUTWARD';
+      recordUndoStep({
+        description: `Re-create "${linkTypeName}" link from ${issueId} to ${targetIssueIds.join(', ')}`,
+        revert: async () => {
+          for (const targetIssue of targetIssueIds) {
+            await this.createIssueLink(issueId, { linkType: linkTypeName, targetIssue, direction });
+          }
+        }
+      });
+    }
   }
 
   /**
-   * Delete issue link using YouTrack commands
+   * Get the command text for a link type and direction, as used by "remove" commands
    */
-  private async deleteIssueLinkViaCommands(issueId: string, linkTypeName: string, targetIssueId: string, direction: string): Promise<void> {
+  private getRemoveLinkCommandText(linkTypeName: string, direction: string): string {
     // Map link types to YouTrack command syntax based on the command reference
     // The commands use the exact names from the YouTrack command reference
     const linkTypeMap: Record<string, { outward: string; inward: string }> = {
@@ -1043,17 +1349,29 @@ export class YouTrackClient {
       }
     }
 
-    const query = `remove ${commandText} ${targetIssueId}`;
+    return commandText;
+  }
+
+  /**
+   * Build the command that removes links of a type, to one target issue or to all
+   */
+  private buildRemoveLinkCommand(issueId: string, linkTypeName: string, direction: string, targetIssueId?: string): { query: string; issues: Array<{ idReadable: string }> } {
+    const commandText = this.getRemoveLinkCommandText(linkTypeName, direction);
 
-    const commandBody = {
-      query: query,
+    return {
+      query: targetIssueId ? `remove ${commandText} ${targetIssueId}` : `remove ${commandText}`,
       issues: [{ idReadable: issueId }]
     };
+  }
 
-    if (this.config.debug) {
-      console.log('Deleting issue link using commands approach with query:', query);
-      console.log('Command body:', JSON.stringify(commandBody, null, 2));
-    }
+  /**
+   * Delete issue link using YouTrack commands
+   */
+  private async deleteIssueLinkViaCommands(issueId: string, linkTypeName: string, targetIssueId: string, direction: string): Promise<void> {
+    const commandBody = this.buildRemoveLinkCommand(issueId, linkTypeName, direction, targetIssueId);
+    const query = commandBody.query;
+
+    log.debug('Deleting issue link with command', { query, body: commandBody });
 
     await this.makeRequest(() =>
       this.client.post('/commands', commandBody)
@@ -1066,69 +1384,17 @@ export class YouTrackClient {
   private async deleteEmptyLinkViaCommands(issueId: string, linkTypeName: string, direction: string): Promise<void> {
     // For empty links, we can try to remove all links of this type
     // This is a more aggressive approach for cleaning up broken links
+    const commandBody = this.buildRemoveLinkCommand(issueId, linkTypeName, direction);
+    const query = commandBody.query;
 
-    const linkTypeKey = linkTypeName.toLowerCase();
-
-    // Use the same mapping as the main deletion method
-    const linkTypeMap: Record<string, { outward: string; inward: string }> = {
-      'depend': { outward: 'is required for', inward: 'depends on' },
-      'depends on': { outward: 'is required for', inward: 'depends on' },
-      'blocks': { outward: 'blocks', inward: 'is blocked by' },
-      'relates to': { outward: 'relates to', inward: 'relates to' },
-      'relates': { outward: 'relates to', inward: 'relates to' },
-      'parent for': { outward: 'parent for', inward: 'subtask of' },
-      'subtask of': { outward: 'subtask of', inward: 'parent for' },
-      'subtask': { outward: 'parent for', inward: 'subtask of' },
-      'duplicates': { outward: 'duplicates', inward: 'is duplicated by' },
-      'duplicate': { outward: 'duplicates', inward: 'is duplicated by' },
-      'is duplicated by': { outward: 'is duplicated by', inward: 'duplicates' }
-    };
-
-    const linkMapping = linkTypeMap[linkTypeKey];
-    let commandText: string;
-
-    if (linkMapping) {
-      commandText = direction === 'OUTWARD' ? linkMapping.outward : linkMapping.inward;
-    } else {
-      // Use the same fallback logic as the main method
-      if (linkTypeKey.includes('depend')) {
-        commandText = direction === 'OUTWARD' ? 'is required for' : 'depends on';
-      } else if (linkTypeKey.includes('block')) {
-        commandText = direction === 'OUTWARD' ? 'blocks' : 'is blocked by';
-      } else if (linkTypeKey.includes('relate')) {
-        commandText = 'relates to';
-      } else if (linkTypeKey.includes('parent')) {
-        commandText = direction === 'OUTWARD' ? 'parent for' : 'subtask of';
-      } else if (linkTypeKey.includes('subtask')) {
-        commandText = direction === 'OUTWARD' ? 'subtask of' : 'parent for';
-      } else if (linkTypeKey.includes('duplicate')) {
-        commandText = direction === 'OUTWARD' ? 'duplicates' : 'is duplicated by';
-      } else {
-        commandText = linkTypeName.toLowerCase();
-      }
-    }
-
-    // Try to remove all links of this type (this is a more general approach)
-    const query = `remove ${commandText}`;
-
-    const commandBody = {
-      query: query,
-      issues: [{ idReadable: issueId }]
-    };
-
-    if (this.config.debug) {
-      console.log('Deleting empty/broken link using general removal command:', query);
-      console.log('Command body:', JSON.stringify(commandBody, null, 2));
-    }
+    log.debug('Deleting empty or broken link with general removal command', { query, body: commandBody });
 
     try {
       await this.makeRequest(() =>
         this.client.post('/commands', commandBody)
       );
     } catch (error) {
-      if (this.config.debug) {
-        console.log('General removal failed, this might be expected for empty links:', error);
-      }
+      log.debug('General removal failed, this might be expected for empty links', { error });
       // For empty links, the removal might fail, which is acceptable
       // The link might already be in an inconsistent state
     }
@@ -1156,22 +1422,16 @@ export class YouTrackClient {
 
     for (const endpoint of endpoints) {
       try {
-        if (this.config.debug) {
-          console.log(`Trying to get link types from: ${endpoint}`);
-        }
+        log.debug('Trying to get link types', { endpoint });
 
         const response = await this.makeRequest(() => this.client.get(endpoint));
 
-        if (this.config.debug) {
-          console.log(`Successfully retrieved ${response.data?.length || 0} link types from: ${endpoint}`);
-        }
+        log.debug('Retrieved link types', { endpoint, count: response.data?.length || 0 });
 
         return response.data || [];
       } catch (error: any) {
         lastError = error;
-        if (this.config.debug) {
-          console.log(`Failed to get link types from ${endpoint}:`, error.response?.status, error.message);
-        }
+        log.debug('Failed to get link types', { endpoint, error });
         continue;
       }
     }
@@ -1189,9 +1449,7 @@ export class YouTrackClient {
     try {
       const linkTypes = await this.getLinkTypes();
 
-      if (this.config.debug) {
-        console.log('Available link types:', linkTypes.map(lt => `${lt.name} (${lt.localizedName || 'no localized name'})`));
-      }
+      log.debug('Available link types', { linkTypes: linkTypes.map(lt => `${lt.name} (${lt.localizedName || 'no localized name'})`) });
 
       // Try to find subtask-related link types in order of preference
       const subtaskPatterns = [
@@ -1235,9 +1493,7 @@ export class YouTrackClient {
             direction = 'OUTWARD';
           }
 
-          if (this.config.debug) {
-            console.log(`Found subtask link type: ${linkTypeName} with direction: ${direction}`);
-          }
+          log.debug('Found subtask link type', { linkType: linkTypeName, direction });
 
           return { linkType: linkTypeName, direction };
         }
@@ -1255,9 +1511,7 @@ export class YouTrackClient {
         if (linkType) {
           const linkTypeName = linkType.localizedName || linkType.name;
 
-          if (this.config.debug) {
-            console.log(`Using fallback relationship link type: ${linkTypeName}`);
-          }
+          log.debug('Using fallback relationship link type', { linkType: linkTypeName });
 
           return { linkType: linkTypeName, direction: 'OUTWARD' };
         }
@@ -1266,20 +1520,15 @@ export class YouTrackClient {
       throw new Error(`No suitable subtask or relationship link type found. Available link types: ${linkTypes.map(lt => lt.localizedName || lt.name).join(', ')}`);
 
     } catch (error: any) {
-      if (this.config.debug) {
-        console.error('Error finding subtask link type:', error);
-      }
+      log.debug('Error finding subtask link type', { error });
       throw new Error(`Failed to find subtask link type: ${error.message}`);
     }
   }
 
   /**
-   * Create a subtask and link it to a parent issue
+   * Build the create request for a subtask in its parent's project
    */
-  async createSubtask(request: CreateSubtaskRequest): Promise<{ subtask: YouTrackIssue; link: YouTrackIssueLink }> {
-    // Get the parent issue to inherit project
-    const parentIssue = await this.getIssue(request.parentIssueId);
-
+  private buildSubtaskCreateRequest(request: CreateSubtaskRequest, parentIssue: YouTrackIssue): CreateIssueRequest {
     // Build custom fields properly with $type at the correct level
     // Note: We need to handle Estimation and Story Points separately since
     // they need to be added as additionalFields to avoid format issues
@@ -1287,7 +1536,7 @@ export class YouTrackClient {
 
     // Create the subtask issue first (without estimation/storyPoints in customFields)
     // Note: Type field is optional - some projects may not have it configured
-    const createRequest: CreateIssueRequest = {
+    return {
       project: parentIssue.project.id,
       summary: request.summary,
       description: request.description,
@@ -1296,6 +1545,40 @@ export class YouTrackClient {
       type: request.type,
       customFields: Object.keys(baseCustomFields).length > 0 ? baseCustomFields : undefined
     };
+  }
+
+  /**
+   * Build the estimation and story points fields set on a subtask after creation
+   */
+  private buildSubtaskEstimateFields(request: CreateSubtaskRequest): any[] {
+    const updateFields: any[] = [];
+
+    if (request.estimationMinutes !== undefined) {
+      updateFields.push({
+        name: this.getFieldName('Estimation'),
+        value: { minutes: request.estimationMinutes },
+        $type: 'PeriodIssueCustomField'
+      });
+    }
+
+    if (request.storyPoints !== undefined) {
+      updateFields.push({
+        name: this.getFieldName('Story Points'),
+        value: request.storyPoints,
+        $type: 'SimpleIssueCustomField'
+      });
+    }
+
+    return updateFields;
+  }
+
+  /**
+   * Create a subtask and link it to a parent issue
+   */
+  async createSubtask(request: CreateSubtaskRequest): Promise<{ subtask: YouTrackIssue; link: YouTrackIssueLink }> {
+    // Get the parent issue to inherit project
+    const parentIssue = await this.getIssue(request.parentIssueId);
+    const createRequest = this.buildSubtaskCreateRequest(request, parentIssue);
 
     let subtask: YouTrackIssue;
     try {
@@ -1304,9 +1587,7 @@ export class YouTrackClient {
       // If the error is related to the Type field not being available, retry without it
       const errorMessage = error.response?.data?.error_description || error.message || '';
       if (errorMessage.includes('incompatible') && errorMessage.toLowerCase().includes('type')) {
-        if (this.config.debug) {
-          console.log('Type field not available in project, retrying without type...');
-        }
+        log.debug('Type field not available in project, retrying without type');
         // Retry without type field
         const retryRequest = { ...createRequest, type: undefined };
         subtask = await this.createIssue(retryRequest);
@@ -1318,32 +1599,13 @@ export class YouTrackClient {
     // Update estimation and story points after creation if provided
     // This uses proper $type formatting at the custom field level
     let updatedSubtask = subtask;
-    if (request.estimationMinutes !== undefined || request.storyPoints !== undefined) {
-      const updateFields: any[] = [];
-
-      if (request.estimationMinutes !== undefined) {
-        updateFields.push({
-          name: 'Estimation',
-          value: { minutes: request.estimationMinutes },
-          $type: 'PeriodIssueCustomField'
-        });
-      }
-
-      if (request.storyPoints !== undefined) {
-        updateFields.push({
-          name: 'Story Points',
-          value: request.storyPoints,
-          $type: 'SimpleIssueCustomField'
-        });
-      }
-
-      if (updateFields.length > 0) {
-        const response = await this.makeRequest(() =>
-          this.client.post(`/issues/${subtask.idReadable}?fields=id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),assignee(id,login,fullName),created,updated,numberInProject,customFields(id,name,value(id,name,login,fullName,minutes,presentation))`,
-            { customFields: updateFields })
-        );
-        updatedSubtask = this.mapIssueResponse(response.data);
-      }
+    const updateFields = this.buildSubtaskEstimateFields(request);
+    if (updateFields.length > 0) {
+      const response = await this.makeRequest(() =>
+        this.client.post(`/issues/${subtask.idReadable}?fields=id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),assignee(id,login,fullName),created,updated,numberInProject,customFields(id,name,value(id,name,login,fullName,minutes,presentation))`,
+          { customFields: updateFields })
+      );
+      updatedSubtask = this.mapIssueResponse(response.data);
     }
 
     // Find an appropriate subtask link type dynamically
@@ -1410,19 +1672,21 @@ export class YouTrackClient {
             const fullIssue = await this.getIssue(issueId);
             return fullIssue;
           } catch (error) {
-            if (this.config.debug) {
-              console.error(`Failed to fetch subtask ${issueId}:`, error);
-            }
+            throwIfCancelled();
+            log.debug('Failed to fetch subtask', { issueId, error });
             return null;
           }
         })
       );
 
+      const fetched = Math.min(i + CONCURRENCY_LIMIT, subtaskIssueIds.length);
+      reportProgress(fetched, subtaskIssueIds.length, `Fetched ${fetched}/${subtaskIssueIds.length} subtasks`);
+
       for (const fullIssue of batchResults) {
         if (!fullIssue) continue;
 
         // Check if we should include completed issues
-        const isCompleted = fullIssue.customFields?.find(f => f.name.toLowerCase() === 'state')?.value?.isResolved || false;
+        const isCompleted = fullIssue.customFields?.find(f => this.isField(f.name, 'State'))?.value?.isResolved || false;
         if (!includeCompleted && isCompleted) {
           continue;
         }
@@ -1447,29 +1711,27 @@ export class YouTrackClient {
         // Extract custom field information
         if (fullIssue.customFields) {
           for (const field of fullIssue.customFields) {
-            const fieldName = field.name.toLowerCase();
-
-            if (fieldName === 'priority' && field.value) {
+            if (this.isField(field.name, 'Priority') && field.value) {
               subtaskInfo.priority = { id: field.value.id || '', name: field.value.name || field.value };
-            } else if (fieldName === 'state' && field.value) {
+            } else if (this.isField(field.name, 'State') && field.value) {
               subtaskInfo.state = {
                 id: field.value.id || '',
                 name: field.value.name || field.value,
                 isResolved: field.value.isResolved || false
               };
-            } else if (fieldName === 'type' && field.value) {
+            } else if (this.isField(field.name, 'Type') && field.value) {
               subtaskInfo.type = { id: field.value.id || '', name: field.value.name || field.value };
-            } else if (fieldName === 'estimation' && field.value) {
+            } else if (this.isField(field.name, 'Estimation') && field.value) {
               subtaskInfo.estimation = {
                 minutes: field.value.minutes || 0,
                 presentation: field.value.presentation || '0m'
               };
-            } else if (fieldName === 'spent time' && field.value) {
+            } else if (this.isField(field.name, 'Spent time') && field.value) {
               subtaskInfo.spentTime = {
                 minutes: field.value.minutes || 0,
                 presentation: field.value.presentation || '0m'
               };
-            } else if (fieldName === 'story points' && field.value) {
+            } else if (this.isField(field.name, 'Story Points') && field.value) {
               subtaskInfo.storyPoints = typeof field.value === 'number' ? field.value : parseInt(field.value.toString(), 10);
             }
           }
@@ -1540,6 +1802,7 @@ export class YouTrackClient {
     try {
       await this.getIssue(request.parentIssueId);
     } catch (error: any) {
+      throwIfCancelled();
       // If parent doesn't exist, fail all subtasks
       return request.subtasks.map(subtask => ({
         success: false,
@@ -1578,6 +1841,7 @@ export class YouTrackClient {
               summary: subtaskData.summary
             };
           } catch (error: any) {
+            throwIfCancelled();
             return {
               success: false,
               summary: subtaskData.summary,
@@ -1589,6 +1853,9 @@ export class YouTrackClient {
 
       results.push(...batchResults);
 
+      const created = results.filter(result => result.success).length;
+      reportProgress(results.length, request.subtasks.length, `Created ${created}/${request.subtasks.length} subtasks`);
+
       // Small delay between batches to be respectful of rate limits
       if (i + CONCURRENCY_LIMIT < request.subtasks.length) {
         await delay(100);
@@ -1607,20 +1874,20 @@ export class YouTrackClient {
     const updateData = {
       customFields: [
         {
-          name: 'Story Points',
+          name: this.getFieldName('Story Points'),
           value: storyPoints,
           $type: 'SimpleIssueCustomField'
         }
       ]
     };
 
-    if (this.config.debug) {
-      console.log('Setting story points with data:', JSON.stringify(updateData, null, 2));
-    }
+    log.debug('Setting story points', { issueId, body: updateData });
 
+    const undoStep = await this.captureIssueFields(issueId, updateData);
     const response = await this.makeRequest(() =>
       this.client.post(`/issues/${issueId}?fields=id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject,customFields(id,name,value)`, updateData)
     );
+    recordUndoStep(undoStep);
     return this.mapIssueResponse(response.data);
   }
 
@@ -1631,7 +1898,7 @@ export class YouTrackClient {
     const issue = await this.getIssue(issueId);
 
     if (issue.customFields) {
-      const storyPointsField = issue.customFields.find(field => field.name === 'Story Points');
+      const storyPointsField = issue.customFields.find(field => field.name === this.getFieldName('Story Points'));
       if (storyPointsField && storyPointsField.value) {
         return typeof storyPointsField.value === 'number' ? storyPointsField.value : parseInt(storyPointsField.value.toString(), 10);
       }
@@ -1656,19 +1923,19 @@ export class YouTrackClient {
     }
 
     if (filter.assigneeIds && filter.assigneeIds.length > 0) {
-      queryParts.push(`assignee: {${filter.assigneeIds.join(', ')}}`);
+      queryParts.push(`${queryFieldName(this.getFieldName('Assignee'))}: {${filter.assigneeIds.join(', ')}}`);
     }
 
     if (filter.stateNames && filter.stateNames.length > 0) {
-      queryParts.push(`State: {${filter.stateNames.join(', ')}}`);
+      queryParts.push(`${queryFieldName(this.getFieldName('State'))}: {${filter.stateNames.join(', ')}}`);
     }
 
     if (filter.priorityNames && filter.priorityNames.length > 0) {
-      queryParts.push(`Priority: {${filter.priorityNames.join(', ')}}`);
+      queryParts.push(`${queryFieldName(this.getFieldName('Priority'))}: {${filter.priorityNames.join(', ')}}`);
     }
 
     if (filter.typeNames && filter.typeNames.length > 0) {
-      queryParts.push(`Type: {${filter.typeNames.join(', ')}}`);
+      queryParts.push(`${queryFieldName(this.getFieldName('Type'))}: {${filter.typeNames.join(', ')}}`);
     }
 
     if (filter.startDate) {
@@ -1689,20 +1956,17 @@ export class YouTrackClient {
 
     query = queryParts.join(' ');
 
-    // Search for issues with comprehensive fields including custom fields for dates
-    const searchResult = await this.searchIssues({
-      query: query || undefined,
-      limit: 100 // Conservative limit to avoid timeouts
-    });
-
     const tasks: GanttTask[] = [];
     const milestones: GanttMilestone[] = [];
     let projectInfo: any = null;
 
-    // Limit processing to avoid timeouts
-    const issuesToProcess = searchResult.items.slice(0, 50);
-
-    for (const issue of issuesToProcess) {
+    // Process every matching issue, page by page
+    let processed = 0;
+    for await (const issue of this.iterateIssues({ query: query || undefined })) {
+      if (processed > 0 && processed % DEFAULT_PAGE_SIZE === 0) {
+        reportProgress(processed, undefined, `Processed ${processed} issues`);
+      }
+      processed++;
       try {
         // Convert issue to GanttTask with simplified approach - disable dependency retrieval for performance
         const ganttTask = await this.convertIssueToGanttTaskSimplified(issue);
@@ -1713,12 +1977,12 @@ export class YouTrackClient {
           projectInfo = issue.project;
         }
       } catch (error: any) {
+        throwIfCancelled();
         // Skip issues that can't be converted
-        if (this.config.debug) {
-          console.log(`Skipping issue ${issue.idReadable}: ${error.message}`);
-        }
+        log.debug('Skipping issue', { issueId: issue.idReadable, error });
       }
     }
+    reportProgress(processed, processed, `Processed ${processed} issues`);
 
     // Calculate timeline
     const timeline = this.calculateTimeline(tasks);
@@ -1765,31 +2029,27 @@ export class YouTrackClient {
         const fieldName = field.name.toLowerCase();
 
         // Date fields - use improved date parsing
-        if (isStartDateField(fieldName)) {
+        if (this.isField(field.name, 'Start Date') || isStartDateField(fieldName)) {
           const parsedDate = parseDateFieldValue(field.value);
           if (parsedDate) {
             startDate = parsedDate;
-            if (this.config.debug) {
-              console.log(`Parsed start date for ${issue.idReadable}: ${new Date(startDate).toISOString()}`);
-            }
+            log.debug('Parsed start date', { issueId: issue.idReadable, startDate: new Date(startDate).toISOString() });
           }
-        } else if (isDueDateField(fieldName)) {
+        } else if (this.isField(field.name, 'Due Date') || isDueDateField(fieldName)) {
           const parsedDate = parseDateFieldValue(field.value);
           if (parsedDate) {
             dueDate = parsedDate;
-            if (this.config.debug) {
-              console.log(`Parsed due date for ${issue.idReadable}: ${new Date(dueDate).toISOString()}`);
-            }
+            log.debug('Parsed due date', { issueId: issue.idReadable, dueDate: new Date(dueDate).toISOString() });
           }
         }
 
         // Time tracking fields
-        else if (fieldName === 'estimation' && field.value) {
+        else if (this.isField(field.name, 'Estimation') && field.value) {
           estimation = {
             minutes: field.value.minutes || 0,
             presentation: field.value.presentation || '0m'
           };
-        } else if (fieldName === 'spent time' && field.value) {
+        } else if (this.isField(field.name, 'Spent time') && field.value) {
           spentTime = {
             minutes: field.value.minutes || 0,
             presentation: field.value.presentation || '0m'
@@ -1797,20 +2057,20 @@ export class YouTrackClient {
         }
 
         // Story points
-        else if (fieldName === 'story points' && field.value) {
+        else if (this.isField(field.name, 'Story Points') && field.value) {
           storyPoints = typeof field.value === 'number' ? field.value : parseInt(field.value.toString(), 10);
         }
 
         // Priority, State, Type
-        else if (fieldName === 'priority' && field.value) {
+        else if (this.isField(field.name, 'Priority') && field.value) {
           priority = { id: field.value.id || '', name: field.value.name || field.value };
-        } else if ((fieldName === 'state' || fieldName === 'stage') && field.value) {
+        } else if (this.isField(field.name, 'State') && field.value) {
           state = {
             id: field.value.id || '',
             name: field.value.name || field.value,
             isResolved: field.value.isResolved || false
           };
-        } else if (fieldName === 'type' && field.value) {
+        } else if (this.isField(field.name, 'Type') && field.value) {
           type = { id: field.value.id || '', name: field.value.name || field.value };
         }
       }
@@ -1871,31 +2131,27 @@ export class YouTrackClient {
         const fieldName = field.name.toLowerCase();
 
         // Date fields - use improved date parsing
-        if (isStartDateField(fieldName)) {
+        if (this.isField(field.name, 'Start Date') || isStartDateField(fieldName)) {
           const parsedDate = parseDateFieldValue(field.value);
           if (parsedDate) {
             startDate = parsedDate;
-            if (this.config.debug) {
-              console.log(`Parsed start date for ${issue.idReadable}: ${new Date(startDate).toISOString()}`);
-            }
+            log.debug('Parsed start date', { issueId: issue.idReadable, startDate: new Date(startDate).toISOString() });
           }
-        } else if (isDueDateField(fieldName)) {
+        } else if (this.isField(field.name, 'Due Date') || isDueDateField(fieldName)) {
           const parsedDate = parseDateFieldValue(field.value);
           if (parsedDate) {
             dueDate = parsedDate;
-            if (this.config.debug) {
-              console.log(`Parsed due date for ${issue.idReadable}: ${new Date(dueDate).toISOString()}`);
-            }
+            log.debug('Parsed due date', { issueId: issue.idReadable, dueDate: new Date(dueDate).toISOString() });
           }
         }
 
         // Time tracking fields
-        else if (fieldName === 'estimation' && field.value) {
+        else if (this.isField(field.name, 'Estimation') && field.value) {
           estimation = {
             minutes: field.value.minutes || 0,
             presentation: field.value.presentation || '0m'
           };
-        } else if (fieldName === 'spent time' && field.value) {
+        } else if (this.isField(field.name, 'Spent time') && field.value) {
           spentTime = {
             minutes: field.value.minutes || 0,
             presentation: field.value.presentation || '0m'
@@ -1903,20 +2159,20 @@ export class YouTrackClient {
         }
 
         // Story points
-        else if (fieldName === 'story points' && field.value) {
+        else if (this.isField(field.name, 'Story Points') && field.value) {
           storyPoints = typeof field.value === 'number' ? field.value : parseInt(field.value.toString(), 10);
         }
 
         // Priority, State, Type
-        else if (fieldName === 'priority' && field.value) {
+        else if (this.isField(field.name, 'Priority') && field.value) {
           priority = { id: field.value.id || '', name: field.value.name || field.value };
-        } else if ((fieldName === 'state' || fieldName === 'stage') && field.value) {
+        } else if (this.isField(field.name, 'State') && field.value) {
           state = {
             id: field.value.id || '',
             name: field.value.name || field.value,
             isResolved: field.value.isResolved || false
           };
-        } else if (fieldName === 'type' && field.value) {
+        } else if (this.isField(field.name, 'Type') && field.value) {
           type = { id: field.value.id || '', name: field.value.name || field.value };
         }
       }
@@ -2169,15 +2425,15 @@ export class YouTrackClient {
   }
 
   /**
-   * Update issue timeline (start date, due date, estimation)
+   * Build the REST payload for updating an issue timeline
    */
-  async updateIssueTimeline(issueId: string, timelineRequest: UpdateTimelineRequest): Promise<YouTrackIssue> {
+  private buildTimelinePayload(timelineRequest: UpdateTimelineRequest): { customFields: any[] } {
     const customFields: any[] = [];
 
     // Only update estimation if provided, as it's more likely to exist
     if (timelineRequest.estimation !== undefined) {
       customFields.push({
-        name: 'Estimation',
+        name: this.getFieldName('Estimation'),
         value: { minutes: timelineRequest.estimation },
         $type: 'PeriodIssueCustomField'
       });
@@ -2186,40 +2442,32 @@ export class YouTrackClient {
     // For date fields, use proper date field format
     if (timelineRequest.startDate !== undefined) {
       try {
-        const dateField = this.buildDateCustomField('Start Date', timelineRequest.startDate);
+        const dateField = this.buildDateCustomField(this.getFieldName('Start Date'), timelineRequest.startDate);
         customFields.push(dateField);
       } catch (error) {
-        if (this.config.debug) {
-          console.log(`Warning: Failed to set start date: ${error}`);
-        }
+        log.warning('Failed to set start date', { error });
         // Try alternative field names
         try {
           const dateField = this.buildDateCustomField('StartDate', timelineRequest.startDate);
           customFields.push(dateField);
         } catch (altError) {
-          if (this.config.debug) {
-            console.log(`Warning: Failed to set StartDate: ${altError}`);
-          }
+          log.warning('Failed to set StartDate', { error: altError });
         }
       }
     }
 
     if (timelineRequest.dueDate !== undefined) {
       try {
-        const dateField = this.buildDateCustomField('Due Date', timelineRequest.dueDate);
+        const dateField = this.buildDateCustomField(this.getFieldName('Due Date'), timelineRequest.dueDate);
         customFields.push(dateField);
       } catch (error) {
-        if (this.config.debug) {
-          console.log(`Warning: Failed to set due date: ${error}`);
-        }
+        log.warning('Failed to set due date', { error });
         // Try alternative field names
         try {
           const dateField = this.buildDateCustomField('DueDate', timelineRequest.dueDate);
           customFields.push(dateField);
         } catch (altError) {
-          if (this.config.debug) {
-            console.log(`Warning: Failed to set DueDate: ${altError}`);
-          }
+          log.warning('Failed to set DueDate', { error: altError });
         }
       }
     }
@@ -2228,16 +2476,23 @@ export class YouTrackClient {
       throw new Error('No timeline fields to update');
     }
 
-    const updateData = { customFields };
+    return { customFields };
+  }
 
-    if (this.config.debug) {
-      console.log(`Updating timeline for issue ${issueId}:`, JSON.stringify(updateData, null, 2));
-    }
+  /**
+   * Update issue timeline (start date, due date, estimation)
+   */
+  async updateIssueTimeline(issueId: string, timelineRequest: UpdateTimelineRequest): Promise<YouTrackIssue> {
+    const updateData = this.buildTimelinePayload(timelineRequest);
+
+    log.debug('Updating issue timeline', { issueId, body: updateData });
 
+    const undoStep = await this.captureIssueFields(issueId, updateData);
     try {
       const response = await this.makeRequest(() =>
         this.client.post(`/issues/${issueId}?fields=id,idReadable,summary,description,project(id,name,shortName),reporter(id,login,fullName),updater(id,login,fullName),assignee(id,login,fullName),created,updated,resolved,numberInProject,customFields(id,name,value(id,name,login,fullName,minutes,presentation))`, updateData)
       );
+      recordUndoStep(undoStep);
       return this.mapIssueResponse(response.data);
     } catch (error) {
       // If custom field update fails, try just updating estimation
@@ -2402,4 +2657,290 @@ export class YouTrackClient {
       tasks: criticalPathTasks.sort((a, b) => a.slack - b.slack)
     };
   }
-}
\ No newline at end of file
+
+  // Undo
+
+  /**
+   * Snapshot the current values of the issue fields an update payload overwrites,
+   * returning the undo step that restores them. Returns undefined when no tool
+   * call is being recorded.
+   */
+  private async captureIssueFields(issueId: string, payload: any): Promise<UndoStep | undefined> {
+    if (!isRecordingChanges()) {
+      return undefined;
+    }
+
+    const response = await this.makeRequest(() =>
+      this.client.get(`/issues/${issueId}?fields=idReadable,summary,description,customFields($type,name,value($type,id,name,login,text,minutes,presentation))`)
+    );
+    const current = response.data;
+    const restorePayload: any = {};
+    const restored: string[] = [];
+
+    if (payload.summary !== undefined) {
+      restorePayload.summary = current.summary;
+      restored.push(`summary "${current.summary}"`);
+    }
+
+    if (payload.description !== undefined) {
+      restorePayload.description = current.description ?? '';
+      restored.push('description');
+    }
+
+    const customFields: any[] = [];
+    for (const field of payload.customFields || []) {
+      const currentField = current.customFields?.find((f: any) => f.name === field.name);
+      if (!currentField) {
+        continue;
+      }
+      customFields.push({
+        name: field.name,
+        value: toWritableFieldValue(currentField.value),
+        $type: currentField.$type || field.$type
+      });
+      const previous = summarizeFieldValue(currentField.value);
+      restored.push(`${field.name} ${previous === null ? '(not set)' : JSON.stringify(previous)}`);
+    }
+    if (customFields.length > 0) {
+      restorePayload.customFields = customFields;
+    }
+
+    if (restored.length === 0) {
+      return undefined;
+    }
+
+    return {
+      description: `Restore ${current.idReadable || issueId}: ${restored.join(', ')}`,
+      revert: async () => {
+        await this.makeRequest(() =>
+          this.client.post(`/issues/${issueId}`, restorePayload)
+        );
+      }
+    };
+  }
+
+  // Dry-run Previews
+
+  /**
+   * Get the current values of an issue for comparison with a payload
+   */
+  private async getIssueForPreview(issueId: string): Promise<any> {
+    const response = await this.makeRequest(() =>
+      this.client.get(`/issues/${issueId}?fields=id,idReadable,summary,description,project(id,shortName),customFields(name,value(id,name,login,fullName,minutes,presentation))`)
+    );
+    return response.data;
+  }
+
+  /**
+   * Compare an issue payload with the current issue (null for new issues), field by field
+   */
+  private diffIssuePayload(current: any | null, payload: any): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    if (payload.project) {
+      changes.push({ field: 'project', before: current?.project?.id ?? null, after: payload.project.id });
+    }
+
+    for (const key of ['summary', 'description']) {
+      if (payload[key] !== undefined) {
+        changes.push({ field: key, before: current?.[key] ?? null, after: payload[key] });
+      }
+    }
+
+    for (const field of payload.customFields || []) {
+      const currentField = current?.customFields?.find((f: any) => f.name === field.name);
+      changes.push({
+        field: field.name,
+        before: summarizeFieldValue(currentField?.value),
+        after: summarizeFieldValue(field.value)
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Preview creating an issue without sending it
+   */
+  async previewCreateIssue(createRequest: CreateIssueRequest): Promise<DryRunPreview> {
+    const payload = await this.buildCreateIssuePayload(createRequest);
+
+    return {
+      action: `Create issue in project ${createRequest.project}`,
+      requests: [{ method: 'POST', path: '/issues', body: payload }],
+      changes: this.diffIssuePayload(null, payload)
+    };
+  }
+
+  /**
+   * Preview updating an issue without sending it
+   */
+  async previewUpdateIssue(issueId: string, updateRequest: UpdateIssueRequest): Promise<DryRunPreview> {
+    const current = await this.getIssueForPreview(issueId);
+    const payload = await this.buildUpdateIssuePayload(updateRequest);
+
+    return {
+      action: `Update issue ${current.idReadable || issueId}`,
+      requests: [{ method: 'POST', path: `/issues/${issueId}`, body: payload }],
+      changes: this.diffIssuePayload(current, payload)
+    };
+  }
+
+  /**
+   * Preview updating an issue timeline without sending it
+   */
+  async previewUpdateIssueTimeline(issueId: string, timelineRequest: UpdateTimelineRequest): Promise<DryRunPreview> {
+    const current = await this.getIssueForPreview(issueId);
+    const payload = this.buildTimelinePayload(timelineRequest);
+
+    return {
+      action: `Update timeline of issue ${current.idReadable || issueId}`,
+      requests: [{ method: 'POST', path: `/issues/${issueId}`, body: payload }],
+      changes: this.diffIssuePayload(current, payload),
+      notes: timelineRequest.estimation !== undefined
+        ? ['If the update is rejected, only the estimation is set']
+        : undefined
+    };
+  }
+
+  /**
+   * Preview creating a work item without sending it
+   */
+  async previewCreateWorkItem(issueId: string, workItemRequest: CreateWorkItemRequest): Promise<DryRunPreview> {
+    const current = await this.getIssueForPreview(issueId);
+    const payload = this.buildWorkItemPayload(workItemRequest);
+
+    const spentField = current.customFields?.find((f: any) => f.name === this.getFieldName('Spent time'));
+    const spentMinutes = spentField?.value?.minutes ?? 0;
+
+    return {
+      action: `Log ${workItemRequest.duration}m on issue ${current.idReadable || issueId}`,
+      requests: [{ method: 'POST', path: `/issues/${issueId}/timeTracking/workItems`, body: payload }],
+      changes: [
+        { field: 'duration', before: null, after: `${workItemRequest.duration}m` },
+        { field: 'date', before: null, after: payload.date },
+        ...(payload.description ? [{ field: 'description', before: null, after: payload.description }] : []),
+        ...(payload.type ? [{ field: 'type', before: null, after: payload.type.name }] : []),
+        { field: this.getFieldName('Spent time'), before: `${spentMinutes}m`, after: `${spentMinutes + workItemRequest.duration}m` }
+      ]
+    };
+  }
+
+  /**
+   * Preview creating an issue link without sending it
+   */
+  async previewCreateIssueLink(issueId: string, linkRequest: CreateIssueLinkRequest): Promise<DryRunPreview> {
+    const direction = linkRequest.direction || 'OUTWARD';
+    const notes: string[] = [];
+
+    let request: PlannedRequest;
+    try {
+      request = { method: 'POST', path: '/commands', body: this.buildLinkCommand(issueId, linkRequest, direction) };
+      notes.push('If the command is rejected, the link is created through the links API instead');
+    } catch (error) {
+      // Same fallback as createIssueLink for link types without a command mapping
+      const { linkId } = await this.resolveDirectLink(linkRequest, direction);
+      request = { method: 'POST', path: `/issues/${issueId}/links/${linkId}/issues`, body: { id: linkRequest.targetIssue } };
+    }
+
+    return {
+      action: `Link ${issueId} to ${linkRequest.targetIssue}`,
+      requests: [request],
+      changes: [{ field: `links (${linkRequest.linkType}, ${direction})`, before: null, after: linkRequest.targetIssue }],
+      notes
+    };
+  }
+
+  /**
+   * Preview deleting an issue link without sending it
+   */
+  async previewDeleteIssueLink(issueId: string, linkId: string): Promise<DryRunPreview> {
+    const links = await this.getIssueLinks(issueId);
+    const linkToDelete = links.find(link => link.id === linkId);
+
+    if (!linkToDelete) {
+      throw new Error(`Link with ID ${linkId} not found for issue ${issueId}`);
+    }
+
+    const linkTypeName = linkToDelete.linkType.localizedName || linkToDelete.linkType.name;
+    const direction = linkToDelete.direction;
+    const targets = linkToDelete.issues.length > 0 ? linkToDelete.issues : linkToDelete.trimmedIssues || [];
+
+    const requests: PlannedRequest[] = targets.length > 0
+      ? targets.map(target => ({
+        method: 'POST' as const,
+        path: '/commands',
+        body: this.buildRemoveLinkCommand(issueId, linkTypeName, direction, target.idReadable)
+      }))
+      : [{ method: 'POST', path: '/commands', body: this.buildRemoveLinkCommand(issueId, linkTypeName, direction) }];
+
+    return {
+      action: `Delete link ${linkId} from issue ${issueId}`,
+      requests,
+      changes: [{
+        field: `links (${linkTypeName}, ${direction})`,
+        before: targets.map(target => target.idReadable).join(', ') || null,
+        after: null
+      }],
+      notes: targets.length === 0
+        ? ['The link has no target issues, so all links of this type would be removed']
+        : undefined
+    };
+  }
+
+  /**
+   * Preview creating a subtask without sending it
+   */
+  async previewCreateSubtask(request: CreateSubtaskRequest): Promise<DryRunPreview> {
+    const parentIssue = await this.getIssue(request.parentIssueId);
+    const payload = await this.buildCreateIssuePayload(this.buildSubtaskCreateRequest(request, parentIssue));
+    const estimateFields = this.buildSubtaskEstimateFields(request);
+
+    const requests: PlannedRequest[] = [{ method: 'POST', path: '/issues', body: payload }];
+    const changes = this.diffIssuePayload(null, payload);
+
+    if (estimateFields.length > 0) {
+      requests.push({ method: 'POST', path: `/issues/${NEW_ISSUE_PLACEHOLDER}`, body: { customFields: estimateFields } });
+      changes.push(...this.diffIssuePayload(null, { customFields: estimateFields }));
+    }
+
+    const { linkType, direction } = await this.findSubtaskLinkType();
+    const linkPreview = await this.previewCreateIssueLink(request.parentIssueId, {
+      linkType,
+      targetIssue: NEW_ISSUE_PLACEHOLDER,
+      direction
+    });
+
+    return {
+      action: `Create subtask of ${parentIssue.idReadable || request.parentIssueId}`,
+      requests: [...requests, ...linkPreview.requests],
+      changes: [...changes, ...linkPreview.changes],
+      notes: linkPreview.notes
+    };
+  }
+
+  /**
+   * Preview creating multiple subtasks without sending anything
+   */
+  async previewCreateMultipleSubtasks(request: CreateMultipleSubtasksRequest): Promise<DryRunPreview> {
+    const preview: DryRunPreview = {
+      action: `Create ${request.subtasks.length} subtask(s) of ${request.parentIssueId}`,
+      requests: [],
+      changes: [],
+      notes: []
+    };
+
+    for (const [index, subtaskData] of request.subtasks.entries()) {
+      const subtaskPreview = await this.previewCreateSubtask({ ...subtaskData, parentIssueId: request.parentIssueId });
+      preview.requests.push(...subtaskPreview.requests);
+      preview.changes.push(...subtaskPreview.changes.map(change => ({ ...change, field: `[${index + 1}] ${change.field}` })));
+      for (const note of subtaskPreview.notes || []) {
+        if (!preview.notes!.includes(note)) {
+          preview.notes!.push(note);
+        }
+      }
+    }
+
+    return preview;
+  }
+}
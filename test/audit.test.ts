@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Audit entries of requests that YouTrack failed, and of their retries
+ */
+
+describe('audit log', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  async function auditEntries(): Promise<any[]> {
+    const result = await server.callTool('get-audit-log', {});
+    return (result.structuredContent as Record<string, any>).entries.reverse();
+  }
+
+  it('records each attempt of a retried request with its number', async () => {
+    server = await startTestServer({ youtrack: { maxRetries: 2 } });
+    server.mock.failRequests({ method: 'POST', path: '/issues/DEMO-1', status: 503, headers: { 'Retry-After': '0' } });
+
+    const result = await server.callTool('update-issue', { issueId: 'DEMO-1', summary: 'Retried' });
+    expect(result.isError).toBeFalsy();
+
+    const entries = await auditEntries();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ tool: 'update-issue', attempt: 1, request: { method: 'POST', path: '/issues/DEMO-1' } });
+    expect(entries[0].error).toBeDefined();
+    expect(entries[1]).toMatchObject({ tool: 'update-issue', attempt: 2, result: { status: 200, idReadable: 'DEMO-1' } });
+  });
+
+  it('records one attempt of a request that is not retried', async () => {
+    server = await startTestServer({ youtrack: { maxRetries: 2 } });
+    server.mock.failRequests({ method: 'POST', path: '/issues/DEMO-1/comments', status: 503, headers: { 'Retry-After': '0' } });
+
+    const result = await server.callTool('add-comment', { issueId: 'DEMO-1', text: 'Not retried' });
+    expect(result.isError).toBe(true);
+
+    const entries = await auditEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ tool: 'add-comment', attempt: 1, request: { path: '/issues/DEMO-1/comments' } });
+    expect(entries[0].result).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { estimateTokens, fitStructuredContent } from '../src/tools/budget.js';
+import { resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * The output budget, applied to the text and the structured content of tool results
+ */
+
+describe.each(['markdown', 'json'] as const)('output budget in %s output', (outputFormat) => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer({ settings: { outputFormat } });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('leaves results within the budget unchanged', async () => {
+    const result = await server.callTool('search-issues-advanced', { query: 'project: DEMO', maxOutputTokens: 100000 });
+    const page = result.structuredContent as Record<string, any>;
+    expect(page.issues).toHaveLength(4);
+    expect(page.truncated).toBeUndefined();
+  });
+
+  it('leaves out issues that do not fit and continues with them', async () => {
+    const maxOutputTokens = 200;
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let calls = 0;
+    do {
+      const result = await server.callTool('search-issues-advanced', { query: 'project: DEMO', ...(cursor ? { cursor } : {}), maxOutputTokens });
+      const page = result.structuredContent as Record<string, any>;
+      expect(result.isError, resultText(result)).toBeFalsy();
+      expect(estimateTokens(resultText(result))).toBeLessThanOrEqual(maxOutputTokens);
+      expect(estimateTokens(JSON.stringify(page))).toBeLessThanOrEqual(maxOutputTokens);
+      if (page.nextCursor) {
+        expect(page.truncated).toBe(true);
+      }
+      seen.push(...page.issues.map((issue: any) => issue.idReadable));
+      cursor = page.nextCursor;
+    } while (cursor && ++calls < 10);
+
+    expect(calls).toBeGreaterThan(0);
+    expect(seen).toEqual(['DEMO-1', 'DEMO-2', 'DEMO-3', 'DEMO-4']);
+  });
+
+  it('shortens the lists of other tools', async () => {
+    const maxOutputTokens = 60;
+    const result = await server.callTool('list-users', { maxOutputTokens });
+    const content = result.structuredContent as Record<string, any>;
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(content.truncated).toBe(true);
+    const dropped = server.mock.users.slice(content.users.length).map(user => user.id);
+    expect(dropped.length).toBeGreaterThan(0);
+    expect(content.omitted).toEqual([{ path: 'users', count: dropped.length, ids: dropped }]);
+    expect(estimateTokens(JSON.stringify(content))).toBeLessThanOrEqual(maxOutputTokens);
+    expect(estimateTokens(resultText(result))).toBeLessThanOrEqual(maxOutputTokens);
+    if (outputFormat === 'json') {
+      expect(JSON.parse(resultText(result))).toEqual(content);
+    }
+  });
+});
+
+describe('fitStructuredContent', () => {
+  const workItems = (count: number) => Array.from({ length: count }, (_, index) => ({
+    id: `8-${index}`,
+    text: `Work item ${index} with a description of some length`
+  }));
+
+  it('reports the path, count and IDs of what it leaves out of nested lists', () => {
+    const content = { issue: { idReadable: 'DEMO-1', workItems: workItems(20) }, notes: ['kept'] };
+    const fitted = fitStructuredContent(content, 150) as Record<string, any>;
+
+    const kept = fitted.issue.workItems.length;
+    expect(kept).toBeGreaterThan(0);
+    expect(kept).toBeLessThan(20);
+    expect(fitted.truncated).toBe(true);
+    expect(fitted.omitted).toEqual([{ path: 'issue.workItems', count: 20 - kept, ids: workItems(20).slice(kept).map(item => item.id) }]);
+    expect(fitted.notes).toEqual(['kept']);
+    expect(estimateTokens(JSON.stringify(fitted))).toBeLessThanOrEqual(150);
+    expect(content.issue.workItems).toHaveLength(20);
+  });
+
+  it('counts items without IDs', () => {
+    const fitted = fitStructuredContent({ lines: Array.from({ length: 50 }, (_, index) => `Line ${index}`) }, 40) as Record<string, any>;
+    expect(fitted.omitted).toEqual([{ path: 'lines', count: 50 - fitted.lines.length }]);
+  });
+
+  it('leaves content within the budget unchanged', () => {
+    const content = { lines: ['one', 'two'] };
+    expect(fitStructuredContent(content, 100)).toBe(content);
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Cancellation with `notifications/cancelled` and progress notifications of a
+ * long tool call
+ */
+
+const SUBTASK_COUNT = 9; // Three batches of three
+
+describe('call control', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function subtaskArgs() {
+    return {
+      parentIssueId: 'DEMO-1',
+      subtasks: Array.from({ length: SUBTASK_COUNT }, (_, index) => ({ parentIssueId: 'DEMO-1', summary: `Step ${index + 1}` }))
+    };
+  }
+
+  function createdSubtasks(): number {
+    return server.mock.issues.filter(issue => issue.summary.startsWith('Step ')).length;
+  }
+
+  function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  it('reports progress that increases up to the total', async () => {
+    const progress: Progress[] = [];
+    const result = await server.client.callTool(
+      { name: 'create-multiple-subtasks', arguments: subtaskArgs() },
+      undefined,
+      { onprogress: update => progress.push(update) }
+    );
+    expect(result.isError).toBeFalsy();
+
+    expect(progress.length).toBeGreaterThanOrEqual(2);
+    for (let index = 1; index < progress.length; index++) {
+      expect(progress[index].progress).toBeGreaterThan(progress[index - 1].progress);
+    }
+    expect(progress.every(update => update.total === SUBTASK_COUNT)).toBe(true);
+    expect(progress[progress.length - 1]).toMatchObject({ progress: SUBTASK_COUNT, message: `Created ${SUBTASK_COUNT}/${SUBTASK_COUNT} subtasks` });
+  });
+
+  it('sends no more requests to YouTrack once the client cancels the call', async () => {
+    const controller = new AbortController();
+    let requestsAtCancel = 0;
+    const call = server.client.callTool(
+      { name: 'create-multiple-subtasks', arguments: subtaskArgs() },
+      undefined,
+      {
+        signal: controller.signal,
+        onprogress: () => {
+          // Cancel after the first batch, while the server waits before the next one
+          requestsAtCancel = server.mock.requests.length;
+          controller.abort('Stopped by the test');
+        }
+      }
+    );
+
+    await expect(call).rejects.toThrow();
+    // Let the server finish the call; the next batch would be sent within this time
+    await wait(600);
+    expect(server.mock.requests.length).toBe(requestsAtCancel);
+    expect(createdSubtasks()).toBe(3);
+
+    await wait(300);
+    expect(server.mock.requests.length).toBe(requestsAtCancel);
+  });
+});
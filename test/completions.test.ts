@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CompleteResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startTestServer, TestServer } from './helpers.js';
+
+/**
+ * `completion/complete` for prompt, resource template and tool arguments:
+ * projects, users, field values and work item types
+ */
+
+type Reference = { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string } | { type: 'ref/tool'; name: string };
+
+describe('argument completion', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  async function complete(ref: Reference, name: string, value: string, context?: Record<string, string>): Promise<string[]> {
+    const { completion } = await server.client.request(
+      { method: 'completion/complete', params: { ref, argument: { name, value }, ...(context && { context: { arguments: context } }) } },
+      CompleteResultSchema
+    );
+    expect(completion.total).toBe(completion.values.length);
+    return completion.values;
+  }
+
+  const standup: Reference = { type: 'ref/prompt', name: 'daily-standup' };
+
+  it('completes project short names, prefix matches first and without archived projects', async () => {
+    expect(await complete({ type: 'ref/prompt', name: 'triage-bugs' }, 'project', 'o')).toEqual(['OPS', 'DEMO']);
+    expect(await complete({ type: 'ref/resource', uri: 'youtrack://project/{shortName}' }, 'shortName', 'de')).toEqual(['DEMO']);
+  });
+
+  it('completes user logins', async () => {
+    expect((await complete(standup, 'user', 'alice')).sort()).toEqual(['ajones', 'asmith']);
+    expect(await complete({ type: 'ref/tool', name: 'update-issue' }, 'assignee', 'john')).toEqual(['jdoe']);
+  });
+
+  it('completes field values, limited to the project of an issue argument', async () => {
+    expect(await complete(standup, 'inProgressState', 'pro')).toEqual(['In Progress']);
+    expect(await complete({ type: 'ref/tool', name: 'update-issue' }, 'priority', 'm', { issueId: 'DEMO-1' })).toEqual(['Major', 'Minor', 'Normal']);
+    expect(await complete({ type: 'ref/tool', name: 'create-issue' }, 'type', '')).toEqual(['Bug', 'Feature', 'Task']);
+  });
+
+  it('completes the work item types of the issue project for work item tools', async () => {
+    const createWorkItem: Reference = { type: 'ref/tool', name: 'create-work-item' };
+    expect(await complete(createWorkItem, 'type', '', { issueId: 'DEMO-1' })).toEqual(['Development', 'Testing', 'Documentation']);
+    expect(await complete(createWorkItem, 'type', '', { issueId: 'OPS-1' })).toEqual(['Development', 'Testing']);
+    expect(await complete({ type: 'ref/tool', name: 'update-work-item' }, 'type', 'te', { issueId: 'OPS-1' })).toEqual(['Testing']);
+    expect(await complete(createWorkItem, 'type', 'doc')).toEqual(['Documentation']);
+  });
+
+  it('reuses the work item types of a project between completions', async () => {
+    const path = '/api/admin/projects/OLD/timeTrackingSettings/workItemTypes';
+    const requests = () => server.mock.requests.filter(request => request.path === path).length;
+    await complete({ type: 'ref/tool', name: 'create-work-item' }, 'type', 'dev', { issueId: 'OLD-1' });
+    await complete({ type: 'ref/tool', name: 'create-work-item' }, 'type', 'test', { issueId: 'OLD-2' });
+    expect(requests()).toBe(1);
+  });
+
+  it('offers nothing for an argument it does not know', async () => {
+    expect(await complete(standup, 'days', '1')).toEqual([]);
+  });
+});
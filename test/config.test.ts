@@ -0,0 +1,51 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfig } from '../src/config.js';
+
+/**
+ * Configuration from the command line, environment variables and config files
+ */
+
+describe('transport port', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'youtrack-mcp-config-'));
+    vi.stubEnv('YOUTRACK_URL', 'https://youtrack.example.com');
+    vi.stubEnv('YOUTRACK_TOKEN', 'test-token');
+    vi.stubEnv('MCP_HTTP_PORT', '');
+    vi.stubEnv('YOUTRACK_MCP_CONFIG', '');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('defaults to 3000', () => {
+    expect(getConfig(['--transport', 'http']).transport.port).toBe(3000);
+  });
+
+  it('takes the flag over the environment variable', () => {
+    vi.stubEnv('MCP_HTTP_PORT', '4000');
+    expect(getConfig(['--transport', 'http']).transport.port).toBe(4000);
+    expect(getConfig(['--transport', 'http', '--port=5000']).transport.port).toBe(5000);
+  });
+
+  it.each(['3000abc', '0', '65536', '-1', '30.5', ' 3000'])('rejects "%s" from the environment', (value) => {
+    vi.stubEnv('MCP_HTTP_PORT', value);
+    expect(() => getConfig([])).toThrow(`MCP_HTTP_PORT must be a port number from 1 to 65535, not "${value}"`);
+  });
+
+  it('names the flag when it is invalid', () => {
+    expect(() => getConfig(['--port', '80x'])).toThrow('The --port flag must be a port number from 1 to 65535, not "80x"');
+  });
+
+  it('reads the port from the config file', async () => {
+    const path = join(dir, 'youtrack-mcp.config.json');
+    await writeFile(path, JSON.stringify({ profiles: { default: { transport: { mode: 'http', port: 4100 } } } }));
+    expect(getConfig(['--config', path]).transport).toMatchObject({ mode: 'http', port: 4100 });
+  });
+});
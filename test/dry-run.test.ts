@@ -0,0 +1,97 @@
+import { readFile } from 'node:fs/promises';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { dryRunPreviewSchema } from '../src/tools/output-schemas.js';
+import { resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * `dryRun` on every tool that has it: a preview comes back, and nothing is sent
+ * to YouTrack, audited or journaled for undo
+ */
+
+describe('dry runs', () => {
+  let server: TestServer;
+  let dependLinkId: string;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+    const { links } = (await server.callTool('get-issue-links', { issueId: 'DEMO-1' })).structuredContent as Record<string, any>;
+    dependLinkId = links.find((link: any) => link.linkType.name === 'Depend' && link.issues.length > 0).id;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  /**
+   * The mock's data, for comparing before and after a call
+   */
+  function snapshotMock(): string {
+    return JSON.stringify(
+      { issues: server.mock.issues, links: server.mock.links },
+      (key, value) => value instanceof Map ? Object.fromEntries(value) : key === 'source' || key === 'target' ? value.idReadable : value
+    );
+  }
+
+  async function readAuditLog(): Promise<string> {
+    return readFile(server.auditLogPath!, 'utf-8').catch(() => '');
+  }
+
+  it.each<[string, () => Record<string, unknown>, () => Record<string, unknown>]>([
+    ['create-issue', () => ({ project: 'DEMO', summary: 'Dry run', priority: 'Major' }), () => ({
+      action: 'Create issue in project DEMO',
+      requests: [{ method: 'POST', path: '/issues', body: expect.objectContaining({ project: { id: '0-1' }, summary: 'Dry run' }) }],
+      changes: expect.arrayContaining([{ field: 'summary', before: null, after: 'Dry run' }, { field: 'Priority', before: null, after: 'Major' }])
+    })],
+    ['update-issue', () => ({ issueId: 'DEMO-1', summary: 'Dry run', state: 'Fixed' }), () => ({
+      action: 'Update issue DEMO-1',
+      requests: [{ method: 'POST', path: '/issues/DEMO-1', body: expect.objectContaining({ summary: 'Dry run' }) }],
+      changes: [
+        { field: 'summary', before: 'Set up continuous integration', after: 'Dry run' },
+        { field: 'State', before: 'Open', after: 'Fixed' }
+      ]
+    })],
+    ['update-issue-timeline', () => ({ issueId: 'DEMO-1', startDate: Date.UTC(2026, 10, 2) }), () => ({
+      action: 'Update timeline of issue DEMO-1',
+      requests: [{ method: 'POST', path: '/issues/DEMO-1', body: expect.anything() }],
+      changes: [{ field: 'Start Date', before: null, after: Date.UTC(2026, 10, 2) }]
+    })],
+    ['create-issue-link', () => ({ issueId: 'DEMO-1', targetIssue: 'DEMO-4', linkType: 'Relates' }), () => ({
+      action: 'Link DEMO-1 to DEMO-4',
+      requests: [{ method: 'POST', path: '/commands', body: { query: 'relates to DEMO-4', issues: [{ idReadable: 'DEMO-1' }] } }],
+      changes: [{ field: 'links (Relates, OUTWARD)', before: null, after: 'DEMO-4' }]
+    })],
+    ['delete-issue-link', () => ({ issueId: 'DEMO-1', linkId: dependLinkId }), () => ({
+      action: `Delete link ${dependLinkId} from issue DEMO-1`,
+      requests: [{ method: 'POST', path: '/commands', body: expect.objectContaining({ issues: [{ idReadable: 'DEMO-1' }] }) }],
+      changes: [expect.objectContaining({ before: 'DEMO-2', after: null })]
+    })],
+    ['create-multiple-subtasks', () => ({ parentIssueId: 'DEMO-1', subtasks: [{ summary: 'Dry run', parentIssueId: 'DEMO-1' }] }), () => ({
+      action: 'Create 1 subtask(s) of DEMO-1',
+      requests: [
+        { method: 'POST', path: '/issues', body: { project: { id: '0-1' }, summary: 'Dry run' } },
+        { method: 'POST', path: '/commands', body: { query: 'parent for <new issue>', issues: [{ idReadable: 'DEMO-1' }] } }
+      ],
+      changes: expect.arrayContaining([{ field: '[1] summary', before: null, after: 'Dry run' }])
+    })],
+    ['create-work-item', () => ({ issueId: 'DEMO-3', duration: 30 }), () => ({
+      action: 'Log 30m on issue DEMO-3',
+      requests: [{ method: 'POST', path: '/issues/DEMO-3/timeTracking/workItems', body: expect.objectContaining({ duration: { minutes: 30 } }) }],
+      changes: expect.arrayContaining([{ field: 'Spent time', before: '90m', after: '120m' }])
+    })]
+  ])('%s', async (name, args, preview) => {
+    const before = snapshotMock();
+    const requestCount = server.mock.requests.length;
+
+    const result = await server.callTool(name, { ...args(), dryRun: true });
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(resultText(result)).toContain('DRY RUN');
+    expect(Object.keys(result.structuredContent!)).toEqual(['dryRun']);
+    expect(dryRunPreviewSchema.strict().parse(result.structuredContent!.dryRun)).toMatchObject(preview());
+
+    expect(server.mock.requests.slice(requestCount).filter(request => request.method !== 'GET')).toEqual([]);
+    expect(snapshotMock()).toBe(before);
+    expect(await readAuditLog()).toBe('');
+    const { changes } = (await server.callTool('list-session-changes')).structuredContent as Record<string, any>;
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ElicitRequestSchema, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Names that match no project, user or link type exactly: asked about through
+ * elicitation when the client supports it, or returned as `ambiguous`
+ */
+
+describe('ambiguous names', () => {
+  let server: TestServer | undefined;
+  let questions: Array<{ message: string; options: unknown }>;
+
+  async function start(answer?: (options: string[]) => ElicitResult): Promise<TestServer> {
+    questions = [];
+    server = await startTestServer({
+      capabilities: answer ? { elicitation: {} } : {},
+      setUpClient: client => answer && client.setRequestHandler(ElicitRequestSchema, async request => {
+        const options = (request.params.requestedSchema.properties.choice as { enum: string[] }).enum;
+        questions.push({ message: request.params.message, options });
+        return answer(options);
+      })
+    });
+    return server;
+  }
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('uses exact names without asking', async () => {
+    const server = await start(() => ({ action: 'reject' }));
+    const result = await server.callTool('create-issue', { project: 'operations', summary: 'Exact project name', assignee: 'asmith' });
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ issue: { idReadable: 'OPS-2' } });
+    expect(questions).toEqual([]);
+  });
+
+  it('asks about a single partial match', async () => {
+    const server = await start(options => ({ action: 'accept', content: { choice: options[0] } }));
+    const result = await server.callTool('create-issue', { project: 'Oper', summary: 'Partial project name' });
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ issue: { idReadable: 'OPS-2' } });
+    expect(questions).toHaveLength(1);
+    expect(questions[0].options).toEqual(['OPS']);
+  });
+
+  it('returns a single partial match as ambiguous without elicitation', async () => {
+    const server = await start();
+    const result = await server.callTool('create-issue-link', { issueId: 'DEMO-1', targetIssue: 'DEMO-4', linkType: 'duplicated' });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.ambiguous).toEqual({
+      kind: 'linkType',
+      value: 'duplicated',
+      options: [{ value: 'Duplicate', label: 'Duplicate (is duplicated by / duplicates)' }]
+    });
+  });
+
+  it('returns the candidates as ambiguous when the user does not pick', async () => {
+    const server = await start(() => ({ action: 'reject' }));
+    const result = await server.callTool('create-issue', { project: 'DEMO', summary: 'Partial user name', assignee: 'alice' });
+    expect(result.isError).toBe(true);
+    expect(questions).toHaveLength(1);
+    expect(result.structuredContent?.ambiguous).toMatchObject({
+      kind: 'user',
+      field: 'Assignee',
+      value: 'alice',
+      options: [{ value: 'asmith' }, { value: 'ajones' }]
+    });
+    expect(server.mock.issues.some(issue => issue.summary === 'Partial user name')).toBe(false);
+  });
+});
+
+describe('project policy with project names', () => {
+  let server: TestServer | undefined;
+  let questions: number;
+
+  async function start(elicitation: boolean): Promise<TestServer> {
+    questions = 0;
+    server = await startTestServer({
+      settings: { policy: { allowedProjects: ['OPS'] } },
+      capabilities: elicitation ? { elicitation: {} } : {},
+      setUpClient: client => elicitation && client.setRequestHandler(ElicitRequestSchema, async () => {
+        questions++;
+        return { action: 'accept', content: { choice: 'OPS' } };
+      })
+    });
+    return server;
+  }
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('checks projects given by name', async () => {
+    const server = await start(false);
+    const allowed = await server.callTool('create-issue', { project: 'Operations', summary: 'Allowed by name' });
+    expect(allowed.isError, resultText(allowed)).toBeFalsy();
+
+    const refused = await server.callTool('create-issue', { project: 'Demo', summary: 'Refused by name' });
+    expect(refused.isError).toBe(true);
+    expect(resultText(refused)).toContain('Refused by policy');
+  });
+
+  it('asks about a partial project name once', async () => {
+    const server = await start(true);
+    const result = await server.callTool('create-issue', { project: 'Oper', summary: 'Partial name under policy' });
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(questions).toBe(1);
+  });
+
+  it('returns a partial project name as ambiguous without elicitation', async () => {
+    const server = await start(false);
+    const result = await server.callTool('create-issue', { project: 'Oper', summary: 'Partial name under policy' });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.ambiguous).toMatchObject({ kind: 'project', value: 'Oper', options: [{ value: 'OPS' }] });
+  });
+});
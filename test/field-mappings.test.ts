@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * An instance whose State and Priority fields have other names, mapped with
+ * the profile's fieldMappings: reads, writes, searches and prompts all use
+ * the instance's names
+ */
+
+describe('field mappings', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer({
+      setUpMock: mock => {
+        mock.renameField('State', 'Stage');
+        mock.renameField('Priority', 'Severity');
+      },
+      youtrack: { fieldMappings: { State: 'Stage', Priority: 'Severity' } }
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  function promptText(result: GetPromptResult): string {
+    return result.messages.map(message => message.content.type === 'text' ? message.content.text : '').join('\n');
+  }
+
+  it('shows the mapped fields of an issue', async () => {
+    const text = resultText(await server.callTool('get-issue', { issueId: 'DEMO-2' }));
+    expect(text).toContain('**State:** Open');
+    expect(text).toContain('**Priority:** Critical');
+  });
+
+  it('shows the mapped state of a parent issue', async () => {
+    const text = resultText(await server.callTool('get-parent-issue', { subtaskIssueId: 'DEMO-3' }));
+    expect(text).toContain('**ID:** DEMO-1');
+    expect(text).toContain('**State:** Open');
+  });
+
+  it('lists subtasks with their mapped state', async () => {
+    const result = await server.callTool('get-subtasks', { parentIssueId: 'DEMO-1', includeDetails: true });
+    expect(resultText(result)).toContain('State: In Progress');
+  });
+
+  it('writes the state to the mapped field', async () => {
+    await server.youtrack.updateIssue('DEMO-4', { state: 'Verified' });
+    expect(server.mock.issues.find(issue => issue.idReadable === 'DEMO-4')!.fields.get('Stage')).toBe('Verified');
+  });
+
+  it('names tool parameters after the instance fields', async () => {
+    const result = await server.callTool('update-issue', { issueId: 'DEMO-4', stage: 'Open', severity: 'Minor' });
+    expect(result.isError).toBeFalsy();
+    const issue = server.mock.issues.find(issue => issue.idReadable === 'DEMO-4')!;
+    expect([issue.fields.get('Stage'), issue.fields.get('Severity')]).toEqual(['Open', 'Minor']);
+  });
+
+  it('reads the mapped state and priority into Gantt tasks', async () => {
+    const { tasks } = await server.youtrack.getGanttData({ projectIds: ['DEMO'], stateNames: ['In Progress'] });
+    expect(tasks.map(task => [task.idReadable, task.state?.name, task.priority?.name])).toEqual([['DEMO-3', 'In Progress', 'Normal']]);
+  });
+
+  it('searches the mapped fields in prompts', async () => {
+    const standup = promptText(await server.client.getPrompt({ name: 'daily-standup', arguments: { user: 'jdoe' } }));
+    expect(standup).toMatch(/\*\*Issues in In Progress\*\* \(1\):\n- DEMO-3 - Configure build pipeline \(Stage: In Progress, Severity: Normal/);
+  });
+});
@@ -0,0 +1,128 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Server } from 'node:http';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { CallToolResult, ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { MockYouTrack } from './mock/youtrack-mock.js';
+import { YouTrackClient } from '../src/youtrack-client.js';
+import { YouTrackInstances } from '../src/instances.js';
+import { SchemaRefresher } from '../src/schema-refresh.js';
+import { ToolPolicy } from '../src/policy.js';
+import { AuditLog } from '../src/audit.js';
+import { configureLogging } from '../src/logger.js';
+import { createServer } from '../src/server.js';
+import { startHttpServer } from '../src/http-server.js';
+import { loadToolDefinitions, ToolDefinition, ToolRuntime } from '../src/tools/registry.js';
+import { ProfileSettings, YouTrackConfig } from '../src/types.js';
+
+/**
+ * The MCP server wired to an in-process mock YouTrack, with a connected MCP client
+ */
+export interface TestServer {
+  mock: MockYouTrack;
+  client: Client;
+  definitions: ToolDefinition[];
+  youtrack: YouTrackClient;
+  auditLogPath?: string;
+  /**
+   * Call a tool and return its result as the client received it
+   */
+  callTool: (name: string, args?: Record<string, unknown>) => Promise<CallToolResult>;
+  close: () => Promise<void>;
+}
+
+export interface TestServerOptions {
+  settings?: Partial<ProfileSettings>;
+  youtrack?: Partial<YouTrackConfig>;
+  capabilities?: ClientCapabilities;
+  /**
+   * Set up the client before it connects, e.g. to answer elicitation requests
+   */
+  setUpClient?: (client: Client) => void;
+  /**
+   * Change the mock's data before the server loads its custom fields
+   */
+  setUpMock?: (mock: MockYouTrack) => void;
+  /**
+   * Connect over Streamable HTTP, through the server's HTTP transport, instead of in memory
+   */
+  http?: boolean;
+}
+
+// Keep expected tool failures out of the test output
+configureLogging({ level: 'critical', includeBodies: false });
+
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  const mock = new MockYouTrack();
+  options.setUpMock?.(mock);
+  const { url, server: httpServer } = await mock.listen();
+  const auditDir = await mkdtemp(join(tmpdir(), 'youtrack-mcp-test-'));
+
+  const settings: ProfileSettings = {
+    outputFormat: 'markdown',
+    subscriptionMaxBackoff: 900,
+    auditLog: join(auditDir, 'audit.jsonl'),
+    ...options.settings
+  };
+  const auditLog = settings.auditLog ? new AuditLog(settings.auditLog) : undefined;
+  const youtrack = new YouTrackClient({ url, token: 'test-token', rateLimit: 100000, maxRetries: 0, ...options.youtrack }, auditLog);
+
+  const instances = new YouTrackInstances('default');
+  instances.add({ name: 'default', client: youtrack, customFields: await youtrack.getAccessibleCustomFields() });
+
+  const policy = new ToolPolicy(settings.policy, settings.enabledTools);
+  const definitions = policy.filterTools(await loadToolDefinitions());
+  const runtime: ToolRuntime = { instances, settings, policy, auditLog, schemaRefresher: new SchemaRefresher(instances) };
+
+  const client = new Client({ name: 'youtrack-mcp-tests', version: '1.0.0' }, { capabilities: options.capabilities ?? {} });
+  options.setUpClient?.(client);
+  let closeServer: () => Promise<void>;
+  if (options.http) {
+    const mcpHttpServer = await startHttpServer(() => createServer(definitions, runtime), { mode: 'http', host: '127.0.0.1', port: 0 });
+    await client.connect(new StreamableHTTPClientTransport(new URL('/mcp', mcpHttpServer.url)));
+    closeServer = () => mcpHttpServer.close();
+  } else {
+    const server = createServer(definitions, runtime);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    closeServer = () => server.close();
+  }
+
+  return {
+    mock,
+    client,
+    definitions,
+    youtrack,
+    auditLogPath: settings.auditLog,
+    callTool: async (name, args = {}) => await client.callTool({ name, arguments: args }) as CallToolResult,
+    close: async () => {
+      await client.close();
+      await closeServer();
+      await closeHttpServer(httpServer);
+      await rm(auditDir, { recursive: true, force: true });
+    }
+  };
+}
+
+function closeHttpServer(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+}
+
+/**
+ * Text of a tool result
+ */
+export function resultText(result: CallToolResult): string {
+  return result.content.map(item => item.type === 'text' ? item.text : '').join('\n');
+}
+
+/**
+ * Check structured content against a tool's declared output schema; returns the problems, if any
+ */
+export function checkOutputSchema(definition: ToolDefinition, structuredContent: unknown): string[] {
+  const parsed = z.object(definition.outputSchema).safeParse(structuredContent);
+  return parsed.success ? [] : parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
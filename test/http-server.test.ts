@@ -0,0 +1,29 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * The Streamable HTTP transport on /mcp
+ */
+
+describe('HTTP transport', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer({ http: true });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('opens a session and lists the tools', async () => {
+    const { tools } = await server.client.listTools();
+    expect(tools.map(tool => tool.name).sort()).toEqual(server.definitions.map(definition => definition.name).sort());
+  });
+
+  it('calls tools in the session', async () => {
+    const result = await server.callTool('get-issue', { issueId: 'DEMO-1' });
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ issue: { idReadable: 'DEMO-1' } });
+  });
+});
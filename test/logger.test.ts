@@ -0,0 +1,133 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LoggingMessageNotification, LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { configureLogging, createLogger } from '../src/logger.js';
+import { startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Log levels set with `logging/setLevel`, the session each entry is sent to,
+ * and the local log file
+ */
+
+const log = createLogger('logger-test');
+
+describe('MCP logging', () => {
+  let first: TestServer;
+  let second: TestServer;
+  const received = new Map<TestServer, LoggingMessageNotification['params'][]>();
+
+  async function startCollecting(): Promise<TestServer> {
+    const messages: LoggingMessageNotification['params'][] = [];
+    const server = await startTestServer({
+      setUpClient: client => client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+        messages.push(notification.params);
+      })
+    });
+    received.set(server, messages);
+    return server;
+  }
+
+  function messagesOf(server: TestServer, logger = 'logger-test'): Array<LoggingMessageNotification['params']> {
+    return received.get(server)!.filter(message => message.logger === logger);
+  }
+
+  beforeAll(async () => {
+    first = await startCollecting();
+    second = await startCollecting();
+  });
+
+  afterAll(async () => {
+    await first.close();
+    await second.close();
+  });
+
+  beforeEach(() => {
+    for (const messages of received.values()) {
+      messages.length = 0;
+    }
+  });
+
+  it('sends each client the entries at or above the level it set', async () => {
+    await first.client.setLoggingLevel('debug');
+    await second.client.setLoggingLevel('error');
+
+    log.debug('Debug entry');
+    log.warning('Warning entry');
+    log.error('Error entry');
+
+    await vi.waitFor(() => expect(messagesOf(first)).toHaveLength(3));
+    await vi.waitFor(() => expect(messagesOf(second)).toHaveLength(1));
+    expect(messagesOf(first).map(message => message.level)).toEqual(['debug', 'warning', 'error']);
+    expect(messagesOf(second)[0]).toEqual({ level: 'error', logger: 'logger-test', data: 'Error entry' });
+  });
+
+  it('sends warnings and above until the client sets a level', async () => {
+    const third = await startCollecting();
+    try {
+      log.info('Info entry');
+      log.warning('Warning entry', { issueId: 'DEMO-1' });
+
+      await vi.waitFor(() => expect(messagesOf(third)).toHaveLength(1));
+      expect(messagesOf(third)[0]).toEqual({
+        level: 'warning',
+        logger: 'logger-test',
+        data: { message: 'Warning entry', issueId: 'DEMO-1' }
+      });
+    } finally {
+      await third.close();
+    }
+  });
+
+  it('sends the entries of a tool call only to the client that made it', async () => {
+    await first.client.setLoggingLevel('debug');
+    await second.client.setLoggingLevel('debug');
+
+    const result = await first.callTool('update-issue', { issueId: 'DEMO-1', summary: 'Logged' });
+    expect(result.isError).toBeFalsy();
+
+    const updating = messagesOf(first, 'youtrack-client').find(message => (message.data as any).message === 'Updating issue');
+    expect(updating).toMatchObject({ level: 'debug', data: { issueId: 'DEMO-1', body: '[omitted]' } });
+    expect(messagesOf(second, 'youtrack-client')).toEqual([]);
+  });
+});
+
+describe('log file', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'youtrack-mcp-log-'));
+  });
+
+  afterEach(async () => {
+    configureLogging({ level: 'critical', includeBodies: false });
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function readEntries(file: string): Promise<any[]> {
+    return (await readFile(file, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+  }
+
+  it('writes entries at or above the configured level as JSON lines', async () => {
+    const file = join(dir, 'logs', 'server.jsonl');
+    configureLogging({ level: 'info', includeBodies: false, file });
+
+    log.debug('Not written');
+    log.info('Written', { token: 'perm:secret', body: { summary: 'Hidden' } });
+
+    const entries = await readEntries(file);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ level: 'info', logger: 'logger-test', message: 'Written', data: { body: '[omitted]' } });
+    expect(JSON.stringify(entries[0])).not.toContain('perm:secret');
+  });
+
+  it('writes bodies when includeBodies is set', async () => {
+    const file = join(dir, 'server.jsonl');
+    configureLogging({ level: 'debug', includeBodies: true, file });
+
+    log.debug('With body', { body: { summary: 'Shown' } });
+
+    expect((await readEntries(file))[0].data).toEqual({ body: { summary: 'Shown' } });
+  });
+});
@@ -0,0 +1,19 @@
+import { createLogger } from '../../src/logger.js';
+import { MockYouTrack } from './youtrack-mock.js';
+
+/**
+ * Start a mock YouTrack: `npm run mock -- [port]`
+ */
+
+const log = createLogger('mock-youtrack');
+
+async function main(): Promise<void> {
+  const port = parseInt(process.argv[2] || '8090', 10);
+  const { url } = await new MockYouTrack().listen(port);
+  log.info(`Mock YouTrack is running on ${url}`, { projects: ['DEMO', 'OPS', 'OLD'], user: 'admin' });
+}
+
+main().catch(error => {
+  log.error('Failed to start mock YouTrack', { error });
+  process.exit(1);
+});
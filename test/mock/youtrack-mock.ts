@@ -0,0 +1,1046 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createLogger } from '../../src/logger.js';
+
+/**
+ * In-memory fake of the YouTrack REST API, for running the server without a
+ * YouTrack instance.
+ *
+ * It models the parts of the API the client uses: users, projects, custom
+ * fields with their bundles, issues, comments, links, work items, commands and
+ * activities. Responses contain only the attributes named in `fields`, as in
+ * YouTrack: entities without a selection come back as their `$type` and `id`,
+ * so a missing attribute in a request shows up as a missing value. Writes are
+ * validated the way YouTrack validates them (unknown values,
+ * required fields, incompatible `$type`s), so client bugs surface as errors.
+ * Any bearer token is accepted.
+ *
+ *   npm run mock -- 8090
+ *   YOUTRACK_URL=http://127.0.0.1:8090 YOUTRACK_TOKEN=mock npm start
+ */
+
+const log = createLogger('mock-youtrack');
+
+/**
+ * Working time used for period presentations, as in YouTrack's default settings
+ */
+const MINUTES_PER_DAY = 8 * 60;
+const DAYS_PER_WEEK = 5;
+
+interface MockUser {
+  id: string;
+  login: string;
+  fullName: string;
+  email: string;
+}
+
+interface MockProject {
+  id: string;
+  name: string;
+  shortName: string;
+  description: string;
+  archived: boolean;
+  leader: MockUser;
+  created: number;
+  nextNumber: number;
+  workItemTypes: string[]; // Work item types enabled in the project
+}
+
+interface MockField {
+  name: string;
+  valueType: string;
+  isMultiValue: boolean;
+  canBeEmpty: boolean;
+  $type: string; // $type of the issue custom field
+  elementType?: string; // $type of bundle elements
+  values?: string[];
+  resolvedValues?: string[];
+  defaultValue?: string;
+}
+
+interface MockComment {
+  id: string;
+  text: string;
+  author: MockUser;
+  created: number;
+  updated: number | null;
+}
+
+interface MockWorkItem {
+  id: string;
+  author: MockUser;
+  date: number;
+  minutes: number;
+  description: string;
+  type: string | null;
+  created: number;
+  updated: number;
+}
+
+interface MockIssue {
+  id: string;
+  idReadable: string;
+  project: MockProject;
+  numberInProject: number;
+  summary: string;
+  description: string;
+  reporter: MockUser;
+  updater: MockUser;
+  created: number;
+  updated: number;
+  resolved: number | null;
+  fields: Map<string, any>; // Field name -> stored value (names, logins, numbers)
+  comments: MockComment[];
+  workItems: MockWorkItem[];
+  activities: any[];
+}
+
+interface MockLinkType {
+  id: string;
+  name: string;
+  sourceToTarget: string;
+  targetToSource: string;
+  directed: boolean;
+  aggregation: boolean;
+}
+
+interface MockLink {
+  typeId: string;
+  source: MockIssue;
+  target: MockIssue;
+}
+
+export interface MockFailure {
+  method: string;
+  path: string; // Without the /api prefix, e.g. /issues/DEMO-1
+  status: number;
+  headers?: Record<string, string>;
+  count?: number; // Requests to fail, 1 by default
+}
+
+class MockApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const FIELDS: MockField[] = [
+  { name: 'Priority', valueType: 'enum', isMultiValue: false, canBeEmpty: false, $type: 'SingleEnumIssueCustomField', elementType: 'EnumBundleElement', values: ['Show-stopper', 'Critical', 'Major', 'Normal', 'Minor'], defaultValue: 'Normal' },
+  { name: 'Type', valueType: 'enum', isMultiValue: false, canBeEmpty: false, $type: 'SingleEnumIssueCustomField', elementType: 'EnumBundleElement', values: ['Bug', 'Feature', 'Task'], defaultValue: 'Task' },
+  { name: 'State', valueType: 'state', isMultiValue: false, canBeEmpty: false, $type: 'StateIssueCustomField', elementType: 'StateBundleElement', values: ['Open', 'In Progress', 'Fixed', 'Verified'], resolvedValues: ['Fixed', 'Verified'], defaultValue: 'Open' },
+  { name: 'Assignee', valueType: 'user', isMultiValue: false, canBeEmpty: true, $type: 'SingleUserIssueCustomField' },
+  { name: 'Subsystem', valueType: 'ownedField', isMultiValue: false, canBeEmpty: true, $type: 'SingleOwnedIssueCustomField', elementType: 'OwnedBundleElement', values: ['Backend', 'Frontend'] },
+  { name: 'Fix versions', valueType: 'version', isMultiValue: true, canBeEmpty: true, $type: 'MultiVersionIssueCustomField', elementType: 'VersionBundleElement', values: ['1.0', '1.1', '2.0'] },
+  { name: 'Estimation', valueType: 'period', isMultiValue: false, canBeEmpty: true, $type: 'PeriodIssueCustomField' },
+  { name: 'Spent time', valueType: 'period', isMultiValue: false, canBeEmpty: true, $type: 'PeriodIssueCustomField' },
+  { name: 'Story Points', valueType: 'integer', isMultiValue: false, canBeEmpty: true, $type: 'SimpleIssueCustomField' },
+  { name: 'Start Date', valueType: 'date', isMultiValue: false, canBeEmpty: true, $type: 'DateIssueCustomField' },
+  { name: 'Due Date', valueType: 'date', isMultiValue: false, canBeEmpty: true, $type: 'DateIssueCustomField' },
+  { name: 'Details', valueType: 'text', isMultiValue: false, canBeEmpty: true, $type: 'TextIssueCustomField' }
+];
+
+const LINK_TYPES: MockLinkType[] = [
+  { id: '106-0', name: 'Relates', sourceToTarget: 'relates to', targetToSource: 'relates to', directed: false, aggregation: false },
+  { id: '106-1', name: 'Depend', sourceToTarget: 'is required for', targetToSource: 'depends on', directed: true, aggregation: false },
+  { id: '106-2', name: 'Duplicate', sourceToTarget: 'is duplicated by', targetToSource: 'duplicates', directed: true, aggregation: true },
+  { id: '106-3', name: 'Subtask', sourceToTarget: 'parent for', targetToSource: 'subtask of', directed: true, aggregation: true }
+];
+
+const WORK_ITEM_TYPES = ['Development', 'Testing', 'Documentation'];
+
+function formatPeriod(minutes: number): string {
+  const weeks = Math.floor(minutes / (MINUTES_PER_DAY * DAYS_PER_WEEK));
+  const days = Math.floor(minutes / MINUTES_PER_DAY) % DAYS_PER_WEEK;
+  const hours = Math.floor(minutes / 60) % (MINUTES_PER_DAY / 60);
+  const rest = minutes % 60;
+  const parts = [weeks && `${weeks}w`, days && `${days}d`, hours && `${hours}h`, rest && `${rest}m`].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : '0m';
+}
+
+/**
+ * Attributes selected by a `fields` parameter, with the selections of nested entities
+ */
+type FieldSelection = Map<string, FieldSelection | undefined>;
+
+/**
+ * Parse a `fields` parameter, e.g. `id,project(id,shortName),customFields(name,value(name))`
+ */
+function parseFieldSelection(fields: string): FieldSelection {
+  const text = fields.replace(/\s+/g, '');
+  let position = 0;
+
+  const parseList = (): FieldSelection => {
+    const selection: FieldSelection = new Map();
+    while (position < text.length && text[position] !== ')') {
+      const name = /^[^,()]+/.exec(text.slice(position))?.[0];
+      if (!name) {
+        throw new MockApiError(400, `Invalid fields parameter: ${fields}`);
+      }
+      position += name.length;
+
+      let nested: FieldSelection | undefined;
+      if (text[position] === '(') {
+        position++;
+        nested = parseList();
+        if (text[position] !== ')') {
+          throw new MockApiError(400, `Invalid fields parameter: ${fields}`);
+        }
+        position++;
+      }
+      // A name selected twice gets both selections
+      const previous = selection.get(name);
+      selection.set(name, previous && nested ? new Map([...previous, ...nested]) : previous ?? nested);
+
+      if (text[position] === ',') {
+        position++;
+      }
+    }
+    return selection;
+  };
+
+  return parseList();
+}
+
+/**
+ * Keep only the selected attributes of a response. Attributes an entity does not
+ * have are ignored, as YouTrack ignores attributes of other entity types.
+ */
+function selectFields(value: any, selection: FieldSelection | undefined): any {
+  if (Array.isArray(value)) {
+    return value.map(item => selectFields(item, selection));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const selected: Record<string, any> = {};
+  if ('$type' in value) {
+    selected.$type = value.$type;
+  }
+  if (!selection) {
+    if ('id' in value) {
+      selected.id = value.id;
+    }
+    return selected;
+  }
+  for (const [name, nested] of selection) {
+    if (name in value) {
+      selected[name] = selectFields(value[name], nested);
+    }
+  }
+  return selected;
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+}
+
+export class MockYouTrack {
+  readonly users: MockUser[] = [
+    { id: '1-1', login: 'admin', fullName: 'Administrator', email: 'admin@example.com' },
+    { id: '1-2', login: 'jdoe', fullName: 'John Doe', email: 'john.doe@example.com' },
+    { id: '1-3', login: 'asmith', fullName: 'Alice Smith', email: 'alice.smith@example.com' },
+    { id: '1-4', login: 'ajones', fullName: 'Alice Jones', email: 'alice.jones@example.com' }
+  ];
+  readonly projects: MockProject[] = [];
+  readonly issues: MockIssue[] = [];
+  readonly links: MockLink[] = [];
+  /**
+   * Custom fields of every project; copies, so a test can rename them
+   */
+  readonly customFields: MockField[] = FIELDS.map(field => ({ ...field }));
+  /**
+   * Every API request received over HTTP, in order
+   */
+  readonly requests: Array<{ method: string; path: string }> = [];
+  private failures: MockFailure[] = [];
+  private nextId = 1;
+
+  constructor() {
+    this.seed();
+  }
+
+  /**
+   * The user all requests are made as
+   */
+  get currentUser(): MockUser {
+    return this.users[0];
+  }
+
+  /**
+   * Answer the next matching requests with an error instead of handling them,
+   * e.g. a 429 or 503 to test retries
+   */
+  failRequests(failure: MockFailure): void {
+    this.failures.push({ count: 1, ...failure });
+  }
+
+  /**
+   * Rename a custom field, like instances that call State "Stage"
+   */
+  renameField(from: string, to: string): void {
+    this.customFields.find(field => field.name === from)!.name = to;
+    for (const issue of this.issues) {
+      const values = [...issue.fields];
+      issue.fields.clear();
+      for (const [name, value] of values) {
+        issue.fields.set(name === from ? to : name, value);
+      }
+    }
+  }
+
+  private takeFailure(method: string, path: string): MockFailure | undefined {
+    const failure = this.failures.find(f => f.method === method && f.path === path);
+    if (failure && --failure.count! <= 0) {
+      this.failures.splice(this.failures.indexOf(failure), 1);
+    }
+    return failure;
+  }
+
+  private newId(prefix: number): string {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  private seed(): void {
+    const created = Date.UTC(2026, 0, 5);
+    this.projects.push(
+      { id: '0-1', name: 'Demo', shortName: 'DEMO', description: 'Demo project', archived: false, leader: this.users[0], created, nextNumber: 1, workItemTypes: WORK_ITEM_TYPES },
+      { id: '0-2', name: 'Operations', shortName: 'OPS', description: 'Operations tasks', archived: false, leader: this.users[1], created, nextNumber: 1, workItemTypes: ['Development', 'Testing'] },
+      { id: '0-3', name: 'Legacy', shortName: 'OLD', description: 'Archived project', archived: true, leader: this.users[0], created, nextNumber: 1, workItemTypes: WORK_ITEM_TYPES }
+    );
+
+    const setup = this.addIssue(this.projects[0], 'Set up continuous integration', { Type: 'Task', Assignee: 'jdoe', Estimation: 960, 'Story Points': 5 });
+    const login = this.addIssue(this.projects[0], 'Login fails with SSO', { Type: 'Bug', Priority: 'Critical', Assignee: 'asmith', Subsystem: 'Backend' });
+    const pipeline = this.addIssue(this.projects[0], 'Configure build pipeline', { Type: 'Task', State: 'In Progress', Assignee: 'jdoe', Estimation: 240 });
+    this.addIssue(this.projects[0], 'Update README', { Type: 'Task', State: 'Fixed', 'Fix versions': ['1.0'] });
+    this.addIssue(this.projects[1], 'Rotate TLS certificates', { Priority: 'Major', 'Due Date': Date.UTC(2026, 11, 1) });
+
+    this.links.push(
+      { typeId: '106-3', source: setup, target: pipeline },
+      { typeId: '106-1', source: setup, target: login }
+    );
+    this.addWorkItem(pipeline, { minutes: 90, description: 'Pipeline draft', type: 'Development' });
+  }
+
+  private addIssue(project: MockProject, summary: string, values: Record<string, any> = {}, description = ''): MockIssue {
+    const now = Date.now();
+    const number = project.nextNumber++;
+    const issue: MockIssue = {
+      id: this.newId(2),
+      idReadable: `${project.shortName}-${number}`,
+      project,
+      numberInProject: number,
+      summary,
+      description,
+      reporter: this.currentUser,
+      updater: this.currentUser,
+      created: now,
+      updated: now,
+      resolved: null,
+      fields: new Map(this.customFields.map(field => [field.name, field.defaultValue ?? (field.isMultiValue ? [] : null)])),
+      comments: [],
+      workItems: [],
+      activities: []
+    };
+
+    for (const [name, value] of Object.entries(values)) {
+      issue.fields.set(name, value);
+    }
+    this.updateResolved(issue);
+    this.issues.push(issue);
+    this.addActivity(issue, 'IssueCreatedCategory', { $type: 'IssueCreatedActivityItem' });
+    return issue;
+  }
+
+  private addWorkItem(issue: MockIssue, data: { minutes: number; date?: number; description?: string; type?: string | null }): MockWorkItem {
+    const now = Date.now();
+    const workItem: MockWorkItem = {
+      id: this.newId(8),
+      author: this.currentUser,
+      date: data.date ?? now,
+      minutes: data.minutes,
+      description: data.description ?? '',
+      type: data.type ?? null,
+      created: now,
+      updated: now
+    };
+    issue.workItems.push(workItem);
+    this.updateSpentTime(issue);
+    this.addActivity(issue, 'WorkItemCategory', { $type: 'WorkItemActivityItem', added: [this.workItemJson(workItem)] });
+    return workItem;
+  }
+
+  private addActivity(issue: MockIssue, category: string, data: Record<string, any>): void {
+    issue.activities.push({
+      id: this.newId(9),
+      timestamp: Date.now(),
+      author: this.userJson(this.currentUser),
+      category: { id: category },
+      target: { id: issue.id, idReadable: issue.idReadable },
+      ...data
+    });
+  }
+
+  private updateSpentTime(issue: MockIssue): void {
+    const minutes = issue.workItems.reduce((total, workItem) => total + workItem.minutes, 0);
+    issue.fields.set('Spent time', minutes > 0 ? minutes : null);
+  }
+
+  private updateResolved(issue: MockIssue): void {
+    const state = this.customFields.find(field => field.valueType === 'state')!;
+    const resolved = state.resolvedValues!.includes(issue.fields.get(state.name));
+    issue.resolved = resolved ? issue.resolved ?? Date.now() : null;
+  }
+
+  // Lookups
+
+  private findUser(reference: { id?: string; login?: string } | string): MockUser {
+    const key = typeof reference === 'string' ? reference : reference.login ?? reference.id;
+    const user = this.users.find(candidate => candidate.id === key || candidate.login === key || (key === 'me' && candidate === this.currentUser));
+    if (!user) {
+      throw new MockApiError(404, `User ${key} not found`);
+    }
+    return user;
+  }
+
+  private findProject(key: string): MockProject {
+    const project = this.projects.find(candidate => candidate.id === key || candidate.shortName.toLowerCase() === key.toLowerCase());
+    if (!project) {
+      throw new MockApiError(404, `Project ${key} not found`);
+    }
+    return project;
+  }
+
+  private findIssue(key: string): MockIssue {
+    const issue = this.issues.find(candidate => candidate.id === key || candidate.idReadable.toLowerCase() === key.toLowerCase());
+    if (!issue) {
+      throw new MockApiError(404, `Issue ${key} not found`);
+    }
+    return issue;
+  }
+
+  private findField(name: string): MockField {
+    const field = this.customFields.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!field) {
+      throw new MockApiError(400, `Unknown custom field: ${name}`);
+    }
+    return field;
+  }
+
+  // Serialization
+
+  private userJson(user: MockUser): any {
+    return { $type: 'User', id: user.id, login: user.login, fullName: user.fullName, email: user.email, online: false, banned: false };
+  }
+
+  private projectRef(project: MockProject): any {
+    return { $type: 'Project', id: project.id, name: project.name, shortName: project.shortName };
+  }
+
+  private projectJson(project: MockProject): any {
+    return {
+      ...this.projectRef(project),
+      description: project.description,
+      archived: project.archived,
+      leader: this.userJson(project.leader),
+      createdBy: this.userJson(project.leader),
+      created: project.created,
+      updated: project.created
+    };
+  }
+
+  private elementJson(field: MockField, name: string): any {
+    const element: any = { $type: field.elementType, id: `${field.name}:${name}`, name };
+    if (field.resolvedValues) {
+      element.isResolved = field.resolvedValues.includes(name);
+    }
+    return element;
+  }
+
+  private fieldValueJson(field: MockField, value: any): any {
+    if (isEmptyValue(value)) {
+      return field.isMultiValue ? [] : null;
+    }
+    switch (field.valueType) {
+      case 'user':
+        return this.userJson(this.findUser(value));
+      case 'period':
+        return { $type: 'PeriodValue', id: `${value}`, minutes: value, presentation: formatPeriod(value) };
+      case 'text':
+        return { $type: 'TextFieldValue', text: value };
+      case 'integer':
+      case 'float':
+      case 'date':
+      case 'string':
+        return value;
+      default:
+        return field.isMultiValue
+          ? (value as string[]).map(name => this.elementJson(field, name))
+          : this.elementJson(field, value);
+    }
+  }
+
+  /**
+   * An issue with all its attributes. `customFieldNames` (the `customFields` request parameter) limits the custom fields.
+   */
+  private issueJson(issue: MockIssue, customFieldNames: string[] = []): any {
+    const fields = customFieldNames.length > 0
+      ? this.customFields.filter(field => customFieldNames.some(name => name.toLowerCase() === field.name.toLowerCase()))
+      : this.customFields;
+
+    return {
+      $type: 'Issue',
+      id: issue.id,
+      idReadable: issue.idReadable,
+      numberInProject: issue.numberInProject,
+      summary: issue.summary,
+      description: issue.description,
+      project: this.projectRef(issue.project),
+      reporter: this.userJson(issue.reporter),
+      updater: this.userJson(issue.updater),
+      created: issue.created,
+      updated: issue.updated,
+      resolved: issue.resolved,
+      tags: [],
+      customFields: fields.map(field => ({
+        $type: field.$type,
+        id: `${issue.project.id}:${field.name}`,
+        name: field.name,
+        value: this.fieldValueJson(field, issue.fields.get(field.name)),
+        projectCustomField: { field: { name: field.name, fieldType: { valueType: field.valueType } } }
+      })),
+      comments: issue.comments.map(comment => ({
+        $type: 'IssueComment',
+        id: comment.id,
+        text: comment.text,
+        author: this.userJson(comment.author),
+        created: comment.created,
+        updated: comment.updated,
+        deleted: false
+      })),
+      links: this.linksJson(issue),
+      attachments: [],
+      timeTracking: { $type: 'IssueTimeTracker', workItems: issue.workItems.map(workItem => this.workItemJson(workItem)) }
+    };
+  }
+
+  private issueRef(issue: MockIssue): any {
+    return { $type: 'Issue', id: issue.id, idReadable: issue.idReadable, summary: issue.summary, project: { shortName: issue.project.shortName } };
+  }
+
+  private workItemJson(workItem: MockWorkItem): any {
+    return {
+      $type: 'IssueWorkItem',
+      id: workItem.id,
+      author: this.userJson(workItem.author),
+      date: workItem.date,
+      duration: { $type: 'DurationValue', id: workItem.id, minutes: workItem.minutes, presentation: formatPeriod(workItem.minutes) },
+      description: workItem.description,
+      type: workItem.type ? { $type: 'WorkItemType', id: workItem.type, name: workItem.type } : null,
+      created: workItem.created,
+      updated: workItem.updated
+    };
+  }
+
+  private linkTypeJson(linkType: MockLinkType): any {
+    return { $type: 'IssueLinkType', ...linkType, localizedName: null, readOnly: false };
+  }
+
+  private linksJson(issue: MockIssue): any[] {
+    const result: any[] = [];
+    for (const linkType of LINK_TYPES) {
+      const links = this.links.filter(link => link.typeId === linkType.id);
+      const entry = (id: string, direction: string, issues: MockIssue[]) => ({
+        $type: 'IssueLink',
+        id,
+        direction,
+        linkType: this.linkTypeJson(linkType),
+        issues: issues.map(linked => this.issueRef(linked)),
+        trimmedIssues: issues.map(linked => this.issueRef(linked))
+      });
+
+      const outward = links.filter(link => link.source === issue).map(link => link.target);
+      const inward = links.filter(link => link.target === issue).map(link => link.source);
+      if (linkType.directed) {
+        result.push(entry(`${linkType.id}s`, 'OUTWARD', outward), entry(`${linkType.id}t`, 'INWARD', inward));
+      } else {
+        result.push(entry(linkType.id, 'BOTH', [...outward, ...inward]));
+      }
+    }
+    return result;
+  }
+
+  private customFieldSettingsJson(): any[] {
+    return this.customFields.map(field => ({
+      $type: 'CustomField',
+      name: field.name,
+      fieldType: { valueType: field.valueType, isMultiValue: field.isMultiValue },
+      instances: this.projects.map(project => ({
+        project: this.projectRef(project),
+        canBeEmpty: field.canBeEmpty,
+        defaultValues: field.defaultValue ? [{ name: field.defaultValue }] : [],
+        bundle: field.values ? { values: field.values.map(name => ({ name, description: '', archived: false })) } : undefined
+      }))
+    }));
+  }
+
+  // Writes
+
+  /**
+   * Convert a custom field value from a request into the stored form, as YouTrack validates it
+   */
+  private readFieldValue(field: MockField, payload: any): any {
+    if (payload.$type && payload.$type !== field.$type) {
+      throw new MockApiError(400, `Incompatible field type: ${field.name} is a ${field.$type}, got ${payload.$type}`);
+    }
+
+    const value = payload.value;
+    if (isEmptyValue(value)) {
+      if (!field.canBeEmpty) {
+        throw new MockApiError(400, `${field.name} is required`);
+      }
+      return field.isMultiValue ? [] : null;
+    }
+    if (Array.isArray(value) !== field.isMultiValue) {
+      throw new MockApiError(400, `Incompatible value for ${field.name}: expected ${field.isMultiValue ? 'a list' : 'a single value'}`);
+    }
+
+    switch (field.valueType) {
+      case 'user':
+        return this.findUser(value).login;
+      case 'period':
+        if (typeof value?.minutes !== 'number') {
+          throw new MockApiError(400, `${field.name} expects a period with minutes`);
+        }
+        return value.minutes;
+      case 'text':
+        return typeof value === 'object' ? value.text : String(value);
+      case 'integer':
+      case 'float':
+      case 'date':
+        if (typeof value !== 'number') {
+          throw new MockApiError(400, `${field.name} expects a number, got ${JSON.stringify(value)}`);
+        }
+        return value;
+      case 'string':
+        return String(value);
+      default: {
+        const readName = (element: any) => {
+          const name = typeof element === 'string' ? element : element?.name ?? field.values!.find(candidate => `${field.name}:${candidate}` === element?.id);
+          if (!field.values!.includes(name)) {
+            throw new MockApiError(400, `Unknown value "${name ?? JSON.stringify(element)}" for field ${field.name}`);
+          }
+          return name;
+        };
+        return field.isMultiValue ? (value as any[]).map(readName) : readName(value);
+      }
+    }
+  }
+
+  private applyIssueChanges(issue: MockIssue, body: any): void {
+    const changes: Array<{ field: string; removed: any; added: any }> = [];
+
+    if (body.summary !== undefined && body.summary !== issue.summary) {
+      changes.push({ field: 'summary', removed: issue.summary, added: body.summary });
+      issue.summary = body.summary;
+    }
+    if (body.description !== undefined && body.description !== issue.description) {
+      changes.push({ field: 'description', removed: issue.description, added: body.description });
+      issue.description = body.description ?? '';
+    }
+
+    // Validate every field before changing any, as YouTrack applies them atomically
+    const values = (body.customFields || []).map((payload: any) => {
+      const field = this.findField(payload.name);
+      return { field, value: this.readFieldValue(field, payload) };
+    });
+    for (const { field, value } of values) {
+      changes.push({ field: field.name, removed: issue.fields.get(field.name), added: value });
+      issue.fields.set(field.name, value);
+    }
+
+    if (changes.length > 0) {
+      issue.updated = Date.now();
+      issue.updater = this.currentUser;
+      this.updateResolved(issue);
+      for (const change of changes) {
+        this.addActivity(issue, 'CustomFieldCategory', { $type: 'CustomFieldActivityItem', field: { name: change.field }, removed: change.removed, added: change.added });
+      }
+    }
+  }
+
+  private createIssue(body: any): MockIssue {
+    if (!body.project?.id) {
+      throw new MockApiError(400, 'Project is required');
+    }
+    if (!body.summary) {
+      throw new MockApiError(400, 'Summary is required');
+    }
+
+    const project = this.findProject(body.project.id);
+    // Validate before the issue gets a number
+    for (const payload of body.customFields || []) {
+      this.readFieldValue(this.findField(payload.name), payload);
+    }
+
+    const issue = this.addIssue(project, body.summary, {}, body.description ?? '');
+    this.applyIssueChanges(issue, { customFields: body.customFields });
+    return issue;
+  }
+
+  private deleteIssue(issue: MockIssue): void {
+    this.issues.splice(this.issues.indexOf(issue), 1);
+    for (let index = this.links.length - 1; index >= 0; index--) {
+      if (this.links[index].source === issue || this.links[index].target === issue) {
+        this.links.splice(index, 1);
+      }
+    }
+  }
+
+  private addLink(linkType: MockLinkType, outward: boolean, issue: MockIssue, other: MockIssue): void {
+    const [source, target] = outward ? [issue, other] : [other, issue];
+    const exists = this.links.some(link => link.typeId === linkType.id &&
+      ((link.source === source && link.target === target) || (!linkType.directed && link.source === target && link.target === source)));
+    if (!exists) {
+      this.links.push({ typeId: linkType.id, source, target });
+      this.addActivity(issue, 'LinksCategory', { $type: 'LinkActivityItem', field: { name: linkType.name }, added: [this.issueRef(other)] });
+    }
+  }
+
+  private removeLinks(linkType: MockLinkType, outward: boolean, issue: MockIssue, other?: MockIssue): void {
+    for (let index = this.links.length - 1; index >= 0; index--) {
+      const link = this.links[index];
+      if (link.typeId !== linkType.id) {
+        continue;
+      }
+      const matches = linkType.directed
+        ? (outward ? link.source === issue && (!other || link.target === other) : link.target === issue && (!other || link.source === other))
+        : (link.source === issue && (!other || link.target === other)) || (link.target === issue && (!other || link.source === other));
+      if (matches) {
+        this.links.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Apply a command: add or remove links ("depends on DEMO-1", "remove subtask of DEMO-1")
+   * or set a field ("Priority Critical")
+   */
+  private runCommand(body: any): void {
+    const query = String(body.query || '').trim();
+    const issues = (body.issues || []).map((reference: any) => this.findIssue(reference.idReadable ?? reference.id));
+    if (!query || issues.length === 0) {
+      throw new MockApiError(400, 'Command and issues are required');
+    }
+
+    const remove = /^remove\s+/i.test(query);
+    const text = query.replace(/^remove\s+/i, '');
+    const lower = text.toLowerCase();
+
+    const phrases = LINK_TYPES.flatMap(linkType => [
+      { linkType, outward: true, phrase: linkType.sourceToTarget },
+      { linkType, outward: false, phrase: linkType.targetToSource }
+    ]).sort((a, b) => b.phrase.length - a.phrase.length);
+    const link = phrases.find(candidate => lower === candidate.phrase || lower.startsWith(`${candidate.phrase} `));
+
+    if (link) {
+      const targetId = text.slice(link.phrase.length).trim();
+      const target = targetId ? this.findIssue(targetId) : undefined;
+      if (!target && !remove) {
+        throw new MockApiError(400, `Command "${query}" needs an issue`);
+      }
+      for (const issue of issues) {
+        if (remove) {
+          this.removeLinks(link.linkType, link.outward, issue, target);
+        } else {
+          this.addLink(link.linkType, link.outward, issue, target!);
+        }
+      }
+      return;
+    }
+
+    const field = this.customFields.find(candidate => lower.startsWith(`${candidate.name.toLowerCase()} `));
+    if (field && field.values && !remove) {
+      const value = text.slice(field.name.length).trim();
+      for (const issue of issues) {
+        this.applyIssueChanges(issue, { customFields: [{ name: field.name, value: field.isMultiValue ? [{ name: value }] : { name: value } }] });
+      }
+      return;
+    }
+
+    throw new MockApiError(400, `Command "${query}" is not valid`);
+  }
+
+  // Search
+
+  /**
+   * Match issues against a subset of the query language: `field: value` and
+   * `field: {value, value}` conditions, #Resolved/#Unresolved and words of the summary or description. Date
+   * conditions (created, updated, resolved date) always match, and `Unassigned` matches an empty user field. `sort by: created` or `updated`, `asc` or `desc`, orders the result.
+   */
+  private searchIssues(query: string): MockIssue[] {
+    const sort = query.match(/sort by:\s*(created|updated)(?:\s+(asc|desc))?/i);
+    query = query.replace(/sort by:.*$/i, '').replace(/(created|updated|resolved date):\s*\S*\s*\.\.\s*\S*/gi, '');
+
+    const pattern = /(#\w+)|([\w ]+?):\s*("[^"]*"|\{[^}]*\}|\S+)|("[^"]*"|\S+)/g;
+    const conditions: Array<(issue: MockIssue) => boolean> = [];
+
+    for (const match of query.matchAll(pattern)) {
+      const [, tag, key, rawValue, word] = match;
+      if (tag) {
+        const resolved = tag.toLowerCase() === '#resolved';
+        if (resolved || tag.toLowerCase() === '#unresolved') {
+          conditions.push(issue => (issue.resolved !== null) === resolved);
+        }
+      } else if (key) {
+        const name = key.trim().toLowerCase();
+        // {A, B} matches any of the listed values
+        const values = rawValue.replace(/^["{]|["}]$/g, '').split(',').map(value => value.trim().toLowerCase());
+        if (['created', 'updated', 'resolved date'].includes(name)) {
+          continue;
+        }
+        if (name === 'project') {
+          conditions.push(issue => values.some(value =>
+            [issue.project.id, issue.project.shortName, issue.project.name].some(key => key.toLowerCase() === value)
+          ));
+        } else {
+          const field = this.customFields.find(candidate => candidate.name.toLowerCase() === name || (name === 'assignee' && candidate.name === 'Assignee'));
+          conditions.push(issue => {
+            const stored = field ? issue.fields.get(field.name) : undefined;
+            const targets = values.map(value => field?.valueType === 'user' && value === 'me' ? this.currentUser.login : value);
+            if (field?.valueType === 'user' && targets.includes('unassigned') && (stored === null || stored === undefined)) {
+              return true;
+            }
+            return [stored].flat().some(item => item !== null && item !== undefined && targets.includes(String(item).toLowerCase()));
+          });
+        }
+      } else if (word) {
+        const text = word.replace(/^"|"$/g, '').toLowerCase();
+        conditions.push(issue => issue.summary.toLowerCase().includes(text) || issue.description.toLowerCase().includes(text));
+      }
+    }
+
+    const issues = this.issues.filter(issue => conditions.every(condition => condition(issue)));
+    if (sort) {
+      const key = sort[1].toLowerCase() as 'created' | 'updated';
+      const direction = sort[2]?.toLowerCase() === 'desc' ? -1 : 1;
+      issues.sort((a, b) => (a[key] - b[key]) * direction);
+    }
+    return issues;
+  }
+
+  // HTTP
+
+  /**
+   * Handle one API request; `path` is relative to /api
+   */
+  handle(method: string, path: string, params: URLSearchParams, body: any): { status: number; data: any; headers?: Record<string, string> } {
+    const top = params.has('$top') ? parseInt(params.get('$top')!, 10) : undefined;
+    const skip = parseInt(params.get('$skip') || '0', 10);
+    const page = <T>(items: T[]) => items.slice(skip, top !== undefined ? skip + top : undefined);
+    const ok = (data: any) => ({ status: 200, data });
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/users/me') {
+      return ok(this.userJson(this.currentUser));
+    }
+    if (method === 'GET' && path === '/users') {
+      const query = (params.get('query') || '').toLowerCase();
+      return ok(page(this.users.filter(user =>
+        !query || [user.login, user.fullName, user.email].some(value => value.toLowerCase().includes(query))
+      )).map(user => this.userJson(user)));
+    }
+    if (method === 'GET' && (match = path.match(/^\/users\/([^/]+)$/))) {
+      return ok(this.userJson(this.findUser(match[1])));
+    }
+
+    if (method === 'GET' && path === '/admin/projects') {
+      return ok(page(this.projects).map(project => this.projectJson(project)));
+    }
+    if (method === 'GET' && (match = path.match(/^\/admin\/projects\/([^/]+)$/))) {
+      return ok(this.projectJson(this.findProject(match[1])));
+    }
+    if (method === 'GET' && (path === '/issueLinkTypes' || path === '/admin/issueLinkTypes' || /^\/admin\/projects\/[^/]+\/issueLinkTypes$/.test(path))) {
+      return ok(LINK_TYPES.map(linkType => this.linkTypeJson(linkType)));
+    }
+    if (method === 'GET' && path === '/admin/customFieldSettings/customFields') {
+      return ok(this.customFieldSettingsJson());
+    }
+    if (method === 'GET' && path === '/admin/timeTrackingSettings/workItemTypes') {
+      return ok(WORK_ITEM_TYPES.map(name => ({ $type: 'WorkItemType', id: name, name })));
+    }
+    if (method === 'GET' && (match = path.match(/^\/admin\/projects\/([^/]+)\/timeTrackingSettings\/workItemTypes$/))) {
+      return ok(this.findProject(match[1]).workItemTypes.map(name => ({ $type: 'WorkItemType', id: name, name })));
+    }
+
+    if (method === 'POST' && path === '/commands') {
+      this.runCommand(body);
+      return ok({ $type: 'CommandList', query: body.query });
+    }
+
+    if (path === '/issues') {
+      if (method === 'GET') {
+        const issues = this.searchIssues(params.get('query') || '');
+        return {
+          ...ok(page(issues).map(issue => this.issueJson(issue, params.getAll('customFields')))),
+          headers: { 'X-Total-Count': String(issues.length) }
+        };
+      }
+      if (method === 'POST') {
+        return ok(this.issueJson(this.createIssue(body)));
+      }
+    }
+
+    if ((match = path.match(/^\/issues\/([^/]+)(\/.*)?$/))) {
+      const issue = this.findIssue(decodeURIComponent(match[1]));
+      const subPath = match[2] || '';
+
+      if (subPath === '') {
+        if (method === 'GET') {
+          return ok(this.issueJson(issue, params.getAll('customFields')));
+        }
+        if (method === 'POST') {
+          this.applyIssueChanges(issue, body);
+          return ok(this.issueJson(issue));
+        }
+        if (method === 'DELETE') {
+          this.deleteIssue(issue);
+          return ok({});
+        }
+      }
+
+      if (subPath === '/comments' && method === 'POST') {
+        if (!body.text) {
+          throw new MockApiError(400, 'Comment text is required');
+        }
+        const comment: MockComment = { id: this.newId(4), text: body.text, author: this.currentUser, created: Date.now(), updated: null };
+        issue.comments.push(comment);
+        issue.updated = comment.created;
+        this.addActivity(issue, 'CommentsCategory', { $type: 'CommentActivityItem', added: [{ id: comment.id, text: comment.text }] });
+        return ok({ $type: 'IssueComment', id: comment.id, text: comment.text, author: this.userJson(comment.author), created: comment.created });
+      }
+      if (subPath === '/comments' && method === 'GET') {
+        return ok(this.issueJson(issue).comments);
+      }
+
+      if (subPath === '/activities' && method === 'GET') {
+        const categories = params.get('categories')?.split(',');
+        return ok(page(issue.activities.filter(activity => !categories || categories.includes(activity.category.id))));
+      }
+
+      if (subPath === '/links' && method === 'GET') {
+        return ok(this.linksJson(issue));
+      }
+      if ((match = subPath.match(/^\/links\/([^/]+)\/issues$/)) && method === 'POST') {
+        const linkId = match[1];
+        const linkType = LINK_TYPES.find(candidate => linkId === candidate.id || linkId === `${candidate.id}s` || linkId === `${candidate.id}t`);
+        if (!linkType) {
+          throw new MockApiError(404, `Link ${linkId} not found`);
+        }
+        const other = this.findIssue(body.idReadable ?? body.id);
+        this.addLink(linkType, !linkId.endsWith('t'), issue, other);
+        return ok(this.issueRef(other));
+      }
+
+      if (subPath === '/timeTracking/workItems') {
+        if (method === 'GET') {
+          return ok(issue.workItems.map(workItem => this.workItemJson(workItem)));
+        }
+        if (method === 'POST') {
+          if (typeof body.duration?.minutes !== 'number') {
+            throw new MockApiError(400, 'Work item duration is required');
+          }
+          const type = body.type?.name ?? null;
+          if (type && !WORK_ITEM_TYPES.includes(type)) {
+            throw new MockApiError(400, `Unknown work item type "${type}"`);
+          }
+          return ok(this.workItemJson(this.addWorkItem(issue, { minutes: body.duration.minutes, date: body.date, description: body.description, type })));
+        }
+      }
+      if ((match = subPath.match(/^\/timeTracking\/workItems\/([^/]+)$/))) {
+        const workItem = issue.workItems.find(candidate => candidate.id === match![1]);
+        if (!workItem) {
+          throw new MockApiError(404, `Work item ${match[1]} not found`);
+        }
+        if (method === 'POST') {
+          workItem.minutes = body.duration?.minutes ?? workItem.minutes;
+          workItem.date = body.date ?? workItem.date;
+          workItem.description = body.description ?? workItem.description;
+          workItem.type = body.type !== undefined ? body.type?.name ?? null : workItem.type;
+          workItem.updated = Date.now();
+          this.updateSpentTime(issue);
+          return ok(this.workItemJson(workItem));
+        }
+        if (method === 'DELETE') {
+          issue.workItems.splice(issue.workItems.indexOf(workItem), 1);
+          this.updateSpentTime(issue);
+          return ok({});
+        }
+      }
+    }
+
+    throw new MockApiError(404, `No mock for ${method} /api${path}`);
+  }
+
+  /**
+   * Serve the API on a local port. Port 0 picks a free port.
+   */
+  listen(port = 0, host = '127.0.0.1'): Promise<{ url: string; server: Server }> {
+    const server = createServer((req, res) => {
+      void this.handleHttp(req, res);
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        const address = server.address() as AddressInfo;
+        resolve({ url: `http://${host}:${address.port}`, server });
+      });
+    });
+  }
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    let status: number;
+    let data: any;
+    let headers: Record<string, string> | undefined;
+
+    this.requests.push({ method: req.method || 'GET', path: url.pathname });
+    try {
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        throw new MockApiError(401, 'Unauthorized');
+      }
+      if (!url.pathname.startsWith('/api/')) {
+        throw new MockApiError(404, `No mock for ${url.pathname}`);
+      }
+      const failure = this.takeFailure(req.method || 'GET', url.pathname.slice('/api'.length));
+      if (failure) {
+        headers = failure.headers;
+        throw new MockApiError(failure.status, 'Failure injected by the test');
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+      const text = Buffer.concat(chunks).toString('utf-8');
+      let body: any = {};
+      try {
+        body = text ? JSON.parse(text) : {};
+      } catch (error) {
+        throw new MockApiError(400, 'Request body is not valid JSON');
+      }
+
+      ({ status, data, headers } = this.handle(req.method || 'GET', url.pathname.slice('/api'.length), url.searchParams, body));
+      const fields = url.searchParams.get('fields');
+      data = selectFields(data, fields === null ? undefined : parseFieldSelection(fields));
+    } catch (error: any) {
+      status = error instanceof MockApiError ? error.status : 500;
+      data = { error: status === 404 ? 'Not Found' : 'Bad Request', error_description: error.message };
+    }
+
+    log.debug('Mock request', { method: req.method, path: url.pathname, status });
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(data));
+  }
+}
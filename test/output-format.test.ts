@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { OutputFormat } from '../src/types.js';
+import { resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * The text of tool results in each output format, for a page of search results
+ * with a cursor footer and a subtask list with status emoji
+ */
+
+describe('output formats', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  async function start(outputFormat: OutputFormat): Promise<void> {
+    server = await startTestServer({ settings: { outputFormat } });
+  }
+
+  it('markdown keeps the tool text as it is', async () => {
+    await start('markdown');
+    const text = resultText(await server.callTool('search-issues', { query: 'project: DEMO', limit: 2 }));
+
+    expect(text).toContain('**DEMO-1** - Set up continuous integration\n');
+    expect(text).toContain('\n\n---\n_More issues available. Get the next page with cursor="');
+    expect(resultText(await server.callTool('get-subtasks', { parentIssueId: 'DEMO-1' }))).toContain('🔄 **DEMO-3**');
+  });
+
+  it('compact strips bold, italics, emoji, separators and blank lines', async () => {
+    await start('compact');
+    const text = resultText(await server.callTool('search-issues', { query: 'project: DEMO', limit: 2 }));
+
+    expect(text).toContain('DEMO-1 - Set up continuous integration\n  Project: DEMO');
+    expect(text).toMatch(/\nMore issues available\. Get the next page with cursor="[\w-]+"$/);
+    expect(text).not.toMatch(/\*\*|\n\n|\n---\n|_More/);
+    const subtasks = resultText(await server.callTool('get-subtasks', { parentIssueId: 'DEMO-1' }));
+    expect(subtasks).toContain('DEMO-3 - Configure build pipeline');
+    expect(subtasks).not.toMatch(/\p{Extended_Pictographic}/u);
+  });
+
+  it('json returns the structured content as text', async () => {
+    await start('json');
+    const result = await server.callTool('search-issues', { query: 'project: DEMO', limit: 2 });
+
+    expect(result.content).toHaveLength(1);
+    expect(JSON.parse(resultText(result))).toEqual(result.structuredContent);
+    expect((result.structuredContent as any).issues.map((issue: any) => issue.idReadable)).toEqual(['DEMO-1', 'DEMO-2']);
+  });
+
+  it.each<OutputFormat>(['compact', 'json'])('%s keeps the message of an error result', async format => {
+    await start(format);
+    const result = await server.callTool('get-issue', { issueId: 'DEMO-999' });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toMatch(/^Failed to get issue: /);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { decodeCursor, encodeCursor, paginate } from '../src/pagination.js';
+import { YouTrackSearchResult } from '../src/types.js';
+import { resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Cursors, the extra issue that tells whether more exist, and pages whose
+ * results changed in between
+ */
+
+describe('cursors', () => {
+  it('decode to what was encoded', () => {
+    const cursor = { request: { query: 'project: DEMO #Unresolved' }, skip: 20, lastId: 'DEMO-20' };
+    const token = encodeCursor(cursor);
+    expect(token).toMatch(/^[\w-]+$/);
+    expect(decodeCursor(token)).toEqual(cursor);
+  });
+
+  it.each(['not a cursor', encodeCursor({ request: {}, skip: -1 }), Buffer.from('{"skip":2}').toString('base64url')])('rejects %s', token => {
+    expect(() => decodeCursor(token)).toThrow('Invalid cursor');
+  });
+});
+
+describe('paginate', () => {
+  async function collect(pages: Array<YouTrackSearchResult<number>>, pageSize: number): Promise<{ items: number[]; requests: number[] }> {
+    const requests: number[] = [];
+    const items: number[] = [];
+    for await (const item of paginate(async skip => {
+      requests.push(skip);
+      return pages[requests.length - 1];
+    }, pageSize)) {
+      items.push(item);
+    }
+    return { items, requests };
+  }
+
+  it('stops after a page that has no more items', async () => {
+    const { items, requests } = await collect([{ items: [1, 2], hasMore: true }, { items: [3, 4], hasMore: false }], 2);
+    expect(items).toEqual([1, 2, 3, 4]);
+    expect(requests).toEqual([0, 2]);
+  });
+
+  it('stops after a short page', async () => {
+    const { items, requests } = await collect([{ items: [1, 2] }, { items: [3] }], 2);
+    expect(items).toEqual([1, 2, 3]);
+    expect(requests).toEqual([0, 2]);
+  });
+});
+
+describe('paging through search results', () => {
+  let server: TestServer;
+  let demoIssues: string[];
+
+  beforeEach(async () => {
+    server = await startTestServer();
+    demoIssues = server.mock.issues.filter(issue => issue.project.shortName === 'DEMO').map(issue => issue.idReadable);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('returns every issue once, page by page', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await server.youtrack.searchIssuesPage({ query: 'project: DEMO', limit: 3 }, cursor);
+      seen.push(...page.items.map(issue => issue.idReadable));
+      expect(page.shifted).toBe(false);
+      expect(page.hasMore).toBe(page.nextCursor !== undefined);
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(seen).toEqual(demoIssues);
+    expect(pages).toBe(Math.ceil(demoIssues.length / 3));
+  });
+
+  it('knows there are no more issues when the page is exactly full', async () => {
+    const page = await server.youtrack.searchIssuesPage({ query: 'project: DEMO', limit: demoIssues.length });
+    expect(page.items).toHaveLength(demoIssues.length);
+    expect(page.hasMore).toBe(false);
+    expect(page.nextCursor).toBeUndefined();
+    expect(page.totalCount).toBe(demoIssues.length);
+
+    const shorter = await server.youtrack.searchIssuesPage({ query: 'project: DEMO', limit: demoIssues.length - 1 });
+    expect(shorter.hasMore).toBe(true);
+    expect(decodeCursor(shorter.nextCursor!)).toEqual({
+      request: { query: 'project: DEMO' },
+      skip: demoIssues.length - 1,
+      lastId: demoIssues[demoIssues.length - 2]
+    });
+  });
+
+  it('flags a page when issues before it were removed since the previous page', async () => {
+    const first = await server.youtrack.searchIssuesPage({ query: 'project: DEMO', limit: 2 });
+    server.mock.issues.splice(server.mock.issues.findIndex(issue => issue.idReadable === demoIssues[0]), 1);
+
+    const second = await server.youtrack.searchIssuesPage({ query: 'project: DEMO', limit: 2 }, first.nextCursor);
+    expect(second.shifted).toBe(true);
+    expect(second.items.map(issue => issue.idReadable)).toEqual(demoIssues.slice(3, 5));
+  });
+
+  it('continues a search from the cursor of a search tool', async () => {
+    const first = (await server.callTool('search-issues', { query: 'project: DEMO', limit: 2 })).structuredContent as Record<string, any>;
+    expect(first.hasMore).toBe(true);
+
+    const secondResult = await server.callTool('search-issues', { query: 'ignored', limit: 2, cursor: first.nextCursor });
+    const second = secondResult.structuredContent as Record<string, any>;
+    expect([...first.issues, ...second.issues].map((issue: any) => issue.idReadable)).toEqual(demoIssues.slice(0, 4));
+    expect(resultText(secondResult)).not.toContain('Results changed');
+
+    server.mock.issues.splice(0, 1);
+    const shiftedResult = await server.callTool('search-issues', { limit: 2, cursor: first.nextCursor });
+    expect(resultText(shiftedResult)).toContain('Results changed since the previous page');
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ToolPolicy } from '../src/policy.js';
+import { YouTrackClient } from '../src/youtrack-client.js';
+import { resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Enabled tools, the deny list, read-only mode and the project allowlist
+ */
+
+const readTool = { name: 'get-issue' };
+const writeTool = { name: 'update-issue', mutation: ({ issueId }: any) => ({ issueIds: [issueId] }) };
+const createTool = { name: 'create-issue', mutation: ({ project }: any) => ({ projects: [project] }) };
+const definitions = [readTool, writeTool, createTool];
+
+describe('tool filtering', () => {
+  it('keeps every tool by default', () => {
+    expect(new ToolPolicy().filterTools(definitions)).toEqual(definitions);
+  });
+
+  it('hides mutating tools in read-only mode', () => {
+    expect(new ToolPolicy({ readOnly: true }).filterTools(definitions)).toEqual([readTool]);
+  });
+
+  it('hides denied tools', () => {
+    expect(new ToolPolicy({ deniedTools: ['update-issue'] }).filterTools(definitions)).toEqual([readTool, createTool]);
+  });
+
+  it('keeps only the enabled tools, less the denied ones', () => {
+    const policy = new ToolPolicy({ deniedTools: ['create-issue'] }, ['get-issue', 'create-issue']);
+    expect(policy.filterTools(definitions)).toEqual([readTool]);
+  });
+
+  it('rejects unknown tool names', () => {
+    expect(() => new ToolPolicy({ deniedTools: ['update-isue'] }).filterTools(definitions))
+      .toThrow('Unknown tool name(s) in deniedTools: update-isue');
+    expect(() => new ToolPolicy({}, ['get-isue']).filterTools(definitions))
+      .toThrow('Unknown tool name(s) in enabledTools: get-isue');
+  });
+
+  it('refuses mutating tools in read-only mode', async () => {
+    const policy = new ToolPolicy({ readOnly: true });
+    const client = {} as YouTrackClient;
+    expect(await policy.checkMutation(readTool, {}, client)).toBeNull();
+    expect(await policy.checkMutation(writeTool, { issueId: 'DEMO-1' }, client)).toContain('read-only');
+  });
+});
+
+describe('policy on a running server', () => {
+  let server: TestServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('neither lists nor runs mutating tools in read-only mode', async () => {
+    server = await startTestServer({ settings: { policy: { readOnly: true } } });
+    const { tools } = await server.client.listTools();
+    const names = tools.map(tool => tool.name);
+    expect(names).toContain('get-issue');
+    expect(names).not.toContain('update-issue');
+    expect(names).not.toContain('create-issue');
+
+    const issueCount = server.mock.issues.length;
+    const result = await server.callTool('create-issue', { project: 'DEMO', summary: 'Read-only' }).catch(error => error);
+    expect(result instanceof Error || result.isError).toBe(true);
+    expect(server.mock.issues).toHaveLength(issueCount);
+  });
+
+  it('lists only the enabled tools less the denied ones', async () => {
+    server = await startTestServer({ settings: { enabledTools: ['get-issue', 'update-issue'], policy: { deniedTools: ['update-issue'] } } });
+    const { tools } = await server.client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['get-issue']);
+  });
+
+  it('checks the project of each target issue', async () => {
+    server = await startTestServer({ settings: { policy: { allowedProjects: ['demo'] } } });
+
+    const refused = await server.callTool('update-issue', { issueId: 'OPS-1', summary: 'Not allowed' });
+    expect(refused.isError).toBe(true);
+    expect(resultText(refused)).toBe('Refused by policy: Tool "update-issue" may not modify issue OPS-1 in project OPS. Mutations are limited to: DEMO');
+    expect(server.mock.issues.find(issue => issue.idReadable === 'OPS-1')!.summary).not.toBe('Not allowed');
+
+    const allowed = await server.callTool('update-issue', { issueId: 'DEMO-1', summary: 'Allowed' });
+    expect(allowed.isError, resultText(allowed)).toBeFalsy();
+    expect(server.mock.issues.find(issue => issue.idReadable === 'DEMO-1')!.summary).toBe('Allowed');
+  });
+
+  it('checks the issues a link changes', async () => {
+    server = await startTestServer({ settings: { policy: { allowedProjects: ['DEMO'] } } });
+    const result = await server.callTool('create-issue-link', { issueId: 'OPS-1', targetIssue: 'DEMO-1', linkType: 'Relates' });
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('may not modify issue OPS-1');
+  });
+});
@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { startTestServer, TestServer } from './helpers.js';
+
+/**
+ * The workflow prompts, got with their arguments, and the context they fetch
+ */
+
+describe('prompts', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer({ settings: { defaultProject: 'DEMO' } });
+    // An unassigned bug to triage
+    server.mock.issues.find(issue => issue.idReadable === 'DEMO-2')!.fields.set('Assignee', null);
+    server.mock.issues.find(issue => issue.idReadable === 'DEMO-2')!.description = 'Signing in with SSO shows a blank page.';
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  async function getPrompt(name: string, args: Record<string, string> = {}): Promise<{ description?: string; text: string }> {
+    const result: GetPromptResult = await server.client.getPrompt({ name, arguments: args });
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    const content = result.messages[0].content;
+    return { description: result.description, text: content.type === 'text' ? content.text : '' };
+  }
+
+  it('lists the prompts with their titles and arguments', async () => {
+    const { prompts } = await server.client.listPrompts();
+    expect(prompts.map(prompt => [prompt.name, prompt.title, prompt.arguments?.map(arg => `${arg.name}${arg.required ? '' : '?'}`)])).toEqual([
+      ['daily-standup', 'Daily standup', ['user?', 'project?', 'days?', 'inProgressState?']],
+      ['triage-bugs', 'Triage bugs', ['project?', 'limit?']],
+      ['sprint-planning', 'Sprint planning', ['project?', 'capacity?']],
+      ['write-bug-report', 'Write a bug report', ['project?', 'summary?']]
+    ]);
+  });
+
+  it('daily-standup lists the updated and in-progress issues of a user', async () => {
+    const { description, text } = await getPrompt('daily-standup', { user: 'jdoe', days: '7', project: 'DEMO' });
+    expect(description).toBe('Daily standup for jdoe');
+    expect(text).toContain('covering the last 7 day(s)');
+    const updated = text.split('**Issues updated in the last 7 day(s)** (2):\n')[1].split('\n\n')[0];
+    expect(updated.split('\n').map(line => line.split(' ')[1]).sort()).toEqual(['DEMO-1', 'DEMO-3']);
+    expect(text).toMatch(/\*\*Issues in In Progress\*\* \(1\):\n- DEMO-3 - Configure build pipeline \(State: In Progress, Priority: Normal, Updated: /);
+  });
+
+  it('triage-bugs lists the unassigned bugs of the default project', async () => {
+    const { description, text } = await getPrompt('triage-bugs');
+    expect(description).toBe('Triage unassigned bugs in DEMO');
+    expect(text).toContain('**Unassigned bugs** (1):\n- DEMO-2 - Login fails with SSO (State: Open, Priority: Critical');
+    expect(text).toContain('\n  Signing in with SSO shows a blank page.');
+  });
+
+  it('sprint-planning sums the story points of the backlog', async () => {
+    const { text } = await getPrompt('sprint-planning', { project: 'DEMO', capacity: '8' });
+    expect(text).toContain('with a capacity of 8 story points');
+    expect(text).toContain('**Backlog** (3 unresolved issues, 1 estimated with 5 Story Points in total, 2 without an estimate):');
+    expect(text).toContain('- DEMO-1 - Set up continuous integration (Story Points: 5');
+  });
+
+  it('write-bug-report describes the fields of the project', async () => {
+    const { description, text } = await getPrompt('write-bug-report', { project: 'DEMO', summary: 'Crash on save' });
+    expect(description).toBe('Write a bug report for DEMO');
+    expect(text).toContain('file a bug report in project DEMO about: Crash on save.');
+    expect(text).toContain('Priority');
+    expect(text).toContain('Show-stopper');
+  });
+
+  it('rejects an argument that is not a whole number', async () => {
+    await expect(server.client.getPrompt({ name: 'daily-standup', arguments: { days: 'a week' } })).rejects.toThrow(/whole number/);
+  });
+});
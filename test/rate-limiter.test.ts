@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getRetryAfterMs, isIdempotentRequest, isRetryableError, RequestLimiter } from '../src/rate-limiter.js';
+import { startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Pacing, Retry-After and the retry rules of YouTrack requests
+ */
+
+function axiosError(status: number, method: string, url: string, headers: Record<string, string> = {}) {
+  return { isAxiosError: true, config: { method, url }, response: { status, headers } };
+}
+
+describe('getRetryAfterMs', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads Retry-After in seconds', () => {
+    expect(getRetryAfterMs(axiosError(429, 'get', '/issues', { 'retry-after': '3' }))).toBe(3000);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    vi.useFakeTimers({ now: Date.parse('2026-10-19T12:00:00Z') });
+    expect(getRetryAfterMs(axiosError(429, 'get', '/issues', { 'retry-after': 'Mon, 19 Oct 2026 12:00:05 GMT' }))).toBe(5000);
+    expect(getRetryAfterMs(axiosError(429, 'get', '/issues', { 'retry-after': 'Mon, 19 Oct 2026 11:59:00 GMT' }))).toBe(0);
+  });
+
+  it('ignores a missing or unreadable Retry-After', () => {
+    expect(getRetryAfterMs(axiosError(429, 'get', '/issues'))).toBeUndefined();
+    expect(getRetryAfterMs(axiosError(429, 'get', '/issues', { 'retry-after': 'soon' }))).toBeUndefined();
+  });
+});
+
+describe('retry rules', () => {
+  it('treats a POST to an entity as idempotent and a POST to a collection as not', () => {
+    expect(isIdempotentRequest({ method: 'post', url: '/issues/DEMO-1?fields=id' })).toBe(true);
+    expect(isIdempotentRequest({ method: 'post', url: '/issues/DEMO-1/timeTracking/workItems/8-1' })).toBe(true);
+    expect(isIdempotentRequest({ method: 'post', url: '/issues?fields=id' })).toBe(false);
+    expect(isIdempotentRequest({ method: 'post', url: '/issues/DEMO-1/comments' })).toBe(false);
+    expect(isIdempotentRequest({ method: 'delete', url: '/issues/DEMO-1' })).toBe(true);
+  });
+
+  it('retries transient failures only of idempotent requests', () => {
+    expect(isRetryableError(axiosError(503, 'post', '/issues/DEMO-1'))).toBe(true);
+    expect(isRetryableError(axiosError(503, 'post', '/issues'))).toBe(false);
+    expect(isRetryableError(axiosError(400, 'post', '/issues/DEMO-1'))).toBe(false);
+  });
+
+  it('retries a 429 of any request, since YouTrack did not process it', () => {
+    expect(isRetryableError(axiosError(429, 'post', '/issues'))).toBe(true);
+  });
+});
+
+describe('RequestLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs at most maxConcurrency requests at once', async () => {
+    const limiter = new RequestLimiter(1000, 2);
+    let active = 0;
+    let maxActive = 0;
+    const request = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(request)));
+    expect(maxActive).toBe(2);
+  });
+
+  it('holds back requests while paused', async () => {
+    vi.useFakeTimers();
+    const limiter = new RequestLimiter(1000, 5);
+    limiter.pause(2000);
+
+    let done = false;
+    const running = limiter.run(async () => {
+      done = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await running;
+    expect(done).toBe(true);
+  });
+
+  it('waits for a token once the bucket is empty', async () => {
+    vi.useFakeTimers();
+    const limiter = new RequestLimiter(60, 5); // One token a second
+    await Promise.all(Array.from({ length: 60 }, () => limiter.run(async () => undefined)));
+
+    let done = false;
+    const running = limiter.run(async () => {
+      done = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(500);
+    await running;
+    expect(done).toBe(true);
+  });
+});
+
+describe('retries against the mock', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function postsTo(path: string): number {
+    return server.mock.requests.filter(request => request.method === 'POST' && request.path === `/api${path}`).length;
+  }
+
+  it('waits for the Retry-After of a 429 and retries, even a POST that creates', async () => {
+    server = await startTestServer({ youtrack: { maxRetries: 2 } });
+    server.mock.failRequests({ method: 'POST', path: '/issues/DEMO-1/comments', status: 429, headers: { 'Retry-After': '1' } });
+
+    const start = Date.now();
+    const result = await server.callTool('add-comment', { issueId: 'DEMO-1', text: 'After the rate limit' });
+    expect(result.isError).toBeFalsy();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(1000);
+    expect(postsTo('/issues/DEMO-1/comments')).toBe(2);
+  });
+
+  it('does not retry a POST that creates when YouTrack may have processed it', async () => {
+    server = await startTestServer({ youtrack: { maxRetries: 2 } });
+    server.mock.failRequests({ method: 'POST', path: '/issues/DEMO-1/comments', status: 503 });
+
+    const result = await server.callTool('add-comment', { issueId: 'DEMO-1', text: 'Sent once' });
+    expect(result.isError).toBe(true);
+    expect(postsTo('/issues/DEMO-1/comments')).toBe(1);
+  });
+
+  it('retries a POST that updates an issue', async () => {
+    server = await startTestServer({ youtrack: { maxRetries: 2 } });
+    server.mock.failRequests({ method: 'POST', path: '/issues/DEMO-1', status: 503, headers: { 'Retry-After': '0' }, count: 2 });
+
+    const result = await server.callTool('update-issue', { issueId: 'DEMO-1', summary: 'Third time lucky' });
+    expect(result.isError).toBeFalsy();
+    expect(postsTo('/issues/DEMO-1')).toBe(3);
+  });
+});
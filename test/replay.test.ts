@@ -0,0 +1,188 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { Server } from 'node:http';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MockYouTrack } from './mock/youtrack-mock.js';
+import { YouTrackClient } from '../src/youtrack-client.js';
+import { parseDateFieldValue } from '../src/utils.js';
+import { configureLogging } from '../src/logger.js';
+import { GanttTask } from '../src/types.js';
+
+/**
+ * Replay tests: the client's mapping of responses, replayed from the recorded
+ * fixtures in test/fixtures/youtrack without any server.
+ *
+ * The fixtures were recorded from the mock YouTrack, not from a real instance,
+ * so these tests check the fixture replay and the mapping of the responses the
+ * mock sends; they don't prove that YouTrack sends the same. Re-record them
+ * after changing the requests a test makes:
+ *
+ *   YOUTRACK_FIXTURES=record npx vitest run test/replay.test.ts
+ */
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'youtrack');
+const RECORDING = process.env.YOUTRACK_FIXTURES === 'record';
+
+configureLogging({ level: 'critical', includeBodies: false });
+
+const START_DATE = Date.UTC(2026, 10, 2);
+const DUE_DATE = Date.UTC(2026, 11, 1);
+
+describe('YouTrack response mapping', () => {
+  let client: YouTrackClient;
+  let mockServer: Server | undefined;
+
+  beforeAll(async () => {
+    let url = 'https://youtrack.example.com';
+    if (RECORDING) {
+      await rm(FIXTURES_DIR, { recursive: true, force: true });
+      const mock = new MockYouTrack();
+      mock.issues.find(issue => issue.idReadable === 'DEMO-3')!.fields.set('Start Date', START_DATE);
+      ({ url, server: mockServer } = await mock.listen());
+    }
+
+    client = new YouTrackClient({
+      url,
+      token: 'replay-token',
+      rateLimit: 100000,
+      maxRetries: 0,
+      fixtures: { mode: RECORDING ? 'record' : 'replay', dir: FIXTURES_DIR }
+    });
+    await client.getAccessibleCustomFields();
+  });
+
+  afterAll(() => {
+    mockServer?.close();
+  });
+
+  describe('issues', () => {
+    it('takes the assignee from the Assignee custom field', async () => {
+      const issue = await client.getIssue('DEMO-1');
+      expect(issue.idReadable).toBe('DEMO-1');
+      expect(issue.project).toMatchObject({ id: '0-1', shortName: 'DEMO', name: 'Demo' });
+      expect(issue.assignee).toMatchObject({ id: '1-2', login: 'jdoe', fullName: 'John Doe' });
+    });
+
+    it('leaves unassigned issues without an assignee', async () => {
+      const issue = await client.getIssue('DEMO-4');
+      expect(issue.assignee).toBeFalsy();
+    });
+
+    it('maps a page of search results with the total count', async () => {
+      const result = await client.searchIssues({ query: 'project: DEMO', limit: 2 });
+      expect(result.items.map(issue => issue.idReadable)).toEqual(['DEMO-1', 'DEMO-2']);
+      expect(result.items.map(issue => issue.assignee?.login)).toEqual(['jdoe', 'asmith']);
+      expect(result.hasMore).toBe(true);
+      expect(result.totalCount).toBe(4);
+    });
+  });
+
+  describe('date fields', () => {
+    it('parses the recorded value of a date field', async () => {
+      const issue = await client.getIssue('OPS-1');
+      const dueDate = issue.customFields?.find(field => field.name === 'Due Date');
+      expect(parseDateFieldValue(dueDate?.value)).toBe(DUE_DATE);
+    });
+
+    it('parses empty date fields as unset', async () => {
+      const issue = await client.getIssue('DEMO-1');
+      const dueDate = issue.customFields?.find(field => field.name === 'Due Date');
+      expect(parseDateFieldValue(dueDate?.value)).toBeUndefined();
+    });
+  });
+
+  describe('Gantt tasks', () => {
+    let tasks: Map<string, GanttTask>;
+
+    beforeAll(async () => {
+      const data = await client.getGanttData({ projectIds: ['DEMO', 'OPS'], includeCompleted: true });
+      tasks = new Map(data.tasks.map(task => [task.idReadable, task]));
+    });
+
+    it('converts every issue', () => {
+      expect([...tasks.keys()].sort()).toEqual(['DEMO-1', 'DEMO-2', 'DEMO-3', 'DEMO-4', 'OPS-1']);
+    });
+
+    it('reads dates, time tracking, state and assignee from custom fields', () => {
+      const task = tasks.get('DEMO-3')!;
+      expect(task.startDate).toBe(START_DATE);
+      expect(task.dueDate).toBeUndefined();
+      expect(task.estimation?.minutes).toBe(240);
+      expect(task.spentTime?.minutes).toBe(90);
+      expect(task.progress).toBe(37.5);
+      expect(task.state).toMatchObject({ name: 'In Progress', isResolved: false });
+      expect(task.type?.name).toBe('Task');
+      expect(task.assignee).toMatchObject({ login: 'jdoe' });
+    });
+
+    it('reads story points and priority', () => {
+      expect(tasks.get('DEMO-1')!.storyPoints).toBe(5);
+      expect(tasks.get('DEMO-2')!.priority?.name).toBe('Critical');
+    });
+
+    it('completes resolved issues', () => {
+      const task = tasks.get('DEMO-4')!;
+      expect(task.state).toMatchObject({ name: 'Fixed', isResolved: true });
+      expect(task.progress).toBe(100);
+    });
+
+    it('reads the due date', () => {
+      expect(tasks.get('OPS-1')!.dueDate).toBe(DUE_DATE);
+    });
+  });
+});
+
+describe('fixture recording', () => {
+  let dir: string;
+  let mockServer: Server;
+  let url: string;
+
+  function createClient(mode: 'record' | 'replay'): YouTrackClient {
+    return new YouTrackClient({ url, token: 'replay-token', rateLimit: 100000, maxRetries: 0, fixtures: { mode, dir } });
+  }
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'youtrack-fixtures-'));
+    ({ url, server: mockServer } = await new MockYouTrack().listen());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    mockServer.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays response headers', async () => {
+    await createClient('record').searchIssues({ query: 'project: DEMO', limit: 1 });
+    mockServer.close();
+
+    const result = await createClient('replay').searchIssues({ query: 'project: DEMO', limit: 1 });
+    expect(result.totalCount).toBe(4);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('matches requests regardless of the current time in their body', async () => {
+    ({ url, server: mockServer } = await new MockYouTrack().listen());
+    vi.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 9, 1, 9));
+    const recorded = await createClient('record').createWorkItem('DEMO-3', { duration: 30 });
+    mockServer.close();
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 9, 2, 9));
+    const replayed = await createClient('replay').createWorkItem('DEMO-3', { duration: 30 });
+    expect(replayed.id).toBe(recorded.id);
+    expect(replayed.duration).toEqual(recorded.duration);
+  });
+
+  it('leaves the token, emails and instance URL out of recorded fixtures', async () => {
+    const files = await readdir(dir);
+    const contents = (await Promise.all(files.map(file => readFile(join(dir, file), 'utf-8')))).join('\n');
+    expect(contents).not.toContain('replay-token');
+    expect(contents).not.toContain('@example.com');
+    expect(contents).not.toContain(url);
+  });
+});
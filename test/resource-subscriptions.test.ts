@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceSubscriptions } from '../src/resource-subscriptions.js';
+import { LogSink } from '../src/logger.js';
+import { startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Polling of subscribed resources: `notifications/resources/updated` on changes,
+ * and the backoff of resources whose polls fail
+ */
+
+const logSink: LogSink = { level: 'emergency', write: () => undefined };
+
+describe('ResourceSubscriptions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('notifies when the version changes, and only then', async () => {
+    let version = 'v1';
+    const notify = vi.fn(async () => undefined);
+    const subscriptions = new ResourceSubscriptions({ intervalMs: 1000, maxBackoffMs: 8000, fetchVersion: async () => version, notify, logSink });
+
+    await subscriptions.subscribe('youtrack://issue/DEMO-1');
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(notify).not.toHaveBeenCalled();
+
+    version = 'v2';
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('youtrack://issue/DEMO-1');
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(notify).toHaveBeenCalledTimes(1);
+    subscriptions.close();
+  });
+
+  it('doubles the wait after each failed poll, up to the maximum, and resets it after a success', async () => {
+    let failing = false;
+    const polls: number[] = [];
+    const subscriptions = new ResourceSubscriptions({
+      intervalMs: 1000,
+      maxBackoffMs: 5000,
+      fetchVersion: async () => {
+        polls.push(Date.now());
+        if (failing) {
+          throw new Error('YouTrack is down');
+        }
+        return 'v1';
+      },
+      notify: async () => undefined,
+      logSink
+    });
+
+    await subscriptions.subscribe('youtrack://issue/DEMO-1');
+    failing = true;
+    await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 5000 + 5000);
+    failing = false;
+    await vi.advanceTimersByTimeAsync(5000 + 1000);
+    subscriptions.close();
+
+    const waits = polls.slice(1).map((time, index) => time - polls[index]);
+    expect(waits).toEqual([1000, 2000, 4000, 5000, 5000, 5000, 1000]);
+  });
+
+  it('stops polling after unsubscribing', async () => {
+    const fetchVersion = vi.fn(async () => 'v1');
+    const subscriptions = new ResourceSubscriptions({ intervalMs: 1000, maxBackoffMs: 8000, fetchVersion, notify: async () => undefined, logSink });
+
+    await subscriptions.subscribe('youtrack://issue/DEMO-1');
+    await subscriptions.subscribe('youtrack://issue/DEMO-1');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchVersion).toHaveBeenCalledTimes(2);
+
+    subscriptions.unsubscribe('youtrack://issue/DEMO-1');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(fetchVersion).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('resource subscriptions over MCP', () => {
+  let server: TestServer;
+  let updated: string[];
+
+  beforeEach(async () => {
+    updated = [];
+    server = await startTestServer({
+      settings: { subscriptionPollInterval: 0.05 },
+      setUpClient: client => client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+        updated.push(notification.params.uri);
+      })
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  it('declares subscriptions', () => {
+    expect(server.client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+  });
+
+  it('sends notifications/resources/updated when a subscribed issue changes', async () => {
+    await server.client.subscribeResource({ uri: 'youtrack://issue/DEMO-1' });
+    await server.client.subscribeResource({ uri: 'youtrack://issue/DEMO-2' });
+    await wait(150);
+    expect(updated).toEqual([]);
+
+    await server.youtrack.updateIssue('DEMO-1', { summary: 'Changed while subscribed' });
+    await vi.waitFor(() => expect(updated).toEqual(['youtrack://issue/DEMO-1']));
+
+    await server.client.unsubscribeResource({ uri: 'youtrack://issue/DEMO-1' });
+    await server.youtrack.updateIssue('DEMO-1', { summary: 'Changed after unsubscribing' });
+    await wait(150);
+    expect(updated).toEqual(['youtrack://issue/DEMO-1']);
+  });
+
+  it('notifies a query subscription when an issue starts matching', async () => {
+    const uri = `youtrack://query/${encodeURIComponent('project: DEMO Type: Bug')}`;
+    await server.client.subscribeResource({ uri });
+
+    await server.youtrack.updateIssue('DEMO-4', { customFields: { Type: 'Bug' } });
+    await vi.waitFor(() => expect(updated).toEqual([uri]));
+  });
+
+  it('refuses to subscribe to an issue that does not exist', async () => {
+    await expect(server.client.subscribeResource({ uri: 'youtrack://issue/DEMO-999' })).rejects.toThrow();
+  });
+});
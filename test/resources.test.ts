@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { startTestServer, TestServer } from './helpers.js';
+
+/**
+ * The issue, project and query resource templates: listing and reading them
+ */
+
+describe('resources', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  async function readText(uri: string): Promise<string> {
+    const { contents } = await server.client.readResource({ uri });
+    expect(contents).toHaveLength(1);
+    expect(contents[0]).toMatchObject({ uri, mimeType: 'text/markdown' });
+    return contents[0].text as string;
+  }
+
+  it('lists the templates', async () => {
+    const { resourceTemplates } = await server.client.listResourceTemplates();
+    expect(resourceTemplates.map(template => [template.name, template.uriTemplate, template.title])).toEqual([
+      ['issue', 'youtrack://issue/{id}', 'YouTrack issue'],
+      ['project', 'youtrack://project/{shortName}', 'YouTrack project'],
+      ['query', 'youtrack://query/{query}', 'YouTrack issue search']
+    ]);
+    expect(resourceTemplates.every(template => template.mimeType === 'text/markdown' && template.description)).toBe(true);
+  });
+
+  it('lists the issues assigned to the current user', async () => {
+    await server.youtrack.updateIssue('DEMO-4', { assignee: 'admin' });
+
+    const { resources } = await server.client.listResources();
+    expect(resources).toEqual([{
+      uri: 'youtrack://issue/DEMO-4',
+      name: 'DEMO-4: Update README',
+      title: 'DEMO-4: Update README',
+      description: expect.stringMatching(/^Issue DEMO-4 in DEMO, updated /),
+      mimeType: 'text/markdown'
+    }]);
+  });
+
+  it('reads an issue with its fields, comments and links', async () => {
+    const text = await readText('youtrack://issue/DEMO-1');
+    expect(text).toContain('**DEMO-1** - Set up continuous integration');
+    expect(text).toContain('**Assignee:** John Doe');
+    expect(text).toContain('DEMO-3');
+  });
+
+  it('reads a project', async () => {
+    const text = await readText('youtrack://project/OPS');
+    expect(text).toContain('Operations');
+  });
+
+  it('reads the issues of a URI-encoded query', async () => {
+    const text = await readText(`youtrack://query/${encodeURIComponent('project: DEMO Type: Bug')}`);
+    expect(text).toContain('DEMO-2');
+    expect(text).not.toContain('DEMO-1');
+  });
+
+  it('fails to read an issue that does not exist', async () => {
+    await expect(server.client.readResource({ uri: 'youtrack://issue/DEMO-999' })).rejects.toThrow();
+  });
+});
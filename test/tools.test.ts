@@ -0,0 +1,208 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { checkOutputSchema, resultText, startTestServer, TestServer } from './helpers.js';
+
+/**
+ * Every registered tool, called through an MCP client against the mock YouTrack.
+ * Calls run in order: later calls change the issues earlier calls read.
+ */
+
+describe('tools', () => {
+  let server: TestServer;
+  const calledTools = new Set<string>();
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  /**
+   * Call a tool, expect it to succeed with structured content matching its output schema
+   */
+  async function callSuccessfully(name: string, args: Record<string, unknown> = {}): Promise<Record<string, any>> {
+    calledTools.add(name);
+    const result = await server.callTool(name, args);
+    expect(result.isError, resultText(result)).toBeFalsy();
+
+    const definition = server.definitions.find(candidate => candidate.name === name)!;
+    expect(checkOutputSchema(definition, result.structuredContent)).toEqual([]);
+    return result.structuredContent as Record<string, any>;
+  }
+
+  it('registers every discovered tool', async () => {
+    const { tools } = await server.client.listTools();
+    expect(tools.map(tool => tool.name).sort()).toEqual(server.definitions.map(definition => definition.name).sort());
+  });
+
+  describe('read-only tools', () => {
+    it.each<[string, Record<string, unknown>]>([
+      ['get-current-user', {}],
+      ['list-users', {}],
+      ['get-user', { userId: 'jdoe' }],
+      ['search-users-by-name', { name: 'John' }],
+      ['list-projects', {}],
+      ['get-project', { projectId: 'DEMO' }],
+      ['describe-project-fields', { project: 'DEMO' }],
+      ['refresh-schema', {}],
+      ['get-link-types', {}],
+      ['get-issue', { issueId: 'DEMO-1' }],
+      ['get-all-issues', { project: 'DEMO' }],
+      ['search-issues', { project: 'DEMO' }],
+      ['search-issues-advanced', { query: 'project: DEMO #Unresolved' }],
+      ['get-my-issues', {}],
+      ['get-recent-issues', { days: 7 }],
+      ['get-issue-links', { issueId: 'DEMO-1' }],
+      ['get-story-points', { issueId: 'DEMO-1' }],
+      ['get-subtasks', { parentIssueId: 'DEMO-1' }],
+      ['get-parent-issue', { subtaskIssueId: 'DEMO-3' }],
+      ['get-work-items', { issueId: 'DEMO-3' }],
+      ['get-time-summary', { issueId: 'DEMO-3' }],
+      ['get-gantt-data', { projectIds: ['DEMO'] }],
+      ['export-gantt-chart', { format: 'mermaid', projectIds: ['DEMO'] }],
+      ['get-project-timeline', { projectId: 'DEMO' }],
+      ['calculate-critical-path', { projectId: 'DEMO' }],
+      ['get-timeline-conflicts', { projectIds: ['DEMO'] }]
+    ])('%s', async (name, args) => {
+      await callSuccessfully(name, args);
+    });
+
+    it('returns the requested issue', async () => {
+      const { issue } = await callSuccessfully('get-issue', { issueId: 'DEMO-2' });
+      expect(issue.idReadable).toBe('DEMO-2');
+      expect(issue.summary).toBe('Login fails with SSO');
+    });
+
+    it('fetches the values of the requested sections', async () => {
+      const { issue } = await callSuccessfully('get-issue', { issueId: 'DEMO-3', include: ['customFields', 'timeTracking'] });
+      const estimation = issue.customFields.find((field: any) => field.name === 'Estimation');
+      const state = issue.customFields.find((field: any) => field.name === 'State');
+      expect(estimation.value).toMatchObject({ minutes: 240, presentation: '4h' });
+      expect(state.value).toMatchObject({ name: 'In Progress', isResolved: false });
+      expect(issue.timeTracking.workItems[0].duration).toMatchObject({ minutes: 90 });
+      expect(issue.assignee).toMatchObject({ login: 'jdoe', fullName: 'John Doe' });
+      expect(issue.comments).toBeUndefined();
+    });
+
+    it('fetches only the summary fields without customFields', async () => {
+      const { issues } = await callSuccessfully('search-issues', { project: 'DEMO', include: ['description'] });
+      const fieldNames = new Set(issues.flatMap((issue: any) => issue.customFields.map((field: any) => field.name)));
+      expect([...fieldNames].sort()).toEqual(['Assignee', 'Priority', 'State', 'Story Points']);
+      expect(issues[0].project).toMatchObject({ shortName: 'DEMO', name: 'Demo' });
+    });
+  });
+
+  describe('mutating tools', () => {
+    let issueId: string;
+
+    it('create-issue', async () => {
+      const { issue } = await callSuccessfully('create-issue', { project: 'DEMO', summary: 'Created by the tests', priority: 'Major' });
+      issueId = issue.idReadable;
+      expect(server.mock.issues.some(candidate => candidate.idReadable === issueId)).toBe(true);
+    });
+
+    it('update-issue', async () => {
+      await callSuccessfully('update-issue', { issueId, summary: 'Updated by the tests', assignee: 'jdoe', state: 'In Progress' });
+      const issue = server.mock.issues.find(candidate => candidate.idReadable === issueId)!;
+      expect(issue.summary).toBe('Updated by the tests');
+      expect(issue.fields.get('Assignee')).toBe('jdoe');
+      expect(issue.fields.get('State')).toBe('In Progress');
+    });
+
+    it('add-comment', async () => {
+      await callSuccessfully('add-comment', { issueId, text: 'A comment from the tests' });
+      const issue = server.mock.issues.find(candidate => candidate.idReadable === issueId)!;
+      expect(issue.comments.map(comment => comment.text)).toContain('A comment from the tests');
+    });
+
+    it('set-story-points', async () => {
+      await callSuccessfully('set-story-points', { issueId, storyPoints: 3 });
+    });
+
+    it('set-estimation', async () => {
+      await callSuccessfully('set-estimation', { issueId, estimationMinutes: 120 });
+    });
+
+    it('update-issue-timeline', async () => {
+      await callSuccessfully('update-issue-timeline', { issueId, startDate: Date.UTC(2026, 10, 2), dueDate: Date.UTC(2026, 10, 6) });
+    });
+
+    it('list-session-changes, undo-last-change and revert-change', async () => {
+      const { changes } = await callSuccessfully('list-session-changes');
+      expect(changes.length).toBeGreaterThan(0);
+
+      // Undoes the timeline update
+      await callSuccessfully('undo-last-change');
+      const update = changes.find((change: any) => change.tool === 'update-issue');
+      await callSuccessfully('revert-change', { changeId: update.id });
+      const issue = server.mock.issues.find(candidate => candidate.idReadable === issueId)!;
+      expect(issue.summary).toBe('Created by the tests');
+    });
+
+    it('create-issue-link and delete-issue-link', async () => {
+      const { link } = await callSuccessfully('create-issue-link', { issueId, targetIssue: 'DEMO-2', linkType: 'Relates' });
+      const { linkId } = await callSuccessfully('delete-issue-link', { issueId, linkId: link.id });
+      expect(linkId).toBe(link.id);
+    });
+
+    it('create-subtask', async () => {
+      const { subtask } = await callSuccessfully('create-subtask', { parentIssueId: issueId, summary: 'Subtask from the tests' });
+      expect(subtask.idReadable).toMatch(/^DEMO-\d+$/);
+    });
+
+    it('create-multiple-subtasks', async () => {
+      await callSuccessfully('create-multiple-subtasks', {
+        parentIssueId: issueId,
+        subtasks: [
+          { parentIssueId: issueId, summary: 'First of several' },
+          { parentIssueId: issueId, summary: 'Second of several' }
+        ]
+      });
+      const { subtasks } = await callSuccessfully('get-subtasks', { parentIssueId: issueId });
+      expect(subtasks).toHaveLength(3);
+    });
+
+    it('convert-to-subtask', async () => {
+      const { parentIssueId } = await callSuccessfully('convert-to-subtask', { issueId: 'DEMO-4', parentIssueId: issueId });
+      expect(parentIssueId).toBe(issueId);
+    });
+
+    it('create-work-item, update-work-item and delete-work-item', async () => {
+      const { workItem } = await callSuccessfully('create-work-item', { issueId, duration: 30, description: 'Testing' });
+      await callSuccessfully('update-work-item', { issueId, workItemId: workItem.id, duration: 45 });
+      await callSuccessfully('delete-work-item', { issueId, workItemId: workItem.id });
+    });
+
+    it('get-audit-log', async () => {
+      const { entries } = await callSuccessfully('get-audit-log', { issueId });
+      expect(entries.length).toBeGreaterThan(0);
+    });
+
+    it('delete-issue', async () => {
+      const { deleted } = await callSuccessfully('delete-issue', { issueId });
+      expect(deleted).toBe(true);
+      expect(server.mock.issues.some(candidate => candidate.idReadable === issueId)).toBe(false);
+    });
+  });
+
+  describe('failing calls', () => {
+    it('reports an unknown issue as an error result', async () => {
+      const result = await server.callTool('get-issue', { issueId: 'DEMO-999' });
+      expect(result.isError).toBe(true);
+      expect(resultText(result)).toContain('Failed to get issue');
+      expect(result.structuredContent?.error).toBe(resultText(result));
+    });
+
+    it('reports an invalid field value without changing the issue', async () => {
+      const result = await server.callTool('update-issue', { issueId: 'DEMO-1', priority: 'Not a priority' });
+      expect(result.isError).toBe(true);
+      expect(server.mock.issues.find(issue => issue.idReadable === 'DEMO-1')!.fields.get('Priority')).not.toBe('Not a priority');
+    });
+  });
+
+  it('called every registered tool', () => {
+    const uncalled = server.definitions.map(definition => definition.name).filter(name => !calledTools.has(name));
+    expect(uncalled).toEqual([]);
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Some tools wait for YouTrack's eventual consistency between requests
+    testTimeout: 20000
+  }
+});